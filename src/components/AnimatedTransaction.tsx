@@ -2,7 +2,8 @@ import { useState, useEffect } from 'react';
 import type { Transaction, ActionType } from '../types/transaction';
 import { NetworkBadge } from './NetworkBadge';
 import { getShortSummary } from '../utils/humanize';
-import { formatAmount } from '../utils/formatters';
+import { formatTokenAmount, formatUSD } from '../utils/formatters';
+import { getBundleAssets } from '../data/bundles';
 
 interface AnimatedTransactionProps {
   transaction: Transaction;
@@ -30,6 +31,7 @@ export function AnimatedTransaction({
   const [isHovered, setIsHovered] = useState(false);
   const iconConfig = ACTION_ICONS[transaction.action];
   const summary = getShortSummary(transaction);
+  const assets = getBundleAssets(transaction);
 
   useEffect(() => {
     if (phase === 'exiting') {
@@ -116,8 +118,16 @@ export function AnimatedTransaction({
         {/* Amount */}
         <div className="bg-gray-50 rounded-lg p-3 mb-2">
           <p className="text-2xl font-bold text-visa-navy">
-            {formatAmount(transaction.amount, transaction.asset)} <span className="text-visa-blue">{transaction.asset}</span>
+            {formatUSD(transaction.amountUsd)}{' '}
+            <span className="text-visa-blue">
+              {assets.length > 1 ? `total across ${assets.join(' + ')}` : transaction.asset}
+            </span>
           </p>
+          {transaction.tokenAmount && (
+            <p className="text-xs text-gray-400 mt-0.5">
+              {formatTokenAmount(transaction.tokenAmount, transaction.asset)}
+            </p>
+          )}
         </div>
 
         {/* Summary */}
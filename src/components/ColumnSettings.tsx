@@ -0,0 +1,91 @@
+import type { ColumnId } from '../data/tableLayout';
+import { COLUMN_IDS, COLUMN_LABELS } from '../data/tableLayout';
+
+interface ColumnSettingsProps {
+  /** Visible columns, left to right */
+  columns: ColumnId[];
+  onChange: (columns: ColumnId[]) => void;
+  onReset: () => void;
+}
+
+export function ColumnSettings({ columns, onChange, onReset }: ColumnSettingsProps) {
+  // Visible columns in their order, then the hidden ones
+  const ordered = [...columns, ...COLUMN_IDS.filter((id) => !columns.includes(id))];
+
+  const toggle = (id: ColumnId) => {
+    if (columns.includes(id)) {
+      // Keep at least one column
+      if (columns.length > 1) onChange(columns.filter((column) => column !== id));
+    } else {
+      onChange([...columns, id]);
+    }
+  };
+
+  const move = (id: ColumnId, offset: -1 | 1) => {
+    const index = columns.indexOf(id);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= columns.length) return;
+    const next = [...columns];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <details className="relative">
+      <summary
+        className="list-none cursor-pointer p-1 rounded text-gray-400 hover:text-[#1A1F71] hover:bg-gray-50"
+        title="Columns"
+        aria-label="Configure columns"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 5h16M4 12h16M4 19h16M9 3v4M15 10v4M7 17v4" />
+        </svg>
+      </summary>
+      <div className="absolute right-0 z-20 mt-1 w-52 bg-white border border-gray-100 rounded-lg shadow-lg py-1">
+        {ordered.map((id) => {
+          const visible = columns.includes(id);
+          const index = columns.indexOf(id);
+          return (
+            <div key={id} className="flex items-center gap-2 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50">
+              <label className="flex-1 flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={visible}
+                  disabled={visible && columns.length === 1}
+                  onChange={() => toggle(id)}
+                  className="accent-[#00A1E0]"
+                />
+                {COLUMN_LABELS[id]}
+              </label>
+              {visible && (
+                <span className="flex items-center text-gray-400">
+                  <button
+                    onClick={() => move(id, -1)}
+                    disabled={index === 0}
+                    className="px-1 hover:text-[#1A1F71] disabled:opacity-30"
+                    aria-label={`Move ${COLUMN_LABELS[id]} left`}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => move(id, 1)}
+                    disabled={index === columns.length - 1}
+                    className="px-1 hover:text-[#1A1F71] disabled:opacity-30"
+                    aria-label={`Move ${COLUMN_LABELS[id]} right`}
+                  >
+                    ↓
+                  </button>
+                </span>
+              )}
+            </div>
+          );
+        })}
+        <div className="border-t border-gray-100 mt-1 pt-1 px-3">
+          <button onClick={onReset} className="text-[11px] text-[#00A1E0] hover:underline py-1">
+            Reset to default
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
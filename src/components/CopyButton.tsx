@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { logWarning } from '../utils/logger';
+
+interface CopyButtonProps {
+  value: string;
+  /** What is copied, for the button's accessible label */
+  label: string;
+}
+
+const COPIED_FEEDBACK_MS = 1500;
+
+export function CopyButton({ value, label }: CopyButtonProps) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  const handleCopy = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    try {
+      await navigator.clipboard.writeText(value);
+      setCopied(true);
+    } catch (err) {
+      logWarning('Clipboard', 'Copy failed', err);
+    }
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleCopy}
+      className="shrink-0 p-1 rounded text-morpho-silver/60 hover:text-morpho-pearl hover:bg-black/5 transition-colors"
+      aria-label={copied ? `${label} copied` : `Copy ${label}`}
+      title={copied ? 'Copied' : `Copy ${label}`}
+    >
+      {copied ? (
+        <svg className="w-3.5 h-3.5 text-accent-emerald" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+        </svg>
+      ) : (
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <rect x="9" y="9" width="11" height="11" rx="2" strokeWidth={1.5} />
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M5 15V5a2 2 0 012-2h10" />
+        </svg>
+      )}
+    </button>
+  );
+}
@@ -0,0 +1,113 @@
+import { useEffect } from 'react';
+import type { DataQualityReport } from '../data/validation';
+import { summarizeIssues } from '../data/validation';
+import { truncateAddress } from '../utils/formatters';
+
+interface DataQualityPanelProps {
+  report: DataQualityReport;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+export function DataQualityPanel({ report, isOpen, onClose }: DataQualityPanelProps) {
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  const issueSummary = summarizeIssues(report);
+
+  return (
+    <div className="modal-backdrop z-50" onClick={onClose}>
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <div
+          className="modal-content glass-card rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto relative"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-6 border-b border-black/5 flex items-center justify-between">
+            <div>
+              <h2 className="font-display text-2xl text-[#1A1F71]">Data Quality</h2>
+              <p className="text-morpho-silver text-sm font-mono mt-1">
+                Rows that failed validation are quarantined, not displayed
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-morpho-silver/60 hover:text-morpho-pearl transition-colors p-1 rounded-lg hover:bg-black/5"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Totals */}
+          <div className="p-6 bg-morpho-charcoal/50">
+            <div className="flex gap-6 font-mono text-sm">
+              <span>
+                <span className="font-semibold text-morpho-pearl">{report.checked.toLocaleString()}</span>
+                <span className="text-morpho-silver ml-1.5">checked</span>
+              </span>
+              <span>
+                <span className="font-semibold text-accent-emerald">{report.accepted.toLocaleString()}</span>
+                <span className="text-morpho-silver ml-1.5">accepted</span>
+              </span>
+              <span>
+                <span className="font-semibold text-accent-rose">{report.quarantined.length.toLocaleString()}</span>
+                <span className="text-morpho-silver ml-1.5">quarantined</span>
+              </span>
+            </div>
+          </div>
+
+          {/* Issues by type */}
+          {issueSummary.length > 0 && (
+            <div className="p-6 border-b border-black/5">
+              <h3 className="data-label mb-3">Issues</h3>
+              {issueSummary.map(({ message, count }) => (
+                <div key={message} className="flex justify-between items-center py-2 border-b border-black/5 last:border-0">
+                  <span className="text-sm text-morpho-pearl">{message}</span>
+                  <span className="font-mono text-sm text-morpho-silver">{count}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Quarantined rows */}
+          <div className="p-6">
+            <h3 className="data-label mb-3">Quarantined Rows</h3>
+            {report.quarantined.length === 0 ? (
+              <p className="text-sm text-morpho-silver">All rows passed validation.</p>
+            ) : (
+              <div className="space-y-3">
+                {report.quarantined.map(({ raw, issues }, index) => (
+                  <div key={`${raw.transaction_hash}-${index}`} className="text-xs font-mono">
+                    <p className="text-morpho-pearl">
+                      {truncateAddress(raw.transaction_hash)}
+                      <span className="text-morpho-silver ml-2">
+                        {raw.chain} • {raw.lending_event} • {raw.token_symbol}
+                      </span>
+                    </p>
+                    {issues.map((issue) => (
+                      <p key={issue.field + issue.message} className="text-accent-rose mt-0.5">
+                        {issue.field}: {issue.message}
+                      </p>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useMemo } from 'react';
+import type { Transaction } from '../types/transaction';
+import type { ExportFormat } from '../data/lendingImport';
+import {
+  countExportEvents,
+  getExportFileName,
+  getExportMimeType,
+  serializeExport,
+  toExportRows,
+} from '../data/lendingExport';
+
+interface ExportMenuProps {
+  /** The transactions to export (the table's filtered rows) */
+  transactions: Transaction[];
+}
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; hint: string }[] = [
+  { format: 'csv', label: 'CSV', hint: 'Spreadsheets; re-importable' },
+  { format: 'json', label: 'JSON', hint: 'Array of rows; re-importable' },
+  { format: 'jsonl', label: 'JSONL', hint: 'One row per line; for Parquet/DuckDB' },
+];
+
+function downloadFile(content: string, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Let the download start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export function ExportMenu({ transactions }: ExportMenuProps) {
+  const { exported, withoutHash } = useMemo(() => countExportEvents(transactions), [transactions]);
+
+  const handleExport = (format: ExportFormat, menu: HTMLDetailsElement | null) => {
+    const rows = toExportRows(transactions);
+    downloadFile(serializeExport(rows, format), getExportFileName(format), getExportMimeType(format));
+    if (menu) menu.open = false;
+  };
+
+  return (
+    <details className="relative">
+      <summary
+        className="list-none cursor-pointer p-1 rounded text-gray-400 hover:text-[#1A1F71] hover:bg-gray-50"
+        title="Export"
+        aria-label="Export transactions"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M12 4v11m0 0l-4-4m4 4l4-4M5 19h14" />
+        </svg>
+      </summary>
+      <div className="absolute right-0 z-20 mt-1 w-60 bg-white border border-gray-100 rounded-lg shadow-lg py-1">
+        <p className="px-3 py-1 text-[11px] text-gray-400">
+          {transactions.length === 0 ? 'Nothing to export' : `Export ${transactions.length} shown transactions`}
+        </p>
+        {withoutHash > 0 && (
+          <p className="px-3 pb-1 text-[11px] text-amber-600">
+            {withoutHash} {withoutHash === 1 ? 'event has' : 'events have'} no transaction hash and will be left out
+            (the import needs one)
+          </p>
+        )}
+        {FORMAT_OPTIONS.map(({ format, label, hint }) => (
+          <button
+            key={format}
+            disabled={exported === 0}
+            onClick={(e) => handleExport(format, e.currentTarget.closest('details'))}
+            className="w-full flex items-baseline justify-between gap-2 px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-50 disabled:text-gray-300 disabled:hover:bg-transparent"
+          >
+            <span className="font-medium">{label}</span>
+            <span className="text-[10px] text-gray-400">{hint}</span>
+          </button>
+        ))}
+      </div>
+    </details>
+  );
+}
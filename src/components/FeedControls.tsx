@@ -0,0 +1,71 @@
+import type { FeedSpeed } from '../types/playback';
+import { FEED_SPEEDS } from '../lib/playback';
+
+interface FeedControlsProps {
+  isPaused: boolean;
+  /** Drip speed; omitted while replaying, which has its own speeds */
+  speed?: FeedSpeed;
+  /** Transactions buffered while paused */
+  bufferedCount: number;
+  onTogglePause: () => void;
+  onStep: () => void;
+  onSpeedChange: (speed: FeedSpeed) => void;
+}
+
+export function FeedControls({ isPaused, speed, bufferedCount, onTogglePause, onStep, onSpeedChange }: FeedControlsProps) {
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <button
+        onClick={onTogglePause}
+        className="p-0.5 rounded text-gray-500 hover:text-[#1A1F71]"
+        title={isPaused ? 'Resume (Space)' : 'Pause (Space)'}
+        aria-label={isPaused ? 'Resume feed' : 'Pause feed'}
+      >
+        {isPaused ? (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        )}
+      </button>
+
+      {isPaused && (
+        <button
+          onClick={onStep}
+          className="p-0.5 rounded text-gray-500 hover:text-[#1A1F71]"
+          title="Show next event (→)"
+          aria-label="Show next event"
+        >
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5v14l9-7zM16 5h3v14h-3z" />
+          </svg>
+        </button>
+      )}
+
+      {isPaused && bufferedCount > 0 && (
+        <span className="text-amber-600" title="Events received while paused">
+          {bufferedCount} buffered
+        </span>
+      )}
+
+      {speed !== undefined && (
+        <div className="flex items-center gap-0.5" title="Feed speed (- / +)">
+          {FEED_SPEEDS.map((option) => (
+            <button
+              key={option}
+              onClick={() => onSpeedChange(option)}
+              className={`px-1 py-0.5 rounded ${
+                option === speed ? 'bg-[#1A1F71] text-white' : 'text-gray-400 hover:text-[#1A1F71]'
+              }`}
+            >
+              {option}x
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+import type { TransactionFilters } from '../data/filters';
+import { ACTION_TYPES, EMPTY_FILTERS, isFilterActive } from '../data/filters';
+import { getAssets, getNetworks } from '../data/chainRegistry';
+import { getProtocols } from '../data/protocolRegistry';
+
+interface FilterBarProps {
+  filters: TransactionFilters;
+  onChange: (filters: TransactionFilters) => void;
+  /** Whether the active source reports wallets; search covers transaction hashes only when it does not */
+  walletSearch?: boolean;
+}
+
+interface FilterOption {
+  value: string;
+  label: string;
+}
+
+const ACTION_OPTIONS: FilterOption[] = ACTION_TYPES.map((action) => ({
+  value: action,
+  label: action.charAt(0).toUpperCase() + action.slice(1),
+}));
+
+type ListFilterKey = 'actions' | 'assets' | 'networks' | 'protocols';
+
+interface FilterMenuProps {
+  label: string;
+  options: FilterOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}
+
+// Multi-select dropdown; nothing selected means "all"
+function FilterMenu({ label, options, selected, onChange }: FilterMenuProps) {
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter((item) => item !== value) : [...selected, value]);
+  };
+
+  const summary = selected.length === 0
+    ? label
+    : selected.length === 1
+      ? options.find((option) => option.value === selected[0])?.label ?? selected[0]
+      : `${label} (${selected.length})`;
+
+  return (
+    <details className="relative">
+      <summary
+        className={`list-none cursor-pointer px-2 py-1 rounded-md border text-[11px] whitespace-nowrap ${
+          selected.length > 0
+            ? 'border-[#00A1E0]/40 bg-[#00A1E0]/10 text-[#00A1E0]'
+            : 'border-gray-200 text-gray-500 hover:text-[#1A1F71]'
+        }`}
+      >
+        {summary} ▾
+      </summary>
+      <div className="absolute z-20 mt-1 min-w-[140px] max-h-60 overflow-y-auto bg-white border border-gray-100 rounded-lg shadow-lg py-1">
+        {options.map((option) => (
+          <label
+            key={option.value}
+            className="flex items-center gap-2 px-3 py-1 text-xs text-gray-700 hover:bg-gray-50 cursor-pointer"
+          >
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={() => toggle(option.value)}
+              className="accent-[#00A1E0]"
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    </details>
+  );
+}
+
+function parseUsd(value: string): number | null {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+export function FilterBar({ filters, onChange, walletSearch = true }: FilterBarProps) {
+  const menus: { key: ListFilterKey; label: string; options: FilterOption[] }[] = [
+    { key: 'actions', label: 'Action', options: ACTION_OPTIONS },
+    { key: 'assets', label: 'Asset', options: getAssets().map((asset) => ({ value: asset.symbol, label: asset.symbol })) },
+    { key: 'networks', label: 'Network', options: getNetworks().map((network) => ({ value: network.name, label: network.name })) },
+    { key: 'protocols', label: 'Protocol', options: getProtocols().map((protocol) => ({ value: protocol.id, label: protocol.name })) },
+  ];
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <input
+        type="search"
+        value={filters.search}
+        onChange={(e) => onChange({ ...filters, search: e.target.value })}
+        placeholder={walletSearch ? 'Wallet or tx hash…' : 'Tx hash…'}
+        title={walletSearch ? undefined : 'This source does not report wallets, so search matches transaction hashes only'}
+        spellCheck={false}
+        className="w-40 px-2 py-1 rounded-md border border-gray-200 text-[11px] font-mono text-gray-700 placeholder:text-gray-400 focus:outline-none focus:border-[#00A1E0]"
+      />
+
+      {menus.map((menu) => (
+        <FilterMenu
+          key={menu.key}
+          label={menu.label}
+          options={menu.options}
+          selected={filters[menu.key]}
+          onChange={(selected) => onChange({ ...filters, [menu.key]: selected })}
+        />
+      ))}
+
+      <div className="flex items-center gap-1 text-[11px] text-gray-400">
+        <span>$</span>
+        <input
+          type="number"
+          min={0}
+          value={filters.minUsd ?? ''}
+          onChange={(e) => onChange({ ...filters, minUsd: parseUsd(e.target.value) })}
+          placeholder="min"
+          aria-label="Minimum USD value"
+          className="w-16 px-1.5 py-1 rounded-md border border-gray-200 font-mono text-gray-700 focus:outline-none focus:border-[#00A1E0]"
+        />
+        <span>–</span>
+        <input
+          type="number"
+          min={0}
+          value={filters.maxUsd ?? ''}
+          onChange={(e) => onChange({ ...filters, maxUsd: parseUsd(e.target.value) })}
+          placeholder="max"
+          aria-label="Maximum USD value"
+          className="w-16 px-1.5 py-1 rounded-md border border-gray-200 font-mono text-gray-700 focus:outline-none focus:border-[#00A1E0]"
+        />
+      </div>
+
+      {isFilterActive(filters) && (
+        <button
+          onClick={() => onChange(EMPTY_FILTERS)}
+          className="text-[11px] text-[#00A1E0] hover:underline"
+        >
+          Clear
+        </button>
+      )}
+    </div>
+  );
+}
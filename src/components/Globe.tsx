@@ -1,6 +1,8 @@
 import { useEffect, useRef } from "react";
 import createGlobe from "cobe";
 import { cn } from "../lib/utils";
+import type { GlobePulse } from "../lib/globePulses";
+import { getPulseMarkers, locationToAngles } from "../lib/globePulses";
 
 const hexToRgbNormalized = (hex: string): [number, number, number] => {
   let r = 0, g = 0, b = 0;
@@ -25,18 +27,55 @@ interface GlobeProps {
   baseColor?: string;
   glowColor?: string;
   markerColor?: string;
+  /** Transaction pulses to plot; the globe turns toward the newest one */
+  pulses?: GlobePulse[];
 }
 
+// Idle rotation per frame
+const IDLE_ROTATION = 0.002;
+// Fraction of the remaining angle covered each frame when turning toward a pulse
+const FOCUS_EASING = 0.04;
+// Keep the tilt modest so the poles don't fill the view
+const MAX_FOCUS_THETA = 0.5;
+
+// Shortest signed angle from a to b
+const angleBetween = (a: number, b: number) => {
+  const delta = (b - a) % (Math.PI * 2);
+  if (delta > Math.PI) return delta - Math.PI * 2;
+  if (delta < -Math.PI) return delta + Math.PI * 2;
+  return delta;
+};
+
 export function Globe({
   className,
   size = 400,
   baseColor = "#FFFFFF", // White globe surface
   glowColor = "#87CEEB", // Sky blue glow
-  markerColor = "#87CEEB", // Sky blue for city markers
+  markerColor = "#87CEEB", // Sky blue for markers without their own color
+  pulses = [],
 }: GlobeProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const globeRef = useRef<ReturnType<typeof createGlobe> | null>(null);
   const phiRef = useRef(0);
+  const thetaRef = useRef(0.25);
+  const pulsesRef = useRef(pulses);
+  // Rotation to ease toward, cleared once reached
+  const focusRef = useRef<{ phi: number; theta: number } | null>(null);
+  const focusedPulseIdRef = useRef<string | null>(null);
+
+  // Turn toward each new pulse
+  useEffect(() => {
+    pulsesRef.current = pulses;
+    const newest = pulses[pulses.length - 1];
+    if (newest && newest.id !== focusedPulseIdRef.current) {
+      focusedPulseIdRef.current = newest.id;
+      const angles = locationToAngles(newest.location);
+      focusRef.current = {
+        phi: angles.phi,
+        theta: Math.max(-MAX_FOCUS_THETA, Math.min(MAX_FOCUS_THETA, angles.theta)),
+      };
+    }
+  }, [pulses]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -54,8 +93,8 @@ export function Globe({
       devicePixelRatio,
       width: size * devicePixelRatio,
       height: size * devicePixelRatio,
-      phi: 0,
-      theta: 0.25,
+      phi: phiRef.current,
+      theta: thetaRef.current,
       dark: 0, // Light mode - white background
       scale: 1.05,
       diffuse: 2,
@@ -66,22 +105,29 @@ export function Globe({
       glowColor: resolvedGlowColor,
       opacity: 1,
       offset: [0, 0],
-      markers: [
-        // Major DeFi hubs
-        { location: [40.7128, -74.006], size: 0.06 },   // New York
-        { location: [51.5074, -0.1278], size: 0.06 },   // London
-        { location: [35.6762, 139.6503], size: 0.05 }, // Tokyo
-        { location: [1.3521, 103.8198], size: 0.05 },  // Singapore
-        { location: [22.3193, 114.1694], size: 0.05 }, // Hong Kong
-        { location: [47.3769, 8.5417], size: 0.05 },   // Zurich
-        { location: [37.7749, -122.4194], size: 0.05 }, // San Francisco
-        { location: [52.52, 13.405], size: 0.04 },     // Berlin
-        { location: [48.8566, 2.3522], size: 0.04 },   // Paris
-        { location: [-33.8688, 151.2093], size: 0.04 }, // Sydney
-      ],
-      onRender: (state: Record<string, number>) => {
+      markers: [],
+      onRender: (state: Record<string, unknown>) => {
+        // Pulses shrink as they age
+        state.markers = getPulseMarkers(pulsesRef.current, Date.now()).map((marker) => ({
+          location: marker.location,
+          size: marker.size,
+          color: hexToRgbNormalized(marker.color),
+        }));
+
+        const focus = focusRef.current;
+        if (focus) {
+          const deltaPhi = angleBetween(phiRef.current, focus.phi);
+          const deltaTheta = focus.theta - thetaRef.current;
+          phiRef.current += deltaPhi * FOCUS_EASING;
+          thetaRef.current += deltaTheta * FOCUS_EASING;
+          if (Math.abs(deltaPhi) < 0.005 && Math.abs(deltaTheta) < 0.005) {
+            focusRef.current = null;
+          }
+        } else {
+          phiRef.current += IDLE_ROTATION; // Slower, more elegant rotation
+        }
         state.phi = phiRef.current;
-        phiRef.current += 0.002; // Slower, more elegant rotation
+        state.theta = thetaRef.current;
       },
     });
 
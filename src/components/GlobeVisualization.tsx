@@ -1,39 +1,201 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import type { Transaction } from '../types/transaction';
+import type { TransactionSourceId } from '../types/source';
+import type { ImportedDataset } from '../data/lendingImport';
 import { Globe } from './Globe';
-import { OrbitingDot } from './OrbitingDot';
+import { OrbitingDot, ORBIT_LANES } from './OrbitingDot';
+import { TrailCanvas } from './TrailCanvas';
 import { TransactionTable } from './TransactionTable';
+import type { FeedBadge } from './TransactionTable';
 import { TransactionModal } from './TransactionModal';
+import { SourceSelector } from './SourceSelector';
+import { ImportPanel } from './ImportPanel';
+import { DataQualityPanel } from './DataQualityPanel';
+import { ReplayControls } from './ReplayControls';
+import { FeedControls } from './FeedControls';
+import { StatsPanel } from './StatsPanel';
+import { WalletProfilePanel } from './WalletProfilePanel';
 import { useLendingData } from '../hooks/useLendingData';
+import { useReplayHistory } from '../hooks/useReplayHistory';
+import { FEED_SPEEDS } from '../lib/playback';
+import type { FeedSpeed, PlaybackMode, ReplayEndBehavior, ReplaySpeed } from '../types/playback';
+import { createTransactionSource, getDefaultSourceId, isSourceId } from '../sources/registry';
+import { animationEngine } from '../lib/animationEngine';
+import { createTrailLayer } from '../lib/trailLayer';
+import { addPulse, createPulse } from '../lib/globePulses';
+import { priceService } from '../pricing/priceService';
+import { EMPTY_FILTERS, filterTransactions, isFilterActive, matchesFilters } from '../data/filters';
+import type { TransactionFilters } from '../data/filters';
+import { formatViewState, parseViewState } from '../utils/urlState';
+import { computeMarketStates } from '../data/marketState';
+import { getEvents } from '../data/bundles';
+import { STATS_WINDOWS } from '../data/flowStats';
+import type { MarketBaseline } from '../data/marketState';
+import { fetchMarketBaseline, getMarketStateUrl } from '../services/marketState';
+import type { GlobePulse } from '../lib/globePulses';
+import { logWarning } from '../utils/logger';
 
-type DotPhase = 'orbiting' | 'settling' | 'done';
-
-interface PendingTransaction {
+interface Flight {
   transaction: Transaction;
-  phase: DotPhase;
+  lane: number;
+}
+
+// Show the feed as behind once the oldest queued event has waited this long
+const LAG_WARNING_MS = 10_000;
+// How long a stepped-to row stays highlighted
+const NEW_ROW_HIGHLIGHT_MS = 800;
+// Stored replay history read for the charts: the longest stats window, refreshed per simulated minute
+const CHART_HISTORY_MS = Math.max(...STATS_WINDOWS.map((option) => option.ms));
+const REPLAY_HISTORY_REFRESH_MS = 60 * 1000;
+
+// Whether an entry is, or contains, the event with this transaction hash
+function hasTransactionHash(tx: Transaction, hash: string): boolean {
+  return getEvents(tx).some((event) => event.transactionHash?.toLowerCase() === hash);
 }
 
-// Single orbit: 200° to -20° = 220° at 3° per 20ms ≈ 1.5 seconds
-const ORBIT_DURATION = 1500;
+// Keyboard shortcuts should not fire while typing in a form field
+function isTypingTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+// Give each new in-flight transaction the innermost free orbit lane, dropping finished ones
+function assignLanes(lanes: Record<string, number>, inFlight: Transaction[], landing: Flight[]): Record<string, number> {
+  const next: Record<string, number> = {};
+  const occupied = new Set(landing.map((flight) => flight.lane));
+  inFlight.forEach((tx) => {
+    if (lanes[tx.id] !== undefined) {
+      next[tx.id] = lanes[tx.id];
+      occupied.add(lanes[tx.id]);
+    }
+  });
+  inFlight.forEach((tx, index) => {
+    if (next[tx.id] !== undefined) return;
+    const free = Array.from({ length: ORBIT_LANES }, (_, lane) => lane).find((lane) => !occupied.has(lane));
+    next[tx.id] = free ?? index % ORBIT_LANES;
+    occupied.add(next[tx.id]);
+  });
+  return next;
+}
 
 export function GlobeVisualization() {
-  // Use the lending data hook for real/mock data
+  // View from a shared link, if the page was opened with one
+  const [linkedView] = useState(() => parseViewState(window.location.search));
+
+  // Data source, selectable at runtime
+  // An uploaded file cannot travel with a link
+  const [sourceId, setSourceId] = useState<TransactionSourceId>(() =>
+    isSourceId(linkedView.sourceId) && linkedView.sourceId !== 'file' ? linkedView.sourceId : getDefaultSourceId()
+  );
+  // Most recent file import, replayed by the file source
+  const [importedDataset, setImportedDataset] = useState<ImportedDataset | null>(null);
+  const fileDataset = sourceId === 'file' ? importedDataset : null;
+  const source = useMemo(
+    () => createTransactionSource(sourceId, { dataset: fileDataset }),
+    [sourceId, fileDataset]
+  );
+
+  // Playback for finite sources: chronological replay by default
+  const [playbackMode, setPlaybackMode] = useState<PlaybackMode>(linkedView.mode ?? 'replay');
+  const [replaySpeed, setReplaySpeed] = useState<ReplaySpeed>(linkedView.replaySpeed ?? 60);
+  const [replayEnd, setReplayEnd] = useState<ReplayEndBehavior>('stop');
+  const [feedSpeed, setFeedSpeed] = useState<FeedSpeed>(1);
+
+  // Table filters; the globe only animates matching transactions
+  const [filters, setFilters] = useState<TransactionFilters>(linkedView.filters ?? EMPTY_FILTERS);
+  const shouldAnimate = useCallback(
+    (tx: Transaction) => !isFilterActive(filters) || matchesFilters(tx, filters),
+    [filters]
+  );
+
+  // Use the lending data hook for the selected source
   const {
-    pendingTransaction,
+    inFlightTransactions,
     displayedTransactions,
     commitTransaction,
-  } = useLendingData();
+    queueLength,
+    lagMs,
+    inflowPerMinute,
+    playbackRate,
+    error,
+    dataQuality,
+    isReplaying,
+    replayClock,
+    isReplayFinished,
+    isPaused,
+    pause,
+    resume,
+    step,
+    hasOlderHistory,
+    isLoadingOlderHistory,
+    loadOlderHistory,
+    refetch,
+  } = useLendingData(source, {
+    mode: playbackMode,
+    replaySpeed,
+    replayEnd,
+    replayFrom: linkedView.replayAt,
+    feedSpeed,
+    shouldAnimate,
+  });
+  const filteredTransactions = useMemo(
+    () => filterTransactions(displayedTransactions, filters),
+    [displayedTransactions, filters]
+  );
+
+  // Charts during replay also cover stored events no longer in memory
+  const replayHistory = useReplayHistory(source.id, replayClock, CHART_HISTORY_MS, REPLAY_HISTORY_REFRESH_MS);
+  const chartTransactions = useMemo(() => {
+    if (replayHistory.length === 0) return filteredTransactions;
+    const shownIds = new Set(displayedTransactions.map((tx) => tx.id));
+    const older = replayHistory.filter((tx) => !shownIds.has(tx.id));
+    return [...filteredTransactions, ...filterTransactions(older, filters)];
+  }, [replayHistory, displayedTransactions, filteredTransactions, filters]);
+  let feedBadge: FeedBadge = 'live';
+  if (isPaused) feedBadge = 'paused';
+  else if (isReplaying) feedBadge = 'replay';
+  else if (source.finite) feedBadge = 'loop';
 
-  const [pendingTx, setPendingTx] = useState<PendingTransaction | null>(null);
+  // Orbit lane per in-flight transaction, and dots that left the orbit for their table row
+  const [lanes, setLanes] = useState<Record<string, number>>({});
+  const [landing, setLanding] = useState<Flight[]>([]);
+  // Every dot's trail is painted on one canvas
+  const [trailLayer] = useState(createTrailLayer);
+  // Markers left on the globe by committed transactions
+  const [pulses, setPulses] = useState<GlobePulse[]>([]);
   const [newTxId, setNewTxId] = useState<string | undefined>();
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  // The feed was paused by opening the modal, and resumes when it closes
+  const [isAutoPaused, setIsAutoPaused] = useState(false);
+  // Transaction named by a shared link, opened once it reaches the table
+  const [linkedTxHash, setLinkedTxHash] = useState(linkedView.txHash ?? null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isQualityOpen, setIsQualityOpen] = useState(false);
+  const [isStatsOpen, setIsStatsOpen] = useState(true);
+  // Wallet whose profile is open
+  const [profileWallet, setProfileWallet] = useState<string | null>(null);
+  const [droppedFile, setDroppedFile] = useState<File | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [globeSize, setGlobeSize] = useState(450);
   const containerRef = useRef<HTMLDivElement>(null);
   const globeContainerRef = useRef<HTMLDivElement>(null);
   const tableRef = useRef<HTMLDivElement>(null);
-  const pendingTxRef = useRef<PendingTransaction | null>(null);
-  pendingTxRef.current = pendingTx;
+
+  if (linkedTxHash) {
+    const linked = displayedTransactions.find((tx) => hasTransactionHash(tx, linkedTxHash));
+    if (linked) {
+      setLinkedTxHash(null);
+      setSelectedTransaction(linked);
+      setIsModalOpen(true);
+      // Held like a clicked row; the effect below pauses the feed
+      if (!isPaused) setIsAutoPaused(true);
+    }
+  }
+
+  if (inFlightTransactions.some((tx) => lanes[tx.id] === undefined)) {
+    setLanes(assignLanes(lanes, inFlightTransactions, landing));
+  }
 
   // Track positions relative to main container for cross-element animation
   const [globeCenter, setGlobeCenter] = useState({ x: 0, y: 0 });
@@ -50,6 +212,32 @@ export function GlobeVisualization() {
     })),
   []);
 
+  // Market totals to start utilization from, when a market state source is configured
+  const [marketBaseline, setMarketBaseline] = useState<MarketBaseline | null>(null);
+  useEffect(() => {
+    const url = getMarketStateUrl();
+    if (!url) return;
+    const controller = new AbortController();
+    fetchMarketBaseline(url, controller.signal)
+      .then(setMarketBaseline)
+      .catch((err: Error) => {
+        if (err.name !== 'AbortError') logWarning('Markets', 'Market state unavailable, reconstructing from events', err);
+      });
+    return () => controller.abort();
+  }, []);
+
+  // Independent of the filters: a market's state depends on all of its events
+  const marketStates = useMemo(
+    () => computeMarketStates(displayedTransactions, marketBaseline),
+    [displayedTransactions, marketBaseline]
+  );
+
+  // Keep USD prices fresh while the visualization is open
+  useEffect(() => {
+    priceService.start();
+    return () => priceService.stop();
+  }, []);
+
   // Responsive globe sizing - LARGER
   useEffect(() => {
     const updateSize = () => {
@@ -101,52 +289,198 @@ export function GlobeVisualization() {
   }, [globeSize]);
 
 
-  // Watch for new transactions from the hook and start orbiting animation
-  useEffect(() => {
-    if (pendingTransaction && !pendingTx) {
-      // Start orbiting animation for the new transaction
-      setPendingTx({ transaction: pendingTransaction, phase: 'orbiting' });
-
-      // After single orbit, start settling
-      setTimeout(() => {
-        setPendingTx((prev) =>
-          prev ? { ...prev, phase: 'settling' } : null
-        );
-      }, ORBIT_DURATION);
-    }
-  }, [pendingTransaction, pendingTx]);
+  // Dots still orbiting, then dots on their way to the table
+  const flights: Flight[] = [
+    ...inFlightTransactions.map((transaction) => ({ transaction, lane: lanes[transaction.id] ?? 0 })),
+    ...landing,
+  ];
+  const landingIds = useMemo(() => new Set(landing.map((flight) => flight.transaction.id)), [landing]);
+
+  // When a dot leaves its orbit, add its row to the table (hidden until the dot lands)
+  // and pulse its location on the globe
+  const handleSettleStart = useCallback((flight: Flight) => {
+    setLanding((prev) => [...prev, flight]);
+    setPulses((prev) => addPulse(prev, createPulse(flight.transaction, Date.now())));
+    commitTransaction(flight.transaction.id);
+  }, [commitTransaction]);
+
+  // Highlight a row that just arrived, clearing it after the animation
+  const highlightRow = useCallback((id: string) => {
+    setNewTxId(id);
+    setTimeout(() => setNewTxId((current) => (current === id ? undefined : current)), NEW_ROW_HIGHLIGHT_MS);
+  }, []);
 
   // Handle when dot has settled into the table
-  const handleDotSettled = useCallback(() => {
-    const currentPendingTx = pendingTxRef.current;
-    if (currentPendingTx) {
-      const tx = currentPendingTx.transaction;
-      setNewTxId(tx.id);
-      setPendingTx(null);
-
-      // Add the transaction to the table now that animation is complete
-      commitTransaction();
-
-      // Clear the "new" highlight after animation
-      setTimeout(() => setNewTxId(undefined), 800);
+  const handleDotSettled = useCallback((id: string) => {
+    setLanding((prev) => prev.filter((flight) => flight.transaction.id !== id));
+    highlightRow(id);
+  }, [highlightRow]);
+
+  // Pausing freezes the dots mid-flight as well as the feed
+  const setPaused = useCallback((paused: boolean) => {
+    if (paused) {
+      pause();
+      animationEngine.pause();
+    } else {
+      resume();
+      animationEngine.resume();
     }
-  }, [commitTransaction]);
+  }, [pause, resume]);
+
+  const handleTogglePause = useCallback(() => {
+    setIsAutoPaused(false);
+    setPaused(!isPaused);
+  }, [isPaused, setPaused]);
+
+  // Show the next event in the table without animating it
+  const handleStep = useCallback(() => {
+    const tx = step();
+    if (!tx) return;
+    setPulses((prev) => addPulse(prev, createPulse(tx, Date.now())));
+    highlightRow(tx.id);
+  }, [step, highlightRow]);
+
+  const handleSpeedStep = useCallback((direction: 1 | -1) => {
+    const index = FEED_SPEEDS.indexOf(feedSpeed) + direction;
+    if (index >= 0 && index < FEED_SPEEDS.length) setFeedSpeed(FEED_SPEEDS[index]);
+  }, [feedSpeed]);
+
+  // Where a transaction's row currently sits (rows shift as other dots land)
+  const getRowPosition = useCallback((id: string) => {
+    const row = tableRef.current?.querySelector<HTMLElement>(`[data-tx-id="${CSS.escape(id)}"]`);
+    if (!containerRef.current || !row) return tableTargetPos;
+    const containerRect = containerRef.current.getBoundingClientRect();
+    const rowRect = row.getBoundingClientRect();
+    return {
+      x: rowRect.left - containerRect.left + 44, // Center of the asset icon
+      y: rowRect.top - containerRect.top + rowRect.height / 2,
+    };
+  }, [tableTargetPos]);
 
   // Handle modal
+  // The feed holds still while a transaction is open, then catches up
   const handleTransactionClick = useCallback((tx: Transaction) => {
     setSelectedTransaction(tx);
     setIsModalOpen(true);
-  }, []);
+    if (!isPaused) {
+      setIsAutoPaused(true);
+      setPaused(true);
+    }
+  }, [isPaused, setPaused]);
+
+  // A linked transaction opens during render, where the feed cannot be paused
+  useEffect(() => {
+    if (isModalOpen && isAutoPaused && !isPaused) setPaused(true);
+  }, [isModalOpen, isAutoPaused, isPaused, setPaused]);
 
   const handleCloseModal = useCallback(() => {
     setIsModalOpen(false);
     setSelectedTransaction(null);
+    if (isAutoPaused) {
+      setIsAutoPaused(false);
+      setPaused(false);
+    }
+  }, [isAutoPaused, setPaused]);
+
+  // Keyboard shortcuts: Space pauses/resumes, → steps while paused, - / + change speed
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.metaKey || e.ctrlKey || e.altKey || isTypingTarget(e.target)) return;
+      if (isModalOpen || isImportOpen || isQualityOpen || profileWallet) return;
+
+      if (e.key === ' ') {
+        e.preventDefault();
+        handleTogglePause();
+      } else if (e.key === 'ArrowRight' && isPaused) {
+        e.preventDefault();
+        handleStep();
+      } else if ((e.key === '+' || e.key === '=') && !isReplaying) {
+        handleSpeedStep(1);
+      } else if (e.key === '-' && !isReplaying) {
+        handleSpeedStep(-1);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isModalOpen, isImportOpen, isQualityOpen, profileWallet, isPaused, isReplaying, handleTogglePause, handleStep, handleSpeedStep]);
+
+  // Mirror the view in the URL so it can be shared. The replay position is only
+  // written while paused: the running clock would rewrite the URL every second.
+  const sharedReplayAt = isReplaying && isPaused ? replayClock : null;
+  useEffect(() => {
+    const query = formatViewState({
+      sourceId,
+      mode: source.finite ? playbackMode : undefined,
+      replaySpeed: isReplaying ? replaySpeed : undefined,
+      replayAt: sharedReplayAt ?? undefined,
+      filters,
+      txHash: selectedTransaction?.transactionHash ?? linkedTxHash ?? undefined,
+    });
+    const url = `${window.location.pathname}${query}${window.location.hash}`;
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, '', url);
+    }
+  }, [sourceId, source, playbackMode, isReplaying, replaySpeed, sharedReplayAt, filters, selectedTransaction, linkedTxHash]);
+
+  // Keep the shared engine running if the view unmounts while paused
+  useEffect(() => () => animationEngine.resume(), []);
+
+  const handleCloseQuality = useCallback(() => setIsQualityOpen(false), []);
+
+  // Wallet profile: an event opens in the transaction modal instead
+  const handleCloseProfile = useCallback(() => setProfileWallet(null), []);
+  const handleProfileEventClick = useCallback((tx: Transaction) => {
+    setProfileWallet(null);
+    handleTransactionClick(tx);
+  }, [handleTransactionClick]);
+
+  // Handle file import (drag-and-drop anywhere, or the source selector)
+  const handleSourceChange = useCallback((id: TransactionSourceId) => {
+    setSourceId(id);
+    if (id === 'file' && !importedDataset) setIsImportOpen(true);
+  }, [importedDataset]);
+
+  const handleOpenImport = useCallback(() => {
+    setDroppedFile(null);
+    setIsImportOpen(true);
+  }, []);
+
+  const handleCloseImport = useCallback(() => {
+    setIsImportOpen(false);
+    setDroppedFile(null);
+  }, []);
+
+  const handleImport = useCallback((dataset: ImportedDataset) => {
+    setImportedDataset(dataset);
+    setSourceId('file');
+    handleCloseImport();
+  }, [handleCloseImport]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDraggingFile(true);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      setDroppedFile(file);
+      setIsImportOpen(true);
+    }
   }, []);
 
   return (
     <div
       ref={containerRef}
       className="relative w-full h-full min-h-[700px] flex"
+      onDragOver={handleDragOver}
+      onDragLeave={(e) => {
+        if (e.currentTarget === e.target) setIsDraggingFile(false);
+      }}
+      onDrop={handleDrop}
     >
       {/* Animated background particles - blue accent */}
       <div className="absolute inset-0 overflow-hidden pointer-events-none">
@@ -164,6 +498,19 @@ export function GlobeVisualization() {
         ))}
       </div>
 
+      {/* Flow stats */}
+      {isStatsOpen && (
+        <div className="absolute left-6 top-6 z-10">
+          <StatsPanel
+            transactions={chartTransactions}
+            isFiltered={isFilterActive(filters)}
+            referenceTime={replayClock}
+            onEventClick={handleTransactionClick}
+            onClose={() => setIsStatsOpen(false)}
+          />
+        </div>
+      )}
+
       {/* Main Content */}
       <div className="relative flex-1 flex items-center justify-center gap-16 px-8 py-6">
         {/* Left side - Globe */}
@@ -197,31 +544,104 @@ export function GlobeVisualization() {
             />
 
             {/* Globe */}
-            <Globe size={globeSize} />
+            <Globe size={globeSize} pulses={pulses} />
           </div>
 
           {/* Stats - refined pill */}
           <div className="mt-10 flex items-center gap-4 text-xs bg-white shadow-sm border border-gray-100 px-5 py-2.5 rounded-full">
-            <div className="flex items-center gap-2">
-              <div className="w-1.5 h-1.5 rounded-full animate-pulse bg-emerald-500" />
-              <span className="font-medium tracking-wide uppercase text-[10px] text-emerald-600">
-                Live
+            <div className="flex items-center gap-2" title={error ?? undefined}>
+              <div className={`w-1.5 h-1.5 rounded-full ${
+                error ? 'bg-rose-500 animate-pulse' : isPaused ? 'bg-amber-500' : 'bg-emerald-500 animate-pulse'
+              }`} />
+              <span className={`font-medium tracking-wide uppercase text-[10px] ${
+                error ? 'text-rose-600' : isPaused ? 'text-amber-600' : 'text-emerald-600'
+              }`}>
+                {error ? 'Feed Error' : isPaused ? 'Paused' : isReplaying ? 'Replay' : 'Live'}
               </span>
             </div>
+            <FeedControls
+              isPaused={isPaused}
+              speed={isReplaying ? undefined : feedSpeed}
+              bufferedCount={source.finite ? 0 : queueLength}
+              onTogglePause={handleTogglePause}
+              onStep={handleStep}
+              onSpeedChange={setFeedSpeed}
+            />
             <div className="h-3 w-px bg-gray-200" />
-            <div className="text-gray-500 font-mono">
+            <button
+              onClick={() => setIsStatsOpen((open) => !open)}
+              className="text-gray-500 font-mono hover:text-[#1A1F71]"
+              title={isStatsOpen ? 'Hide flow stats' : 'Show flow stats'}
+            >
               <span className="text-[#1A1F71] font-semibold">{displayedTransactions.length}</span>
               <span className="ml-1.5 text-[10px] tracking-wider">TXS</span>
-            </div>
+            </button>
+            {!isReplaying && !isPaused && lagMs >= LAG_WARNING_MS && (
+              <>
+                <div className="h-3 w-px bg-gray-200" />
+                <div
+                  className="font-mono text-amber-600"
+                  title={`${queueLength} queued • ${Math.round(inflowPerMinute)}/min incoming • ${playbackRate.toFixed(1)}x playback`}
+                >
+                  <span className="font-semibold">{Math.round(lagMs / 1000)}s</span>
+                  <span className="ml-1.5 text-[10px] tracking-wider">BEHIND</span>
+                </div>
+              </>
+            )}
+            {dataQuality.quarantined.length > 0 && (
+              <>
+                <div className="h-3 w-px bg-gray-200" />
+                <button
+                  onClick={() => setIsQualityOpen(true)}
+                  className="font-mono text-amber-600 hover:text-amber-700"
+                  title="Rows that failed validation"
+                >
+                  <span className="font-semibold">{dataQuality.quarantined.length}</span>
+                  <span className="ml-1.5 text-[10px] tracking-wider">QUARANTINED</span>
+                </button>
+              </>
+            )}
+            <div className="h-3 w-px bg-gray-200" />
+            <SourceSelector source={source} onSourceChange={handleSourceChange} onImportClick={handleOpenImport} />
           </div>
+
+          {/* Replay controls - finite sources only */}
+          {source.finite && (
+            <div className="mt-3 bg-white shadow-sm border border-gray-100 px-4 py-2 rounded-full">
+              <ReplayControls
+                mode={playbackMode}
+                speed={replaySpeed}
+                endBehavior={replayEnd}
+                clock={replayClock}
+                isFinished={isReplayFinished}
+                onModeChange={setPlaybackMode}
+                onSpeedChange={setReplaySpeed}
+                onEndBehaviorChange={setReplayEnd}
+                onRestart={() => void refetch()}
+              />
+            </div>
+          )}
         </div>
 
         {/* Right side - Transaction Table */}
         <div ref={tableRef} className="w-[620px] h-[650px] flex-shrink-0">
           <TransactionTable
-            transactions={displayedTransactions}
+            transactions={filteredTransactions}
+            chartTransactions={chartTransactions}
+            feedBadge={feedBadge}
             onTransactionClick={handleTransactionClick}
             newTransactionId={newTxId}
+            landingIds={landingIds}
+            referenceTime={replayClock}
+            marketStates={marketStates}
+            onWalletClick={setProfileWallet}
+            filters={filters}
+            onFiltersChange={setFilters}
+            walletSearch={source.reportsWallets}
+            totalCount={displayedTransactions.length}
+            hasOlder={hasOlderHistory}
+            isLoadingOlder={isLoadingOlderHistory}
+            onLoadOlder={() => void loadOlderHistory()}
           />
         </div>
       </div>
@@ -231,19 +651,63 @@ export function GlobeVisualization() {
         transaction={selectedTransaction}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
+        referenceTime={replayClock}
+      />
+
+      {/* Wallet profile */}
+      <WalletProfilePanel
+        address={profileWallet}
+        transactions={displayedTransactions}
+        onEventClick={handleProfileEventClick}
+        onClose={handleCloseProfile}
+      />
+
+      {/* Data quality report */}
+      <DataQualityPanel
+        report={dataQuality}
+        isOpen={isQualityOpen}
+        onClose={handleCloseQuality}
       />
 
-      {/* Orbiting Dot - positioned at main container level for cross-element animation */}
-      {pendingTx && (
+      {/* Import */}
+      {isImportOpen && (
+        <ImportPanel
+          key={droppedFile ? `${droppedFile.name}-${droppedFile.lastModified}` : 'picker'}
+          initialFile={droppedFile}
+          onClose={handleCloseImport}
+          onImport={handleImport}
+        />
+      )}
+
+      {/* Drop overlay */}
+      {isDraggingFile && !isImportOpen && (
+        <div className="absolute inset-4 z-40 rounded-2xl border-2 border-dashed border-[#00A1E0] bg-[#00A1E0]/5 flex items-center justify-center pointer-events-none">
+          <p className="text-sm font-mono text-[#00A1E0] tracking-wide">
+            Drop a CSV or JSONL export to replay it
+          </p>
+        </div>
+      )}
+
+      {/* Trails for all dots, one canvas layer */}
+      <TrailCanvas engine={animationEngine} layer={trailLayer} />
+
+      {/* Orbiting Dots - positioned at main container level for cross-element animation */}
+      {flights.map((flight) => (
         <OrbitingDot
+          key={flight.transaction.id}
           globeSize={globeSize}
           globeCenter={globeCenter}
-          phase={pendingTx.phase}
-          asset={pendingTx.transaction.asset}
-          onSettled={handleDotSettled}
-          tablePosition={tableTargetPos}
+          asset={flight.transaction.asset}
+          stepAssets={flight.transaction.bundle?.steps.map((step) => step.asset)}
+          lane={flight.lane}
+          onSettleStart={() => handleSettleStart(flight)}
+          onSettled={() => handleDotSettled(flight.transaction.id)}
+          getTargetPosition={() => getRowPosition(flight.transaction.id)}
+          speed={playbackRate}
+          trailLayer={trailLayer}
+          engine={animationEngine}
         />
-      )}
+      ))}
     </div>
   );
 }
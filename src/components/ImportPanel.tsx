@@ -0,0 +1,222 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import {
+  LENDING_FIELDS,
+  parseLendingExport,
+  suggestColumnMapping,
+  applyColumnMapping,
+  getUnmappedFields,
+} from '../data/lendingImport';
+import type { ColumnMapping, ImportedDataset, ParsedExport } from '../data/lendingImport';
+
+interface ImportPanelProps {
+  /** File dropped onto the dashboard, read immediately */
+  initialFile?: File | null;
+  onClose: () => void;
+  onImport: (dataset: ImportedDataset) => void;
+}
+
+// Rejection reasons shown before collapsing into a count
+const MAX_LISTED_REJECTIONS = 5;
+
+interface LoadedExport {
+  parsed: ParsedExport | null;
+  error: string | null;
+}
+
+async function loadExport(file: File): Promise<LoadedExport> {
+  try {
+    return { parsed: parseLendingExport(await file.text(), file.name), error: null };
+  } catch (err) {
+    return { parsed: null, error: `Could not read ${file.name}: ${(err as Error).message}` };
+  }
+}
+
+export function ImportPanel({ initialFile = null, onClose, onImport }: ImportPanelProps) {
+  const [parsed, setParsed] = useState<ParsedExport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const applyLoaded = useCallback(({ parsed: nextParsed, error }: LoadedExport) => {
+    setParsed(nextParsed);
+    setMapping(nextParsed ? suggestColumnMapping(nextParsed.headers) : null);
+    setParseError(error);
+  }, []);
+
+  const readFile = useCallback((file: File) => {
+    void loadExport(file).then(applyLoaded);
+  }, [applyLoaded]);
+
+  useEffect(() => {
+    if (!initialFile) return;
+    let cancelled = false;
+    void loadExport(initialFile).then((loaded) => {
+      if (!cancelled) applyLoaded(loaded);
+    });
+    return () => { cancelled = true; };
+  }, [initialFile, applyLoaded]);
+
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handleEscape);
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [onClose]);
+
+  const result = useMemo(
+    () => (parsed && mapping ? applyColumnMapping(parsed, mapping) : null),
+    [parsed, mapping]
+  );
+  const unmapped = mapping ? getUnmappedFields(mapping) : [];
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) readFile(file);
+  };
+
+  return (
+    <div className="modal-backdrop z-50" onClick={onClose}>
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <div
+          className="modal-content glass-card rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto relative"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-6 border-b border-black/5 flex items-center justify-between">
+            <div>
+              <h2 className="font-display text-2xl text-[#1A1F71]">Import Export</h2>
+              <p className="text-morpho-silver text-sm font-mono mt-1">
+                Replay an Allium lending export (CSV, JSONL or JSON)
+              </p>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-morpho-silver/60 hover:text-morpho-pearl transition-colors p-1 rounded-lg hover:bg-black/5"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Drop zone */}
+          <div className="p-6">
+            <div
+              onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+              className={`rounded-xl border-2 border-dashed px-4 py-6 text-center cursor-pointer transition-colors ${
+                isDragging ? 'border-[#00A1E0] bg-[#00A1E0]/5' : 'border-gray-200 hover:border-[#00A1E0]/50'
+              }`}
+            >
+              <p className="text-sm text-morpho-pearl">
+                {parsed ? parsed.fileName : 'Drop a file here or click to choose'}
+              </p>
+              <p className="text-xs text-morpho-silver mt-1 font-mono">
+                {parsed
+                  ? `${parsed.format.toUpperCase()} • ${parsed.rows.length.toLocaleString()} rows`
+                  : '.csv, .jsonl or .json'}
+              </p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.jsonl,.ndjson,.json,text/csv,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) readFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            {parseError && (
+              <p className="text-sm text-accent-rose mt-3">{parseError}</p>
+            )}
+          </div>
+
+          {/* Column mapping */}
+          {parsed && mapping && (
+            <div className="px-6 pb-6">
+              <h3 className="data-label mb-3">Column Mapping</h3>
+              <div className="space-y-0">
+                {LENDING_FIELDS.map((field) => (
+                  <div key={field} className="flex justify-between items-center py-2 border-b border-black/5">
+                    <span className="text-morpho-silver text-sm font-mono">{field}</span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => setMapping({ ...mapping, [field]: e.target.value || null })}
+                      className={`text-sm font-mono bg-transparent focus:outline-none text-right ${
+                        mapping[field] ? 'text-morpho-pearl' : 'text-accent-rose'
+                      }`}
+                    >
+                      <option value="">— unmapped —</option>
+                      {parsed.headers.map((header) => (
+                        <option key={header} value={header}>{header}</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Summary */}
+          {result && (
+            <div className="p-6 bg-morpho-charcoal/50">
+              <h3 className="data-label mb-3">Summary</h3>
+              {unmapped.length > 0 ? (
+                <p className="text-sm text-accent-rose">
+                  Map {unmapped.join(', ')} to continue.
+                </p>
+              ) : (
+                <>
+                  <div className="flex gap-6 font-mono text-sm">
+                    <span>
+                      <span className="font-semibold text-accent-emerald">{result.accepted.toLocaleString()}</span>
+                      <span className="text-morpho-silver ml-1.5">accepted</span>
+                    </span>
+                    <span>
+                      <span className="font-semibold text-accent-rose">{result.rejected.length.toLocaleString()}</span>
+                      <span className="text-morpho-silver ml-1.5">rejected</span>
+                    </span>
+                  </div>
+                  {result.rejected.length > 0 && (
+                    <ul className="mt-3 space-y-1 text-xs font-mono text-morpho-silver">
+                      {result.rejected.slice(0, MAX_LISTED_REJECTIONS).map((rejection) => (
+                        <li key={rejection.row}>Row {rejection.row}: {rejection.reason}</li>
+                      ))}
+                      {result.rejected.length > MAX_LISTED_REJECTIONS && (
+                        <li>…and {result.rejected.length - MAX_LISTED_REJECTIONS} more</li>
+                      )}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Footer */}
+          <div className="p-6 rounded-b-2xl">
+            <button
+              disabled={!parsed || !result || result.accepted === 0}
+              onClick={() => {
+                if (parsed && result) onImport({ fileName: parsed.fileName, events: result.events });
+              }}
+              className="block w-full text-center py-3 px-4 bg-gradient-to-r from-accent-cyan to-accent-violet text-white rounded-xl font-semibold text-sm tracking-wide hover:opacity-90 transition-opacity disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {result && result.accepted > 0
+                ? `Replay ${result.accepted.toLocaleString()} events`
+                : 'Replay events'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
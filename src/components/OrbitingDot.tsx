@@ -1,226 +1,213 @@
-import { useEffect, useState, useMemo, useRef } from 'react';
+import { useEffect, useId, useRef } from 'react';
 import type { Asset } from '../types/transaction';
+import { animationEngine } from '../lib/animationEngine';
+import type { AnimationEngine } from '../lib/animationEngine';
+import type { TrailLayer, TrailPoint } from '../lib/trailLayer';
+import { getAssetColor, getAssetLogo } from '../data/chainRegistry';
+
+type DotPhase = 'orbiting' | 'settling' | 'done';
+
+interface Point {
+  x: number;
+  y: number;
+}
 
 interface OrbitingDotProps {
   globeSize: number;
-  globeCenter: { x: number; y: number };
-  phase: 'orbiting' | 'settling' | 'done';
+  globeCenter: Point;
   asset: Asset;
+  /** Asset of each step when the dot stands for a bundle; drawn as a segmented ring */
+  stepAssets?: Asset[];
+  /** Orbit lane (0 = innermost); each lane has its own ellipse and start angle */
+  lane?: number;
+  /** Called once the orbit ends and the dot heads for the table */
+  onSettleStart?: () => void;
   onSettled: () => void;
-  tablePosition: { x: number; y: number };
+  /** Where the dot lands, read every frame so it follows its table row as rows shift */
+  getTargetPosition: () => Point;
+  /** Animation speed multiplier (raised while the feed drains a backlog) */
+  speed?: number;
+  /** Canvas layer the trail is painted on */
+  trailLayer: TrailLayer;
+  engine?: AnimationEngine;
 }
 
-// Asset brand colors
-const ASSET_COLORS: Record<string, string> = {
-  USDC: '#2775CA', // USDC blue
-  USDT: '#26A17B', // Tether green
-  ETH: '#627EEA',  // Ethereum purple
-  WETH: '#627EEA', // Wrapped ETH
-  WBTC: '#F7931A', // Bitcoin orange
-  DAI: '#F5AC37',  // DAI yellow
-  cbETH: '#0052FF', // Coinbase blue
-  stETH: '#00A3FF', // Lido blue
-  PYUSD: '#0047BB', // PayPal blue
-};
-
-// Asset logo paths
-const ASSET_LOGOS: Record<string, string> = {
-  USDC: '/tokens/usdc.png',
-  USDT: '/tokens/usdt.png',
-};
-
-function getAssetColor(asset: string): string {
-  return ASSET_COLORS[asset] || '#87CEEB';
+// Number of concentric orbit lanes; dots in different lanes never cross
+export const ORBIT_LANES = 4;
+
+// Single orbit from behind the globe (200°) to front-right (-20°) in about 1.5 seconds
+const ORBIT_START_ANGLE = 200;
+const ORBIT_END_ANGLE = -20;
+const ORBIT_DEGREES_PER_MS = 0.15;
+// Glide from the orbit into the table row
+const SETTLE_DURATION_MS = 530;
+// How long a trail point stays visible
+const TRAIL_LIFETIME_MS = 300;
+// Outer lanes start further back so simultaneous launches don't bunch up
+const LANE_ANGLE_STAGGER = 25;
+
+// Smooth easing function
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// Equal ring segments, one per bundle step
+function getRingGradient(colors: string[]): string {
+  const segment = 360 / colors.length;
+  const stops = colors.map((color, index) => `${color} ${index * segment}deg ${(index + 1) * segment}deg`);
+  return `conic-gradient(${stops.join(', ')})`;
 }
 
-function getAssetLogo(asset: string): string | null {
-  return ASSET_LOGOS[asset] || null;
+// Concentric ellipses: both radii grow with the lane, so lanes never intersect
+function getLaneRadii(globeSize: number, lane: number) {
+  return {
+    x: globeSize * (0.55 + lane * 0.06),
+    y: globeSize * (0.2 + lane * 0.05),
+  };
 }
 
-export function OrbitingDot({ globeSize, globeCenter, phase, asset, onSettled, tablePosition }: OrbitingDotProps) {
-  // Start from behind the globe (left side, angle = 200 degrees)
-  const [angle, setAngle] = useState(200);
-  const [settleProgress, setSettleProgress] = useState(0);
-
-  // Use refs for callback and interval tracking
-  const onSettledRef = useRef(onSettled);
-  onSettledRef.current = onSettled;
-  const settleIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const hasSettledRef = useRef(false);
-
-  const orbitRadiusX = globeSize * 0.55;
-  const orbitRadiusY = globeSize * 0.2;
-  // Use globeCenter for positioning relative to main container
-  const centerX = globeCenter.x;
-  const centerY = globeCenter.y;
-
-  // Store trail positions
-  const [trail, setTrail] = useState<Array<{ x: number; y: number; angle: number }>>([]);
-
-  // Orbit animation - single pass from behind (200°) to front-right (-20°)
+export function OrbitingDot({
+  globeSize,
+  globeCenter,
+  asset,
+  stepAssets,
+  lane = 0,
+  onSettleStart,
+  onSettled,
+  getTargetPosition,
+  speed = 1,
+  trailLayer,
+  engine = animationEngine,
+}: OrbitingDotProps) {
+  const trailId = useId();
+  const dotRef = useRef<HTMLDivElement>(null);
+
+  // Latest props for the frame callback, which subscribes once per dot
+  const propsRef = useRef({ globeSize, globeCenter, asset, lane, onSettleStart, onSettled, getTargetPosition, speed });
   useEffect(() => {
-    if (phase !== 'orbiting') return;
-
-    const interval = setInterval(() => {
-      setAngle((prev) => {
-        const newAngle = prev - 3; // Move clockwise
-
-        // Calculate position for trail
-        const radians = (prev * Math.PI) / 180;
-        const x = centerX + Math.cos(radians) * orbitRadiusX;
-        const y = centerY + Math.sin(radians) * orbitRadiusY;
-
-        setTrail((prevTrail) => {
-          const newTrail = [{ x, y, angle: prev }, ...prevTrail].slice(0, 15);
-          return newTrail;
-        });
+    propsRef.current = { globeSize, globeCenter, asset, lane, onSettleStart, onSettled, getTargetPosition, speed };
+  });
 
-        return newAngle;
-      });
-    }, 20);
-
-    return () => clearInterval(interval);
-  }, [phase, centerX, centerY, orbitRadiusX, orbitRadiusY]);
-
-  // Handle settling animation with smooth interpolation
+  // Drive the orbit, settle and trail from the shared frame loop, writing
+  // straight to the element so the component never re-renders mid-flight
   useEffect(() => {
-    if (phase === 'settling' && !hasSettledRef.current) {
-      hasSettledRef.current = true;
+    // Start from behind the globe (left side), further back on outer lanes
+    let angle = ORBIT_START_ANGLE + propsRef.current.lane * LANE_ANGLE_STAGGER;
+    let phase: DotPhase = 'orbiting';
+    let settleProgress = 0;
+    let trail: Array<{ x: number; y: number; time: number; inFront: boolean }> = [];
+
+    const unsubscribe = engine.subscribe((deltaMs, timeMs) => {
+      const dot = dotRef.current;
+      if (!dot || phase === 'done') return;
+      const props = propsRef.current;
+      const step = deltaMs * props.speed;
+
+      if (phase === 'orbiting') {
+        angle -= step * ORBIT_DEGREES_PER_MS; // Move clockwise
+        if (angle <= ORBIT_END_ANGLE) {
+          angle = ORBIT_END_ANGLE;
+          phase = 'settling';
+          props.onSettleStart?.();
+        }
+      } else {
+        settleProgress = Math.min(settleProgress + step / SETTLE_DURATION_MS, 1);
+      }
 
-      // Clear any existing interval
-      if (settleIntervalRef.current) {
-        clearInterval(settleIntervalRef.current);
+      // Orbit position
+      const radii = getLaneRadii(props.globeSize, props.lane);
+      const radians = (angle * Math.PI) / 180;
+      const orbitX = props.globeCenter.x + Math.cos(radians) * radii.x;
+      const orbitY = props.globeCenter.y + Math.sin(radians) * radii.y;
+
+      // Determine if in front of or behind the globe
+      const isInFront = Math.cos(radians) > -0.2;
+
+      // Interpolate between orbit position and table position
+      let x = orbitX;
+      let y = orbitY;
+      if (phase === 'settling') {
+        const target = props.getTargetPosition();
+        const easedProgress = easeOutCubic(settleProgress);
+        x = orbitX + (target.x - orbitX) * easedProgress;
+        y = orbitY + (target.y - orbitY) * easedProgress;
       }
 
-      // Animate settle progress from 0 to 1
-      let progress = 0;
-      settleIntervalRef.current = setInterval(() => {
-        progress += 0.03;
-        setSettleProgress(Math.min(progress, 1));
-
-        // Fade out trail
-        setTrail((prev) => prev.slice(1));
-
-        if (progress >= 1) {
-          if (settleIntervalRef.current) {
-            clearInterval(settleIntervalRef.current);
-            settleIntervalRef.current = null;
-          }
-          onSettledRef.current();
-        }
-      }, 16);
-    }
+      // Scale based on depth and settle progress
+      const orbitScale = 0.8 + (Math.cos(radians) + 1) * 0.2;
+      const depthScale = phase === 'orbiting' ? orbitScale : orbitScale * (1 - settleProgress * 0.3);
+
+      // Keep fully visible during settling, fading only in the last 10%
+      const opacity = phase === 'settling'
+        ? settleProgress > 0.9 ? 1 - (settleProgress - 0.9) * 10 : 1
+        : isInFront ? 1 : 0.4;
+
+      dot.style.transform = `translate(${x}px, ${y}px) translate(-50%, -50%) scale(${depthScale})`;
+      dot.style.opacity = String(opacity);
+      dot.style.zIndex = phase === 'settling' ? '100' : isInFront ? '20' : '5';
+
+      // Trail follows the orbit and fades out while settling
+      if (phase === 'orbiting') trail.unshift({ x: orbitX, y: orbitY, time: timeMs, inFront: isInFront });
+      trail = trail.filter((point) => timeMs - point.time < TRAIL_LIFETIME_MS);
+      const points: TrailPoint[] = trail.map((point) => ({
+        x: point.x,
+        y: point.y,
+        inFront: point.inFront,
+        life: 1 - (timeMs - point.time) / TRAIL_LIFETIME_MS,
+      }));
+      trailLayer.set(trailId, points, getAssetColor(props.asset));
+
+      if (settleProgress >= 1) {
+        phase = 'done';
+        dot.style.opacity = '0';
+        trailLayer.remove(trailId);
+        props.onSettled();
+      }
+    });
 
     return () => {
-      // Only clear if we're unmounting, not on re-render
-      if (settleIntervalRef.current && phase !== 'settling') {
-        clearInterval(settleIntervalRef.current);
-        settleIntervalRef.current = null;
-      }
+      unsubscribe();
+      trailLayer.remove(trailId);
     };
-  }, [phase]);
-
-  // Calculate current position
-  const radians = (angle * Math.PI) / 180;
-
-  // Orbit position
-  const orbitX = centerX + Math.cos(radians) * orbitRadiusX;
-  const orbitY = centerY + Math.sin(radians) * orbitRadiusY;
-
-  // Smooth easing function
-  const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
-  const easedProgress = easeOutCubic(settleProgress);
-
-  // Interpolate between orbit position and table position
-  const currentX = phase === 'settling' || phase === 'done'
-    ? orbitX + (tablePosition.x - orbitX) * easedProgress
-    : orbitX;
-  const currentY = phase === 'settling' || phase === 'done'
-    ? orbitY + (tablePosition.y - orbitY) * easedProgress
-    : orbitY;
-
-  // Determine if in front of or behind the globe
-  const isInFront = Math.cos(radians) > -0.2;
-
-  // Scale based on depth and settle progress
-  const orbitScale = 0.8 + (Math.cos(radians) + 1) * 0.2;
-  const settleScale = 1 - settleProgress * 0.3;
-  const depthScale = phase === 'orbiting' ? orbitScale : orbitScale * settleScale;
-
-  // Keep fully visible during settling until the very end
-  const opacity = phase === 'done'
-    ? 0
-    : phase === 'settling'
-      ? settleProgress > 0.9 ? 1 - (settleProgress - 0.9) * 10 : 1 // Fade only in last 10%
-      : isInFront ? 1 : 0.4;
-
-  // Memoize trail elements
-  const trailElements = useMemo(() => {
-    return trail.map((point, i) => {
-      const trailRadians = (point.angle * Math.PI) / 180;
-      const trailIsInFront = Math.cos(trailRadians) > -0.2;
-      const trailOpacity = ((15 - i) / 15) * 0.5 * (trailIsInFront ? 1 : 0.25);
-      const trailScale = 1 - (i / 15) * 0.7;
-
-      return (
-        <div
-          key={i}
-          className="absolute rounded-full"
-          style={{
-            left: point.x,
-            top: point.y,
-            width: 10 * trailScale,
-            height: 10 * trailScale,
-            backgroundColor: getAssetColor(asset),
-            opacity: trailOpacity,
-            transform: 'translate(-50%, -50%)',
-            zIndex: trailIsInFront ? 15 : 3,
-          }}
-        />
-      );
-    });
-  }, [trail, asset]);
+  }, [engine, trailLayer, trailId]);
+
+  const stepColors = stepAssets && stepAssets.length > 1 ? stepAssets.map(getAssetColor) : null;
+  // Bundles swap the white border for the segmented ring
+  const border = stepColors ? undefined : '2px solid #FFFFFF';
+  const icon = getAssetLogo(asset) ? (
+    <img
+      src={getAssetLogo(asset)!}
+      alt={asset}
+      className="w-10 h-10 rounded-full"
+      style={{ border }}
+    />
+  ) : (
+    <div
+      className="w-10 h-10 rounded-full flex items-center justify-center font-semibold text-[10px] tracking-wide font-mono"
+      style={{
+        backgroundColor: getAssetColor(asset),
+        color: '#FFFFFF',
+        border,
+      }}
+    >
+      {asset.slice(0, 4)}
+    </div>
+  );
 
+  // Main asset icon, positioned by the frame callback
   return (
-    <>
-      {/* Trail */}
-      {(phase === 'orbiting' || (phase === 'settling' && trail.length > 0)) && trailElements}
-
-      {/* Main asset icon */}
-      <div
-        className="absolute pointer-events-none"
-        style={{
-          left: currentX,
-          top: currentY,
-          transform: `translate(-50%, -50%) scale(${depthScale})`,
-          opacity,
-          zIndex: phase === 'settling' ? 100 : isInFront ? 20 : 5,
-          transition: phase === 'settling' ? 'none' : undefined,
-        }}
-      >
-        {/* Asset circle */}
-        {getAssetLogo(asset) ? (
-          <img
-            src={getAssetLogo(asset)!}
-            alt={asset}
-            className="w-10 h-10 rounded-full"
-            style={{
-              border: '2px solid #FFFFFF',
-            }}
-          />
-        ) : (
-          <div
-            className="w-10 h-10 rounded-full flex items-center justify-center font-semibold text-[10px] tracking-wide font-mono"
-            style={{
-              backgroundColor: getAssetColor(asset),
-              color: '#FFFFFF',
-              border: '2px solid #FFFFFF',
-            }}
-          >
-            {asset.slice(0, 4)}
-          </div>
-        )}
-      </div>
-    </>
+    <div
+      ref={dotRef}
+      className="absolute left-0 top-0 pointer-events-none"
+      style={{ opacity: 0 }}
+    >
+      {stepColors ? (
+        <div className="relative rounded-full p-[3px]" style={{ background: getRingGradient(stepColors) }}>
+          {icon}
+          {/* Step count */}
+          <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-[#1A1F71] border border-white text-white text-[9px] font-mono flex items-center justify-center">
+            {stepColors.length}
+          </span>
+        </div>
+      ) : icon}
+    </div>
   );
 }
@@ -0,0 +1,17 @@
+import type { ProtocolBadgeProps } from '../types/transaction';
+import { getProtocolColor, resolveProtocol } from '../data/protocolRegistry';
+
+export function ProtocolBadge({ protocol }: ProtocolBadgeProps) {
+  const info = resolveProtocol(protocol);
+  const color = getProtocolColor(protocol);
+
+  return (
+    <span
+      className="inline-flex items-center px-1.5 py-0.5 rounded border text-[10px] font-mono font-medium tracking-wide"
+      style={{ color, backgroundColor: `${color}1A`, borderColor: `${color}33` }}
+      title={info?.name ?? protocol}
+    >
+      {info?.shortName ?? protocol.slice(0, 6).toUpperCase()}
+    </span>
+  );
+}
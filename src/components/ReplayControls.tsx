@@ -0,0 +1,77 @@
+import type { PlaybackMode, ReplayEndBehavior, ReplaySpeed } from '../types/playback';
+import { REPLAY_SPEEDS } from '../lib/playback';
+import { formatClock } from '../utils/formatters';
+
+interface ReplayControlsProps {
+  mode: PlaybackMode;
+  speed: ReplaySpeed;
+  endBehavior: ReplayEndBehavior;
+  clock: Date | null;
+  isFinished: boolean;
+  onModeChange: (mode: PlaybackMode) => void;
+  onSpeedChange: (speed: ReplaySpeed) => void;
+  onEndBehaviorChange: (endBehavior: ReplayEndBehavior) => void;
+  onRestart: () => void;
+}
+
+export function ReplayControls({
+  mode,
+  speed,
+  endBehavior,
+  clock,
+  isFinished,
+  onModeChange,
+  onSpeedChange,
+  onEndBehaviorChange,
+  onRestart,
+}: ReplayControlsProps) {
+  return (
+    <div className="flex items-center gap-3 text-[10px] font-mono tracking-wider">
+      <button
+        onClick={() => onModeChange(mode === 'replay' ? 'drip' : 'replay')}
+        className="uppercase text-gray-500 hover:text-[#1A1F71]"
+        title={mode === 'replay'
+          ? 'Replaying in block order with real timing. Click for the looping demo feed.'
+          : 'Looping demo feed with fresh timestamps. Click to replay in block order.'}
+      >
+        {mode === 'replay' ? 'Replay' : 'Demo Loop'}
+      </button>
+
+      {mode === 'replay' && (
+        <>
+          <div className="flex items-center gap-1">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                onClick={() => onSpeedChange(option)}
+                className={`px-1.5 py-0.5 rounded ${
+                  option === speed ? 'bg-[#1A1F71] text-white' : 'text-gray-400 hover:text-[#1A1F71]'
+                }`}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+
+          <button
+            onClick={() => onEndBehaviorChange(endBehavior === 'loop' ? 'stop' : 'loop')}
+            className="uppercase text-gray-400 hover:text-[#1A1F71]"
+            title="What happens after the last event"
+          >
+            {endBehavior === 'loop' ? 'Loop at end' : 'Stop at end'}
+          </button>
+
+          <span className="text-[#1A1F71] tabular-nums">
+            {clock ? formatClock(clock) : '—'}
+          </span>
+
+          {isFinished && (
+            <button onClick={onRestart} className="uppercase text-[#00A1E0] hover:underline">
+              Ended • Restart
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
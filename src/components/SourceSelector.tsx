@@ -0,0 +1,39 @@
+import type { TransactionSource, TransactionSourceId } from '../types/source';
+import { SOURCE_OPTIONS, isFileSource } from '../sources/registry';
+
+interface SourceSelectorProps {
+  source: TransactionSource;
+  onSourceChange: (id: TransactionSourceId) => void;
+  /** Open the import panel to pick a file for the file source */
+  onImportClick: () => void;
+}
+
+export function SourceSelector({ source, onSourceChange, onImportClick }: SourceSelectorProps) {
+  const fileName = isFileSource(source) ? source.getFileName() : null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={source.id}
+        onChange={(e) => onSourceChange(e.target.value as TransactionSourceId)}
+        className="bg-transparent text-[10px] font-mono uppercase tracking-wider text-gray-500 focus:outline-none cursor-pointer"
+      >
+        {SOURCE_OPTIONS.filter((option) => option.available).map((option) => (
+          <option key={option.id} value={option.id}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {source.kind === 'file' && (
+        <button
+          onClick={onImportClick}
+          className="text-[10px] font-mono text-[#00A1E0] hover:underline max-w-[120px] truncate"
+          title={fileName ?? undefined}
+        >
+          {fileName ?? 'Import file…'}
+        </button>
+      )}
+    </div>
+  );
+}
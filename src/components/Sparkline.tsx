@@ -0,0 +1,25 @@
+interface SparklineProps {
+  /** One value per bucket, oldest first */
+  values: number[];
+  color: string;
+  width: number;
+  height: number;
+}
+
+export function Sparkline({ values, color, width, height }: SparklineProps) {
+  const max = Math.max(0, ...values);
+  // Keep the line off the edges so the stroke is not clipped
+  const inset = 1;
+  const points = values.map((value, i) => {
+    const x = values.length > 1 ? (i / (values.length - 1)) * width : width / 2;
+    const y = max > 0 ? height - inset - (value / max) * (height - 2 * inset) : height - inset;
+    return `${x},${y}`;
+  });
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block" aria-hidden="true">
+      <polygon points={[`0,${height}`, ...points, `${width},${height}`].join(' ')} fill={color} fillOpacity={0.15} />
+      <polyline points={points.join(' ')} fill="none" stroke={color} strokeWidth={1.25} strokeLinejoin="round" />
+    </svg>
+  );
+}
@@ -0,0 +1,69 @@
+export interface AreaSeries {
+  key: string;
+  label: string;
+  /** Any CSS colour, including var(--…) */
+  color: string;
+  /** One value per bucket, oldest first; all series have the same length */
+  values: number[];
+}
+
+interface StackedAreaChartProps {
+  /** Stacked bottom to top in this order */
+  series: AreaSeries[];
+  width: number;
+  height: number;
+  /** Tooltip text for a bucket total */
+  formatValue: (value: number) => string;
+}
+
+// x of bucket `index` among `count`, buckets spread edge to edge
+function getX(index: number, count: number, width: number): number {
+  return count > 1 ? (index / (count - 1)) * width : width / 2;
+}
+
+export function StackedAreaChart({ series, width, height, formatValue }: StackedAreaChartProps) {
+  const count = series[0]?.values.length ?? 0;
+
+  // Running totals: tops[i][j] is the top edge of series i at bucket j
+  const tops: number[][] = [];
+  series.forEach((s, i) => {
+    tops.push(s.values.map((value, j) => value + (i > 0 ? tops[i - 1][j] : 0)));
+  });
+  const totals = tops[tops.length - 1] ?? [];
+  const max = Math.max(0, ...totals);
+  const getY = (value: number) => (max > 0 ? height - (value / max) * height : height);
+
+  const layers = series.map((s, i) => {
+    const top = tops[i].map((value, j) => `${getX(j, count, width)},${getY(value)}`);
+    const bottom = tops[i]
+      .map((_, j) => `${getX(j, count, width)},${getY(i > 0 ? tops[i - 1][j] : 0)}`)
+      .reverse();
+    return { ...s, points: [...top, ...bottom].join(' ') };
+  });
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block overflow-visible">
+      <line x1={0} y1={height} x2={width} y2={height} stroke="#E5E7EB" />
+      {max > 0 && layers.map((layer) => (
+        <polygon key={layer.key} points={layer.points} fill={layer.color} fillOpacity={0.75}>
+          <title>{layer.label}</title>
+        </polygon>
+      ))}
+      {/* Invisible columns carrying each bucket's total */}
+      {max > 0 && totals.map((total, j) => (
+        <rect
+          key={j}
+          x={getX(j, count, width) - width / count / 2}
+          y={0}
+          width={width / count}
+          height={height}
+          fill="transparent"
+        >
+          <title>
+            {[`Total: ${formatValue(total)}`, ...series.map((s) => `${s.label}: ${formatValue(s.values[j])}`)].join('\n')}
+          </title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
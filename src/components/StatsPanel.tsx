@@ -0,0 +1,211 @@
+import { useMemo, useState } from 'react';
+import type { ActionType, Transaction } from '../types/transaction';
+import type { StatsDimension, StatsWindowId } from '../data/flowStats';
+import { STATS_WINDOWS, computeFlowStats } from '../data/flowStats';
+import { getProtocolName } from '../data/protocolRegistry';
+import { ACTION_TYPES } from '../data/filters';
+import { getActionVolumeSeries } from '../data/timeSeries';
+import { useClock } from '../hooks/useClock';
+import { formatCompactUSD, formatRelativeTime } from '../utils/formatters';
+import { StackedAreaChart } from './StackedAreaChart';
+
+interface StatsPanelProps {
+  /** Entries to summarize (the table's filtered rows) */
+  transactions: Transaction[];
+  /** Whether the table filters narrow `transactions` */
+  isFiltered: boolean;
+  /** "Now" for the windows (the simulated clock during replay) */
+  referenceTime?: Date | null;
+  onEventClick: (entry: Transaction) => void;
+  onClose: () => void;
+}
+
+const DIMENSIONS: { id: StatsDimension; label: string }[] = [
+  { id: 'asset', label: 'Asset' },
+  { id: 'network', label: 'Network' },
+  { id: 'protocol', label: 'Protocol' },
+];
+
+// How often the windows move forward on live data
+const CLOCK_TICK_MS = 5000;
+// Volume chart resolution and size (the panel's inner width)
+const CHART_BUCKETS = 30;
+const CHART_WIDTH = 256;
+const CHART_HEIGHT = 56;
+// Breakdown rows shown before scrolling
+const BREAKDOWN_ROWS = 8;
+
+const ACTION_CHART_COLORS: Record<ActionType, string> = {
+  supply: 'var(--color-accent-emerald)',
+  borrow: 'var(--color-accent-cyan)',
+  repay: 'var(--color-accent-violet)',
+  withdraw: 'var(--color-accent-amber)',
+  liquidation: 'var(--color-accent-rose)',
+};
+
+function flowColor(amount: number): string {
+  if (amount > 0) return 'text-emerald-600';
+  if (amount < 0) return 'text-rose-600';
+  return 'text-gray-400';
+}
+
+function formatRate(eventsPerMinute: number): string {
+  return eventsPerMinute >= 10 ? Math.round(eventsPerMinute).toString() : eventsPerMinute.toFixed(1);
+}
+
+export function StatsPanel({ transactions, isFiltered, referenceTime, onEventClick, onClose }: StatsPanelProps) {
+  const [windowId, setWindowId] = useState<StatsWindowId>('1h');
+  const [dimension, setDimension] = useState<StatsDimension>('asset');
+  const now = useClock(referenceTime, CLOCK_TICK_MS);
+  const windowMs = STATS_WINDOWS.find((option) => option.id === windowId)!.ms;
+  const stats = useMemo(() => computeFlowStats(transactions, windowMs, now), [transactions, windowMs, now]);
+  const volumeByAction = useMemo(
+    () => getActionVolumeSeries(transactions, { windowMs, now, buckets: CHART_BUCKETS }),
+    [transactions, windowMs, now]
+  );
+  const rows = stats.breakdown[dimension];
+
+  return (
+    <div className="w-72 bg-white shadow-sm border border-gray-100 rounded-2xl text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 pt-3 pb-2">
+        <div>
+          <h2 className="text-[11px] font-semibold tracking-wider uppercase text-[#1A1F71]">Flows</h2>
+          {isFiltered && <p className="text-[10px] font-mono text-gray-400">Filtered view</p>}
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="flex items-center gap-0.5 text-[10px] font-mono">
+            {STATS_WINDOWS.map((option) => (
+              <button
+                key={option.id}
+                onClick={() => setWindowId(option.id)}
+                className={`px-1.5 py-0.5 rounded ${
+                  option.id === windowId ? 'bg-[#1A1F71] text-white' : 'text-gray-400 hover:text-[#1A1F71]'
+                }`}
+              >
+                {option.id}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={onClose}
+            className="p-0.5 rounded text-gray-300 hover:text-gray-500"
+            aria-label="Close stats"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 gap-x-4 gap-y-2 px-4 pb-3 font-mono">
+        <div>
+          <p className="text-[10px] tracking-wider text-gray-400 uppercase">Volume</p>
+          <p className="text-sm font-semibold text-[#1A1F71]">{formatCompactUSD(stats.volumeUsd)}</p>
+        </div>
+        <div title={`${stats.events.toLocaleString()} events in the last ${windowId}`}>
+          <p className="text-[10px] tracking-wider text-gray-400 uppercase">Events / min</p>
+          <p className="text-sm font-semibold text-[#1A1F71]">{formatRate(stats.eventsPerMinute)}</p>
+        </div>
+        <div title="Supplied minus withdrawn">
+          <p className="text-[10px] tracking-wider text-gray-400 uppercase">Net supply</p>
+          <p className={`text-sm font-semibold ${flowColor(stats.netSupplyUsd)}`}>
+            {formatCompactUSD(stats.netSupplyUsd, true)}
+          </p>
+        </div>
+        <div title="Borrowed minus repaid">
+          <p className="text-[10px] tracking-wider text-gray-400 uppercase">Net borrow</p>
+          <p className={`text-sm font-semibold ${flowColor(stats.netBorrowUsd)}`}>
+            {formatCompactUSD(stats.netBorrowUsd, true)}
+          </p>
+        </div>
+      </div>
+
+      {/* Volume by action */}
+      <div className="px-4 pb-3">
+        <StackedAreaChart
+          series={ACTION_TYPES.map((action) => ({
+            key: action,
+            label: action,
+            color: ACTION_CHART_COLORS[action],
+            values: volumeByAction[action],
+          }))}
+          width={CHART_WIDTH}
+          height={CHART_HEIGHT}
+          formatValue={(value) => formatCompactUSD(value)}
+        />
+        <div className="flex justify-between mt-1 text-[10px] font-mono text-gray-400">
+          {ACTION_TYPES.map((action) => (
+            <span key={action} className="flex items-center gap-1">
+              <span className="w-1.5 h-1.5 rounded-full" style={{ background: ACTION_CHART_COLORS[action] }} />
+              {action}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Largest event */}
+      <div className="px-4 py-2 border-t border-gray-100">
+        <p className="text-[10px] font-mono tracking-wider text-gray-400 uppercase mb-0.5">Largest event</p>
+        {stats.largest ? (
+          <button
+            onClick={() => onEventClick(stats.largest!.entry)}
+            className="w-full flex items-baseline justify-between gap-2 text-left hover:text-[#00A1E0]"
+          >
+            <span className="truncate text-gray-700">
+              <span className="font-mono font-semibold">{formatCompactUSD(stats.largest.event.amountUsd)}</span>{' '}
+              {stats.largest.event.asset} {stats.largest.event.action} on {stats.largest.event.network}
+            </span>
+            <span className="flex-shrink-0 text-[10px] font-mono text-gray-400">
+              {formatRelativeTime(stats.largest.event.timestamp, now)}
+            </span>
+          </button>
+        ) : (
+          <p className="text-gray-300">No events in the last {windowId}</p>
+        )}
+      </div>
+
+      {/* Breakdown */}
+      <div className="px-4 pt-2 pb-3 border-t border-gray-100">
+        <div className="flex items-center gap-0.5 mb-1.5 text-[10px] font-mono">
+          {DIMENSIONS.map((option) => (
+            <button
+              key={option.id}
+              onClick={() => setDimension(option.id)}
+              className={`px-1.5 py-0.5 rounded ${
+                option.id === dimension ? 'bg-gray-100 text-[#1A1F71]' : 'text-gray-400 hover:text-[#1A1F71]'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,4rem)] gap-x-2 text-[10px] font-mono tracking-wider text-gray-400 uppercase pb-1">
+          <span />
+          <span className="text-right">Volume</span>
+          <span className="text-right">Net sup.</span>
+          <span className="text-right">Net bor.</span>
+        </div>
+        <div className="overflow-y-auto" style={{ maxHeight: BREAKDOWN_ROWS * 22 }}>
+          {rows.map((row) => (
+            <div
+              key={row.key}
+              className="grid grid-cols-[minmax(0,1fr)_repeat(3,4rem)] gap-x-2 items-center h-[22px] font-mono text-[11px]"
+              title={`${row.events.toLocaleString()} events`}
+            >
+              <span className="truncate text-gray-700">
+                {dimension === 'protocol' && row.key !== 'unknown' ? getProtocolName(row.key) : row.key}
+              </span>
+              <span className="text-right text-gray-600">{formatCompactUSD(row.volumeUsd)}</span>
+              <span className={`text-right ${flowColor(row.netSupplyUsd)}`}>{formatCompactUSD(row.netSupplyUsd, true)}</span>
+              <span className={`text-right ${flowColor(row.netBorrowUsd)}`}>{formatCompactUSD(row.netBorrowUsd, true)}</span>
+            </div>
+          ))}
+          {rows.length === 0 && <p className="text-gray-300 py-1">—</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+export interface StepSeries {
+  key: string;
+  label: string;
+  color: string;
+  /** Value from each time onwards, one per entry in `times` */
+  values: number[];
+}
+
+interface StepChartProps {
+  /** Times the values change (ms), ascending */
+  times: number[];
+  series: StepSeries[];
+  width: number;
+  height: number;
+}
+
+// Keep lines off the edges so strokes are not clipped
+const INSET = 2;
+
+export function StepChart({ times, series, width, height }: StepChartProps) {
+  if (times.length === 0) return null;
+
+  const start = times[0];
+  const span = times[times.length - 1] - start;
+  const max = Math.max(0, ...series.flatMap((s) => s.values));
+  // A single point in time is drawn as a flat line across the chart
+  const getX = (time: number) => (span > 0 ? ((time - start) / span) * width : 0);
+  const getY = (value: number) => (max > 0 ? height - INSET - (value / max) * (height - 2 * INSET) : height - INSET);
+
+  const toPoints = (values: number[]) => {
+    const points: string[] = [];
+    values.forEach((value, i) => {
+      const y = getY(value);
+      if (i > 0) points.push(`${getX(times[i])},${getY(values[i - 1])}`);
+      points.push(`${getX(times[i])},${y}`);
+    });
+    points.push(`${width},${getY(values[values.length - 1])}`);
+    return points.join(' ');
+  };
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className="block">
+      <line x1={0} y1={height - INSET} x2={width} y2={height - INSET} stroke="#E5E7EB" />
+      {series.map((s) => (
+        <polyline key={s.key} points={toPoints(s.values)} fill="none" stroke={s.color} strokeWidth={1.5} strokeLinejoin="round">
+          <title>{s.label}</title>
+        </polyline>
+      ))}
+    </svg>
+  );
+}
@@ -0,0 +1,46 @@
+import { useEffect, useRef } from 'react';
+import type { AnimationEngine } from '../lib/animationEngine';
+import type { TrailLayer } from '../lib/trailLayer';
+
+interface TrailCanvasProps {
+  engine: AnimationEngine;
+  layer: TrailLayer;
+}
+
+// Full-size canvas that repaints every dot's trail once per frame
+export function TrailCanvas({ engine, layer }: TrailCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    let isClear = true;
+    return engine.subscribe(() => {
+      if (layer.isEmpty() && isClear) return;
+
+      // Match the backing store to the element size and pixel density
+      const ratio = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * ratio);
+      const height = Math.round(canvas.clientHeight * ratio);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, canvas.clientWidth, canvas.clientHeight);
+      layer.draw(context);
+      isClear = layer.isEmpty();
+    }, 'draw');
+  }, [engine, layer]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ zIndex: 15 }}
+    />
+  );
+}
@@ -2,7 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import type { Transaction } from '../types/transaction';
 import { TransactionCard } from './TransactionCard';
 import { TransactionModal } from './TransactionModal';
-import { generateTransaction, generateInitialTransactions } from '../data/mockTransactions';
+import { createMockSource } from '../sources/mockSource';
 
 const MAX_TRANSACTIONS = 50;
 const MIN_INTERVAL = 2000;
@@ -14,47 +14,43 @@ export function TransactionFeed() {
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
 
-  // Generate initial transactions on mount
+  // Stream mock transactions: an initial batch, then one at random intervals
   useEffect(() => {
-    const initial = generateInitialTransactions(8);
-    setTransactions(initial);
-  }, []);
-
-  // Auto-generate new transactions at random intervals
-  useEffect(() => {
-    let timeoutId: ReturnType<typeof setTimeout>;
-
-    const addTransaction = () => {
-      const newTx = generateTransaction();
+    const source = createMockSource({ initialCount: 8, minIntervalMs: MIN_INTERVAL, maxIntervalMs: MAX_INTERVAL });
+    let isInitialBatch = true;
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
 
+    const unsubscribe = source.subscribe((batch) => {
       setTransactions((prev) => {
-        const updated = [newTx, ...prev];
+        const updated = [...[...batch].reverse(), ...prev];
         // Keep only the most recent transactions
         return updated.slice(0, MAX_TRANSACTIONS);
       });
 
+      if (isInitialBatch) {
+        isInitialBatch = false;
+        return;
+      }
+
       // Mark as new for animation
-      setNewTransactionIds((prev) => new Set(prev).add(newTx.id));
+      const ids = batch.map((tx) => tx.id);
+      setNewTransactionIds((prev) => new Set([...prev, ...ids]));
 
       // Remove "new" flag after animation completes
-      setTimeout(() => {
+      timeouts.push(setTimeout(() => {
         setNewTransactionIds((prev) => {
           const updated = new Set(prev);
-          updated.delete(newTx.id);
+          ids.forEach((id) => updated.delete(id));
           return updated;
         });
-      }, 600);
-
-      // Schedule next transaction
-      const nextInterval = Math.random() * (MAX_INTERVAL - MIN_INTERVAL) + MIN_INTERVAL;
-      timeoutId = setTimeout(addTransaction, nextInterval);
-    };
-
-    // Start the auto-generation after a short delay
-    timeoutId = setTimeout(addTransaction, 1500);
+      }, 600));
+    });
+    source.start();
 
     return () => {
-      clearTimeout(timeoutId);
+      unsubscribe();
+      source.stop();
+      timeouts.forEach(clearTimeout);
     };
   }, []);
 
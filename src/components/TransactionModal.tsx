@@ -1,8 +1,15 @@
 import { useEffect } from 'react';
 import type { TransactionModalProps, ActionType } from '../types/transaction';
 import { NetworkBadge } from './NetworkBadge';
+import { ProtocolBadge } from './ProtocolBadge';
 import { getDetailedSummary, getHealthStatus, getActionDescription } from '../utils/humanize';
-import { truncateAddress, formatAmount, formatAPY, formatRelativeTime } from '../utils/formatters';
+import { truncateAddress, formatAmount, formatAPY, formatRelativeTime, formatTokenAmount, formatUSD } from '../utils/formatters';
+import { tokenAmountToNumber } from '../utils/tokenAmount';
+import { toChecksumAddress } from '../utils/address';
+import { getAddressUrl, getExplorerName, getTokenUrl, getTransactionUrl } from '../utils/explorer';
+import { getAsset } from '../data/chainRegistry';
+import { getBundleAssets } from '../data/bundles';
+import { CopyButton } from './CopyButton';
 
 const ACTION_COLORS: Record<ActionType, { text: string; accent: string }> = {
   supply: { text: 'text-accent-emerald', accent: 'bg-accent-emerald' },
@@ -12,7 +19,7 @@ const ACTION_COLORS: Record<ActionType, { text: string; accent: string }> = {
   liquidation: { text: 'text-accent-rose', accent: 'bg-accent-rose' },
 };
 
-export function TransactionModal({ transaction, isOpen, onClose }: TransactionModalProps) {
+export function TransactionModal({ transaction, isOpen, onClose, referenceTime }: TransactionModalProps) {
   // Close on escape key
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
@@ -33,6 +40,14 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
   const summaries = getDetailedSummary(transaction);
   const healthStatus = getHealthStatus(transaction.healthFactor);
   const actionStyle = ACTION_COLORS[transaction.action];
+  // USD per token implied by the two amounts (the price used when it was estimated)
+  const tokenQuantity = transaction.tokenAmount ? tokenAmountToNumber(transaction.tokenAmount) : 0;
+  const impliedPrice = tokenQuantity > 0 ? transaction.amountUsd / tokenQuantity : null;
+  const walletAddress = toChecksumAddress(transaction.walletAddress);
+  const walletUrl = getAddressUrl(transaction.network, walletAddress);
+  const tokenAddress = getAsset(transaction.asset)?.addresses?.[transaction.network];
+  const tokenUrl = tokenAddress && transaction.tokenAmount ? getTokenUrl(transaction.network, tokenAddress) : null;
+  const transactionUrl = transaction.transactionHash ? getTransactionUrl(transaction.network, transaction.transactionHash) : null;
 
   return (
     <div className="modal-backdrop z-50" onClick={onClose}>
@@ -49,9 +64,10 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
             <div className="flex items-center justify-between mb-3">
               <div className="flex items-center gap-3">
                 <span className={`font-display text-2xl italic ${actionStyle.text}`}>
-                  {transaction.action}
+                  {transaction.bundle ? transaction.bundle.label.toLowerCase() : transaction.action}
                 </span>
                 <NetworkBadge network={transaction.network} />
+                {transaction.protocol && <ProtocolBadge protocol={transaction.protocol} />}
               </div>
               <button
                 onClick={onClose}
@@ -88,21 +104,82 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
             </h3>
             <div className="space-y-0">
               {/* Wallet */}
-              <div className="flex justify-between items-center py-3 border-b border-black/5">
-                <span className="text-morpho-silver text-sm">Wallet</span>
-                <span className="font-mono text-sm text-morpho-pearl">
-                  {truncateAddress(transaction.walletAddress)}
-                </span>
+              <div className="flex justify-between items-center gap-4 py-3 border-b border-black/5">
+                <span className="text-morpho-silver text-sm shrink-0">Wallet</span>
+                {transaction.aggregatedFrom ? (
+                  <span className="font-mono text-sm text-morpho-pearl">
+                    {new Set(transaction.aggregatedFrom.map((tx) => tx.walletAddress)).size} wallets
+                  </span>
+                ) : transaction.walletPlaceholder ? (
+                  <span className="font-mono text-sm text-morpho-silver" title="This data source does not report wallets">
+                    {truncateAddress(transaction.walletAddress)} (not reported)
+                  </span>
+                ) : (
+                  <div className="flex items-center gap-1 min-w-0">
+                    {walletUrl ? (
+                      <a
+                        href={walletUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-mono text-xs text-morpho-pearl break-all text-right hover:text-accent-cyan transition-colors"
+                      >
+                        {walletAddress}
+                      </a>
+                    ) : (
+                      <span className="font-mono text-xs text-morpho-pearl break-all text-right">{walletAddress}</span>
+                    )}
+                    <CopyButton value={walletAddress} label="wallet address" />
+                  </div>
+                )}
               </div>
 
-              {/* Asset & Amount */}
+              {/* Asset & Amount (bundles of several tokens list theirs under Steps) */}
+              {(!transaction.bundle || transaction.tokenAmount) && (
+                <div className="flex justify-between items-center py-3 border-b border-black/5">
+                  <span className="text-morpho-silver text-sm">Amount</span>
+                  <span className="font-semibold text-morpho-pearl font-mono">
+                    {transaction.tokenAmount
+                      ? formatTokenAmount(transaction.tokenAmount, transaction.asset)
+                      : <span className="text-morpho-silver">{transaction.asset} (quantity unknown)</span>}
+                    {tokenUrl && (
+                      <a
+                        href={tokenUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-2 text-xs font-normal text-morpho-silver hover:text-accent-cyan transition-colors"
+                        title={`${transaction.asset} token page`}
+                      >
+                        ↗
+                      </a>
+                    )}
+                  </span>
+                </div>
+              )}
+
+              {/* USD value */}
               <div className="flex justify-between items-center py-3 border-b border-black/5">
-                <span className="text-morpho-silver text-sm">Amount</span>
+                <span className="text-morpho-silver text-sm">
+                  {getBundleAssets(transaction).length > 1
+                    ? 'Total Value (across assets)'
+                    : transaction.bundle ? 'Total Value' : 'Value'}
+                </span>
                 <span className="font-semibold text-morpho-pearl font-mono">
-                  {formatAmount(transaction.amount, transaction.asset)} <span className="text-morpho-silver">{transaction.asset}</span>
+                  {formatUSD(transaction.amountUsd)}
                 </span>
               </div>
 
+              {/* Price */}
+              {impliedPrice !== null && (
+                <div className="flex justify-between items-center py-3 border-b border-black/5">
+                  <span className="text-morpho-silver text-sm">
+                    {transaction.tokenAmount?.estimated ? 'Price (estimated)' : 'Price'}
+                  </span>
+                  <span className="text-sm text-morpho-pearl font-mono">
+                    ${impliedPrice.toLocaleString('en-US', { maximumFractionDigits: impliedPrice < 10 ? 4 : 2 })} / {transaction.asset}
+                  </span>
+                </div>
+              )}
+
               {/* APY */}
               {transaction.apy && (
                 <div className="flex justify-between items-center py-3 border-b border-black/5">
@@ -125,6 +202,20 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
                 </div>
               )}
 
+              {/* Collateral */}
+              {transaction.collateralAsset && (
+                <div className="flex justify-between items-center py-3 border-b border-black/5">
+                  <span className="text-morpho-silver text-sm">
+                    {transaction.action === 'liquidation' ? 'Collateral Seized' : 'Collateral'}
+                  </span>
+                  <span className="text-sm text-morpho-pearl font-mono">
+                    {transaction.collateralAmount !== undefined
+                      ? `${formatAmount(transaction.collateralAmount, transaction.collateralAsset)} ${transaction.collateralAsset}`
+                      : transaction.collateralAsset}
+                  </span>
+                </div>
+              )}
+
               {/* Health Factor */}
               {transaction.healthFactor && (
                 <div className="flex justify-between items-center py-3 border-b border-black/5">
@@ -146,7 +237,7 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
               <div className="flex justify-between items-center py-3 border-b border-black/5">
                 <span className="text-morpho-silver text-sm">Time</span>
                 <span className="text-morpho-pearl text-sm font-mono">
-                  {formatRelativeTime(transaction.timestamp)}
+                  {formatRelativeTime(transaction.timestamp, referenceTime ?? undefined)}
                 </span>
               </div>
 
@@ -158,21 +249,69 @@ export function TransactionModal({ transaction, isOpen, onClose }: TransactionMo
             </div>
           </div>
 
+          {/* Steps of a multi-event onchain transaction */}
+          {transaction.bundle && (
+            <div className="p-6 border-t border-black/5">
+              <h3 className="data-label mb-3">
+                Steps ({transaction.bundle.steps.length})
+              </h3>
+              <ol className="space-y-0">
+                {transaction.bundle.steps.map((step, index) => (
+                  <li key={step.id} className="flex items-center gap-3 py-2 border-b border-black/5 last:border-0 font-mono text-xs">
+                    <span className="text-morpho-silver/60 w-4">{index + 1}</span>
+                    <span className={`w-20 ${ACTION_COLORS[step.action].text}`}>{step.action}</span>
+                    <span className="flex-1 text-morpho-pearl truncate">
+                      {step.tokenAmount ? formatTokenAmount(step.tokenAmount, step.asset) : step.asset}
+                    </span>
+                    <span className="text-morpho-pearl">{formatUSD(step.amountUsd)}</span>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          )}
+
+          {/* Grouped events (aggregated while the feed was backlogged) */}
+          {transaction.aggregatedFrom && (
+            <div className="p-6 border-t border-black/5">
+              <h3 className="data-label mb-3">
+                Grouped Events ({transaction.aggregatedFrom.length})
+              </h3>
+              <div className="space-y-0">
+                {transaction.aggregatedFrom.map((tx) => (
+                  <div key={tx.id} className="flex justify-between items-center py-2 border-b border-black/5 last:border-0 font-mono text-xs">
+                    <span className="text-morpho-pearl">{truncateAddress(tx.walletAddress)}</span>
+                    <span className="text-morpho-silver">{formatRelativeTime(tx.timestamp, referenceTime ?? undefined)}</span>
+                    <span className="text-morpho-pearl">{formatUSD(tx.amountUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Footer */}
           <div className="p-6 bg-morpho-charcoal/50 rounded-b-2xl">
-            <a
-              href="#"
-              className="block w-full text-center py-3 px-4 bg-gradient-to-r from-accent-cyan to-accent-violet text-white rounded-xl font-semibold text-sm tracking-wide hover:opacity-90 transition-opacity"
-              onClick={(e) => {
-                e.preventDefault();
-                alert('Block explorer integration coming soon!');
-              }}
-            >
-              View on Block Explorer
-            </a>
-            <p className="text-center text-morpho-silver/40 text-[10px] mt-3 font-mono tracking-wider">
-              TX: {transaction.id}
-            </p>
+            {transactionUrl ? (
+              <a
+                href={transactionUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block w-full text-center py-3 px-4 bg-gradient-to-r from-accent-cyan to-accent-violet text-white rounded-xl font-semibold text-sm tracking-wide hover:opacity-90 transition-opacity"
+              >
+                View on {getExplorerName(transaction.network) ?? 'Block Explorer'}
+              </a>
+            ) : (
+              <span className="block w-full text-center py-3 px-4 bg-black/5 text-morpho-silver rounded-xl text-sm">
+                {transaction.transactionHash ? 'No block explorer configured for this network' : 'Simulated transaction (not onchain)'}
+              </span>
+            )}
+            {transaction.transactionHash && (
+              <div className="flex items-center justify-center gap-1 mt-3">
+                <p className="text-center text-morpho-silver/60 text-[10px] font-mono tracking-wider break-all">
+                  TX: {transaction.transactionHash}
+                </p>
+                <CopyButton value={transaction.transactionHash} label="transaction hash" />
+              </div>
+            )}
           </div>
         </div>
       </div>
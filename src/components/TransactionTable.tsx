@@ -1,12 +1,105 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { ReactNode } from 'react';
 import type { Transaction, ActionType } from '../types/transaction';
-import { formatAmount, formatRelativeTime, truncateAddress } from '../utils/formatters';
+import { formatCompactUSD, formatRelativeTime, formatTokenAmount, formatUSD, truncateAddress } from '../utils/formatters';
+import { getAssetColor, getAssetLogo } from '../data/chainRegistry';
+import { ProtocolBadge } from './ProtocolBadge';
+import { FilterBar } from './FilterBar';
+import type { TransactionFilters } from '../data/filters';
+import { isFilterActive } from '../data/filters';
+import { getBundleAssets } from '../data/bundles';
+import { ColumnSettings } from './ColumnSettings';
+import { ExportMenu } from './ExportMenu';
+import { Sparkline } from './Sparkline';
+import { getAssetVolumeSeries } from '../data/timeSeries';
+import { useClock } from '../hooks/useClock';
+import type { ColumnId, TableLayout } from '../data/tableLayout';
+import type { MarketSnapshot } from '../data/marketState';
+import {
+  COLUMN_LABELS,
+  DEFAULT_TABLE_LAYOUT,
+  isSortable,
+  loadTableLayout,
+  saveTableLayout,
+  sortTransactions,
+  withColumns,
+} from '../data/tableLayout';
+
+/** What the header badge says about the feed */
+export type FeedBadge = 'live' | 'loop' | 'replay' | 'paused';
 
 interface TransactionTableProps {
   transactions: Transaction[];
+  /** Entries for the header sparklines, when they reach further back than the rows (replay history) */
+  chartTransactions?: Transaction[];
+  feedBadge?: FeedBadge;
   onTransactionClick: (tx: Transaction) => void;
   newTransactionId?: string;
+  /** Rows whose orbiting dot is still on its way; kept in place but hidden until it lands */
+  landingIds?: Set<string>;
+  /** "Now" for relative times (the simulated clock during replay) */
+  referenceTime?: Date | null;
+  /** State of each entry's market right after it, by entry id (data/marketState.ts) */
+  marketStates?: Map<string, MarketSnapshot>;
+  /** Opens the profile of a row's wallet; wallets are plain text without it */
+  onWalletClick?: (address: string) => void;
+  /** Filters already applied to `transactions`; shows the filter bar when given with onFiltersChange */
+  filters?: TransactionFilters;
+  onFiltersChange?: (filters: TransactionFilters) => void;
+  /** Whether the source reports wallets, so the filter bar can search them */
+  walletSearch?: boolean;
+  /** Transactions before filtering, for the "N of M" count */
+  totalCount?: number;
+  /** Whether older stored history can be loaded below the last row */
+  hasOlder?: boolean;
+  isLoadingOlder?: boolean;
+  onLoadOlder?: () => void;
+}
+
+// Rows have a fixed height so only the visible ones need rendering
+const ROW_HEIGHT = 80;
+// Rows rendered above and below the visible ones
+const OVERSCAN_ROWS = 6;
+
+// The row at the top of the viewport, kept in place when rows are added above it
+interface ScrollAnchor {
+  id: string;
+  offset: number;
 }
 
+// Header sparklines: the busiest assets over the last hour
+const SPARKLINE_ASSETS = 4;
+const SPARKLINE_WINDOW_MS = 60 * 60 * 1000;
+const SPARKLINE_BUCKETS = 24;
+const SPARKLINE_TICK_MS = 5000;
+
+const FEED_BADGES: Record<FeedBadge, { label: string; title: string; pulse: boolean; className: string }> = {
+  live: {
+    label: 'Live',
+    title: 'Streaming as events arrive',
+    pulse: true,
+    className: 'bg-[#00A1E0]/10 border-[#00A1E0]/20 text-[#00A1E0]',
+  },
+  loop: {
+    label: 'Loop',
+    title: 'Looping a fixed dataset with fresh timestamps',
+    pulse: true,
+    className: 'bg-[#00A1E0]/10 border-[#00A1E0]/20 text-[#00A1E0]',
+  },
+  replay: {
+    label: 'Replay',
+    title: 'Replaying a fixed dataset against a simulated clock',
+    pulse: true,
+    className: 'bg-violet-500/10 border-violet-500/20 text-violet-600',
+  },
+  paused: {
+    label: 'Paused',
+    title: 'Nothing new is shown until the feed resumes',
+    pulse: false,
+    className: 'bg-amber-500/10 border-amber-500/20 text-amber-600',
+  },
+};
+
 const ACTION_LABELS: Record<ActionType, string> = {
   supply: 'Supply',
   borrow: 'Borrow',
@@ -15,40 +108,286 @@ const ACTION_LABELS: Record<ActionType, string> = {
   liquidation: 'Liquidation',
 };
 
-// Asset brand colors
-const ASSET_COLORS: Record<string, string> = {
-  USDC: '#2775CA', // USDC blue
-  USDT: '#26A17B', // Tether green
-  ETH: '#627EEA',  // Ethereum purple
-  WETH: '#627EEA', // Wrapped ETH
-  WBTC: '#F7931A', // Bitcoin orange
-  DAI: '#F5AC37',  // DAI yellow
-  cbETH: '#0052FF', // Coinbase blue
-  stETH: '#00A3FF', // Lido blue
-  PYUSD: '#0047BB', // PayPal blue
-};
+// Tooltip for the utilization bar
+function describeUtilization(tx: Transaction, market?: MarketSnapshot): string {
+  if (!market) return 'Market utilization unknown';
 
-// Asset logo paths
-const ASSET_LOGOS: Record<string, string> = {
-  USDC: '/tokens/usdc.png',
-  USDT: '/tokens/usdt.png',
-};
+  const lines = [
+    market.utilization !== null
+      ? `Market utilization after this transaction: ${(market.utilization * 100).toFixed(1)}%`
+      : 'Market utilization unknown: the events seen so far do not add up to a full market',
+    `${tx.asset}${tx.marketName ? ` (${tx.marketName})` : ''} on ${tx.network}: `
+      + `${formatUSD(market.totalSupplyUsd)} supplied, ${formatUSD(market.totalBorrowUsd)} borrowed`,
+    market.reconstructed
+      ? `Reconstructed from ${market.events} events since ${market.since.toLocaleString()}; earlier positions are not counted`
+      : `Loaded market totals, plus ${market.events} events after them`,
+  ];
+  return lines.join('\n');
+}
 
-function getAssetColor(asset: string): string {
-  return ASSET_COLORS[asset] || '#87CEEB';
+// What a cell may need besides its transaction
+interface CellContext {
+  referenceTime?: Date;
+  market?: MarketSnapshot;
+  onWalletClick?: (address: string) => void;
 }
 
-function getAssetLogo(asset: string): string | null {
-  return ASSET_LOGOS[asset] || null;
+interface ColumnDefinition {
+  /** Relative width (grid fr units) */
+  width: number;
+  align?: 'right';
+  render: (tx: Transaction, context: CellContext) => ReactNode;
 }
 
-// Calculate a percentage for the progress bar (mock)
-function getUtilization(tx: Transaction): number {
-  const seed = parseInt(tx.id.slice(-4), 16);
-  return 20 + (seed % 60);
+const COLUMNS: Record<ColumnId, ColumnDefinition> = {
+  wallet: {
+    width: 3,
+    render: (tx, { onWalletClick }) => (
+      <div className="flex items-center gap-3">
+        {getAssetLogo(tx.asset) ? (
+          <img
+            src={getAssetLogo(tx.asset)!}
+            alt={tx.asset}
+            className="w-10 h-10 rounded-full"
+          />
+        ) : (
+          <div
+            className="w-10 h-10 rounded-full flex items-center justify-center text-white text-[10px] font-semibold"
+            style={{ backgroundColor: getAssetColor(tx.asset) }}
+          >
+            {tx.asset}
+          </div>
+        )}
+        <div className="min-w-0">
+          {tx.aggregatedFrom || tx.walletPlaceholder || !onWalletClick ? (
+            <p className="text-sm font-medium text-[#1A1F71] truncate">
+              {tx.aggregatedFrom ? `${tx.aggregatedFrom.length} events` : truncateAddress(tx.walletAddress)}
+            </p>
+          ) : (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onWalletClick(tx.walletAddress);
+              }}
+              className="block text-sm font-medium text-[#1A1F71] truncate hover:text-[#00A1E0] hover:underline"
+              title="Open wallet profile"
+            >
+              {truncateAddress(tx.walletAddress)}
+            </button>
+          )}
+          <p className="text-xs text-gray-400 flex items-center gap-1.5">
+            {tx.network}
+            {tx.protocol && <ProtocolBadge protocol={tx.protocol} />}
+          </p>
+        </div>
+      </div>
+    ),
+  },
+  action: {
+    width: 2,
+    render: (tx) => (
+      <>
+        <span className="text-sm text-gray-700">
+          {tx.bundle ? tx.bundle.label : ACTION_LABELS[tx.action]}
+        </span>
+        {tx.aggregatedFrom && (
+          <span
+            className="ml-1.5 text-[10px] font-mono text-gray-400"
+            title={`${tx.aggregatedFrom.length} small events grouped while the feed caught up`}
+          >
+            ×{tx.aggregatedFrom.length}
+          </span>
+        )}
+      </>
+    ),
+  },
+  asset: {
+    width: 2,
+    render: (tx) => (
+      <>
+        <span className="text-sm font-medium text-[#1A1F71]">
+          {getBundleAssets(tx).join(' + ')}
+        </span>
+        {tx.collateralAsset && (
+          <span className="text-xs text-gray-400 ml-1">
+            / {tx.collateralAsset}
+          </span>
+        )}
+      </>
+    ),
+  },
+  // Amount with the market's utilization after the transaction
+  amount: {
+    width: 3,
+    render: (tx, { market }) => (
+      <>
+        <div className="flex items-center gap-3">
+          <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden" title={describeUtilization(tx, market)}>
+            {market && market.utilization !== null && (
+              <div
+                className={`h-full rounded-full transition-all duration-500 ${market.reconstructed ? 'bg-[#00A1E0]/50' : 'bg-[#00A1E0]'}`}
+                style={{ width: `${market.utilization * 100}%` }}
+              />
+            )}
+          </div>
+          <span className="text-sm font-medium text-gray-900 min-w-[80px] text-right">
+            {formatUSD(tx.amountUsd)}
+          </span>
+        </div>
+        {getBundleAssets(tx).length > 1 && (
+          <p className="text-xs text-gray-400 mt-0.5 text-right">total across assets</p>
+        )}
+        {tx.tokenAmount && (
+          <p className="text-xs text-gray-400 mt-0.5 text-right truncate">
+            {formatTokenAmount(tx.tokenAmount, tx.asset)}
+          </p>
+        )}
+        {tx.apy !== undefined && (
+          <p className="text-xs text-gray-400 mt-0.5 text-right">
+            {tx.apy.toFixed(2)}% APY
+          </p>
+        )}
+      </>
+    ),
+  },
+  time: {
+    width: 2,
+    align: 'right',
+    render: (tx, { referenceTime }) => (
+      <span className="text-sm text-gray-400">
+        {formatRelativeTime(tx.timestamp, referenceTime)}
+      </span>
+    ),
+  },
+  protocol: {
+    width: 2,
+    render: (tx) => (tx.protocol ? <ProtocolBadge protocol={tx.protocol} /> : <span className="text-sm text-gray-300">—</span>),
+  },
+  market: {
+    width: 3,
+    render: (tx) => (
+      <span className="block text-xs text-gray-700 truncate" title={tx.marketName}>
+        {tx.marketName ?? <span className="text-gray-300">—</span>}
+      </span>
+    ),
+  },
+  hash: {
+    width: 2,
+    render: (tx) => (
+      <span className="text-xs font-mono text-gray-500" title={tx.transactionHash}>
+        {tx.transactionHash ? truncateAddress(tx.transactionHash) : <span className="text-gray-300">—</span>}
+      </span>
+    ),
+  },
+  healthFactor: {
+    width: 1,
+    align: 'right',
+    render: (tx) => (
+      <span className={`text-sm font-mono ${tx.healthFactor !== undefined && tx.healthFactor < 1.2 ? 'text-rose-600' : 'text-gray-700'}`}>
+        {tx.healthFactor !== undefined ? tx.healthFactor.toFixed(2) : <span className="text-gray-300">—</span>}
+      </span>
+    ),
+  },
+  usdValue: {
+    width: 2,
+    align: 'right',
+    render: (tx) => <span className="text-sm font-medium text-gray-900">{formatUSD(tx.amountUsd)}</span>,
+  },
+};
+
+// Text first (A→Z), numbers and times largest/newest first
+function getInitialDirection(column: ColumnId): 'asc' | 'desc' {
+  return column === 'asset' ? 'asc' : 'desc';
 }
 
-export function TransactionTable({ transactions, onTransactionClick, newTransactionId }: TransactionTableProps) {
+export function TransactionTable({
+  transactions,
+  chartTransactions,
+  feedBadge = 'live',
+  onTransactionClick,
+  newTransactionId,
+  landingIds,
+  referenceTime,
+  marketStates,
+  onWalletClick,
+  filters,
+  onFiltersChange,
+  walletSearch,
+  totalCount,
+  hasOlder = false,
+  isLoadingOlder = false,
+  onLoadOlder,
+}: TransactionTableProps) {
+  const isFiltered = filters ? isFilterActive(filters) : false;
+
+  // Columns and sort, kept per browser
+  const [layout, setLayout] = useState<TableLayout>(loadTableLayout);
+  const updateLayout = (next: TableLayout) => {
+    setLayout(next);
+    saveTableLayout(next);
+  };
+
+  // Click cycles a column through its initial direction, the reverse, then feed order
+  const handleSort = (column: ColumnId) => {
+    const { sort } = layout;
+    const initial = getInitialDirection(column);
+    if (sort?.column !== column) {
+      updateLayout({ ...layout, sort: { column, direction: initial } });
+    } else if (sort.direction === initial) {
+      updateLayout({ ...layout, sort: { column, direction: initial === 'asc' ? 'desc' : 'asc' } });
+    } else {
+      updateLayout({ ...layout, sort: null });
+    }
+  };
+
+  const rows = useMemo(() => sortTransactions(transactions, layout.sort), [transactions, layout.sort]);
+
+  const now = useClock(referenceTime, SPARKLINE_TICK_MS);
+  const sparklineTransactions = chartTransactions ?? transactions;
+  const assetSeries = useMemo(
+    () => getAssetVolumeSeries(
+      sparklineTransactions,
+      { windowMs: SPARKLINE_WINDOW_MS, now, buckets: SPARKLINE_BUCKETS },
+      SPARKLINE_ASSETS
+    ),
+    [sparklineTransactions, now]
+  );
+  const badge = FEED_BADGES[feedBadge];
+
+  // Virtualized list: only rows within (or near) the viewport are rendered
+  const listRef = useRef<HTMLDivElement>(null);
+  const anchorRef = useRef<ScrollAnchor | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+    const observer = new ResizeObserver(() => setViewportHeight(list.clientHeight));
+    observer.observe(list);
+    return () => observer.disconnect();
+  }, []);
+
+  // New rows arrive at the top; unless the list is scrolled to the top, keep the rows in view where they are
+  useLayoutEffect(() => {
+    const list = listRef.current;
+    const anchor = anchorRef.current;
+    if (!list || !anchor || list.scrollTop === 0) return;
+    const index = rows.findIndex((tx) => tx.id === anchor.id);
+    if (index !== -1) list.scrollTop = index * ROW_HEIGHT + anchor.offset;
+  }, [rows]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop;
+    const anchorRow = rows[Math.floor(top / ROW_HEIGHT)];
+    anchorRef.current = anchorRow ? { id: anchorRow.id, offset: top % ROW_HEIGHT } : null;
+    setScrollTop(top);
+  };
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / ROW_HEIGHT) + OVERSCAN_ROWS);
+  const gridTemplateColumns = layout.columns.map((id) => `minmax(0, ${COLUMNS[id].width}fr)`).join(' ');
+
   return (
     <div className="h-full flex flex-col bg-white rounded-2xl shadow-sm border border-gray-100 overflow-hidden">
       {/* Header */}
@@ -56,127 +395,124 @@ export function TransactionTable({ transactions, onTransactionClick, newTransact
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-3">
             <h2 className="text-lg font-semibold text-[#1A1F71]">Recent Activity</h2>
-            <span className="flex items-center gap-1.5 px-2.5 py-1 rounded-full bg-[#00A1E0]/10 border border-[#00A1E0]/20">
-              <span className="w-1.5 h-1.5 bg-[#00A1E0] rounded-full animate-pulse" />
-              <span className="text-xs font-medium text-[#00A1E0]">Live</span>
+            <span
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border ${badge.className}`}
+              title={badge.title}
+            >
+              <span className={`w-1.5 h-1.5 bg-current rounded-full ${badge.pulse ? 'animate-pulse' : ''}`} />
+              <span className="text-xs font-medium">{badge.label}</span>
+            </span>
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-sm text-gray-400">
+              {isFiltered && totalCount !== undefined
+                ? `${transactions.length} of ${totalCount} transactions`
+                : `${transactions.length} transactions`}
             </span>
+            <ExportMenu transactions={rows} />
+            <ColumnSettings
+              columns={layout.columns}
+              onChange={(columns) => updateLayout(withColumns(layout, columns))}
+              onReset={() => updateLayout(DEFAULT_TABLE_LAYOUT)}
+            />
           </div>
-          <span className="text-sm text-gray-400">{transactions.length} transactions</span>
         </div>
+        {assetSeries.length > 0 && (
+          <div className="mt-3 flex items-center gap-4" title="Volume per asset, last hour">
+            {assetSeries.map(({ asset, values, totalUsd }) => (
+              <div key={asset} className="flex items-center gap-1.5 min-w-0">
+                <span className="text-[10px] font-mono font-medium text-gray-500">{asset}</span>
+                <Sparkline values={values} color={getAssetColor(asset)} width={48} height={16} />
+                <span className="text-[10px] font-mono text-gray-400">{formatCompactUSD(totalUsd)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {filters && onFiltersChange && (
+          <div className="mt-3">
+            <FilterBar filters={filters} onChange={onFiltersChange} walletSearch={walletSearch} />
+          </div>
+        )}
       </div>
 
       {/* Column Headers */}
       <div className="px-6 py-3 border-b border-gray-100 bg-gray-50/50">
-        <div className="grid grid-cols-12 gap-4 text-xs font-medium text-gray-400 uppercase tracking-wider">
-          <div className="col-span-3">Wallet</div>
-          <div className="col-span-2">Action</div>
-          <div className="col-span-2">Asset</div>
-          <div className="col-span-3">Amount</div>
-          <div className="col-span-2 text-right">Time</div>
+        <div className="grid gap-4 text-xs font-medium text-gray-400 uppercase tracking-wider" style={{ gridTemplateColumns }}>
+          {layout.columns.map((id) => {
+            const align = COLUMNS[id].align === 'right' ? 'text-right' : '';
+            if (!isSortable(id)) {
+              return <div key={id} className={`truncate ${align}`}>{COLUMN_LABELS[id]}</div>;
+            }
+            const direction = layout.sort?.column === id ? layout.sort.direction : null;
+            return (
+              <button
+                key={id}
+                onClick={() => handleSort(id)}
+                className={`truncate uppercase tracking-wider hover:text-[#1A1F71] ${align} ${direction ? 'text-[#1A1F71]' : ''}`}
+                title={`Sort by ${COLUMN_LABELS[id].toLowerCase()}`}
+              >
+                {COLUMN_LABELS[id]}
+                {direction && <span className="ml-1">{direction === 'asc' ? '↑' : '↓'}</span>}
+              </button>
+            );
+          })}
         </div>
       </div>
 
       {/* Transaction List */}
-      <div className="flex-1 overflow-y-auto">
-        {transactions.length === 0 ? (
+      <div ref={listRef} onScroll={handleScroll} className="flex-1 overflow-y-auto">
+        {rows.length === 0 ? (
           <div className="flex items-center justify-center h-32 text-gray-400 text-sm">
-            Awaiting transactions...
+            {isFiltered ? 'No transactions match the filters' : 'Awaiting transactions...'}
           </div>
         ) : (
-          <div className="divide-y divide-gray-50">
-            {transactions.map((tx, index) => {
+          <div className="relative" style={{ height: rows.length * ROW_HEIGHT }}>
+            {rows.slice(firstRow, lastRow).map((tx, offset) => {
+              const index = firstRow + offset;
               const isNew = tx.id === newTransactionId;
-              const utilization = getUtilization(tx);
+              const isLanding = landingIds?.has(tx.id) ?? false;
               const isEven = index % 2 === 0;
 
               return (
                 <div
                   key={tx.id}
+                  data-tx-id={tx.id}
                   onClick={() => onTransactionClick(tx)}
+                  style={{ top: index * ROW_HEIGHT, height: ROW_HEIGHT }}
                   className={`
-                    px-6 py-4 cursor-pointer transition-all duration-200
+                    absolute inset-x-0 px-6 py-3 flex items-center overflow-hidden border-b border-gray-50 cursor-pointer transition-colors duration-200
+                    ${isLanding ? 'opacity-0' : ''}
                     hover:bg-[#00A1E0]/10
                     ${isNew ? 'animate-slide-in-row bg-[#00A1E0]/5' : isEven ? 'bg-white' : 'bg-gray-50/50'}
                   `}
                 >
-                  <div className="grid grid-cols-12 gap-4 items-center">
-                    {/* Wallet */}
-                    <div className="col-span-3 flex items-center gap-3">
-                      {getAssetLogo(tx.asset) ? (
-                        <img
-                          src={getAssetLogo(tx.asset)!}
-                          alt={tx.asset}
-                          className="w-10 h-10 rounded-full"
-                        />
-                      ) : (
-                        <div
-                          className="w-10 h-10 rounded-full flex items-center justify-center text-white text-[10px] font-semibold"
-                          style={{ backgroundColor: getAssetColor(tx.asset) }}
-                        >
-                          {tx.asset}
-                        </div>
-                      )}
-                      <div className="min-w-0">
-                        <p className="text-sm font-medium text-[#1A1F71] truncate">
-                          {truncateAddress(tx.walletAddress)}
-                        </p>
-                        <p className="text-xs text-gray-400">
-                          {tx.network}
-                        </p>
-                      </div>
-                    </div>
-
-                    {/* Action */}
-                    <div className="col-span-2">
-                      <span className="text-sm text-gray-700">
-                        {ACTION_LABELS[tx.action]}
-                      </span>
-                    </div>
-
-                    {/* Asset */}
-                    <div className="col-span-2">
-                      <span className="text-sm font-medium text-[#1A1F71]">
-                        {tx.asset}
-                      </span>
-                      {tx.collateralAsset && (
-                        <span className="text-xs text-gray-400 ml-1">
-                          / {tx.collateralAsset}
-                        </span>
-                      )}
-                    </div>
-
-                    {/* Amount with progress bar */}
-                    <div className="col-span-3">
-                      <div className="flex items-center gap-3">
-                        <div className="flex-1 h-1.5 bg-gray-100 rounded-full overflow-hidden">
-                          <div
-                            className="h-full bg-[#00A1E0] rounded-full transition-all duration-500"
-                            style={{ width: `${utilization}%` }}
-                          />
-                        </div>
-                        <span className="text-sm font-medium text-gray-900 min-w-[80px] text-right">
-                          {formatAmount(tx.amount, tx.asset)}
-                        </span>
+                  <div className="w-full grid gap-4 items-center" style={{ gridTemplateColumns }}>
+                    {layout.columns.map((id) => (
+                      <div key={id} className={`min-w-0 ${COLUMNS[id].align === 'right' ? 'text-right' : ''}`}>
+                        {COLUMNS[id].render(tx, {
+                          referenceTime: referenceTime ?? undefined,
+                          market: marketStates?.get(tx.id),
+                          onWalletClick,
+                        })}
                       </div>
-                      {tx.apy && (
-                        <p className="text-xs text-gray-400 mt-0.5 text-right">
-                          {tx.apy.toFixed(2)}% APY
-                        </p>
-                      )}
-                    </div>
-
-                    {/* Time */}
-                    <div className="col-span-2 text-right">
-                      <span className="text-sm text-gray-400">
-                        {formatRelativeTime(tx.timestamp)}
-                      </span>
-                    </div>
+                    ))}
                   </div>
                 </div>
               );
             })}
           </div>
         )}
+        {hasOlder && onLoadOlder && (
+          <div className="flex justify-center py-3">
+            <button
+              onClick={onLoadOlder}
+              disabled={isLoadingOlder}
+              className="text-xs text-[#00A1E0] hover:underline disabled:text-gray-400 disabled:no-underline"
+            >
+              {isLoadingOlder ? 'Loading…' : 'Load older'}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Footer */}
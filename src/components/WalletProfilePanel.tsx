@@ -0,0 +1,214 @@
+import { useEffect, useMemo } from 'react';
+import type { Transaction } from '../types/transaction';
+import { buildWalletProfile } from '../data/walletProfile';
+import { getProtocolName } from '../data/protocolRegistry';
+import { priceService } from '../pricing/priceService';
+import { toChecksumAddress } from '../utils/address';
+import { getAddressUrl, getExplorerName } from '../utils/explorer';
+import { formatClock, formatCompactUSD, formatUSD } from '../utils/formatters';
+import { CopyButton } from './CopyButton';
+import { NetworkBadge } from './NetworkBadge';
+import { StepChart } from './StepChart';
+
+interface WalletProfilePanelProps {
+  /** Wallet to profile; the panel is closed when null */
+  address: string | null;
+  /** All loaded entries (not only the filtered ones) */
+  transactions: Transaction[];
+  onEventClick: (entry: Transaction) => void;
+  onClose: () => void;
+}
+
+const POSITION_SERIES = [
+  { key: 'suppliedUsd', label: 'Supplied', color: 'var(--color-accent-emerald)' },
+  { key: 'collateralUsd', label: 'Collateral', color: 'var(--color-accent-violet)' },
+  { key: 'borrowedUsd', label: 'Borrowed', color: 'var(--color-accent-rose)' },
+] as const;
+
+const CHART_WIDTH = 624;
+const CHART_HEIGHT = 96;
+
+export function WalletProfilePanel({ address, transactions, onEventClick, onClose }: WalletProfilePanelProps) {
+  // Close on escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (address) {
+      document.addEventListener('keydown', handleEscape);
+    }
+    return () => document.removeEventListener('keydown', handleEscape);
+  }, [address, onClose]);
+
+  const profile = useMemo(
+    () => (address ? buildWalletProfile(transactions, address, priceService.getPrice) : null),
+    [address, transactions]
+  );
+
+  if (!address || !profile) return null;
+
+  const checksummed = toChecksumAddress(address);
+  const latest = profile.events[profile.events.length - 1];
+
+  return (
+    <div className="modal-backdrop z-50" onClick={onClose}>
+      <div className="fixed inset-0 flex items-center justify-center p-4">
+        <div
+          className="modal-content glass-card rounded-2xl max-w-2xl w-full max-h-[90vh] overflow-y-auto relative"
+          onClick={(e) => e.stopPropagation()}
+        >
+          {/* Header */}
+          <div className="p-6 border-b border-black/5 flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <h2 className="font-display text-2xl text-[#1A1F71]">Wallet</h2>
+              <div className="flex items-center gap-1 mt-1">
+                <span className="font-mono text-xs text-morpho-pearl break-all">{checksummed}</span>
+                <CopyButton value={checksummed} label="wallet address" />
+              </div>
+              <div className="flex flex-wrap items-center gap-2 mt-2">
+                {profile.networks.map((network) => {
+                  const url = getAddressUrl(network, checksummed);
+                  return url ? (
+                    <a
+                      key={network}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      title={`View on ${getExplorerName(network)}`}
+                      className="hover:opacity-80"
+                    >
+                      <NetworkBadge network={network} />
+                    </a>
+                  ) : (
+                    <NetworkBadge key={network} network={network} />
+                  );
+                })}
+              </div>
+            </div>
+            <button
+              onClick={onClose}
+              className="text-morpho-silver/60 hover:text-morpho-pearl transition-colors p-1 rounded-lg hover:bg-black/5"
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Totals */}
+          <div className="p-6 bg-morpho-charcoal/50">
+            <div className="flex flex-wrap gap-6 font-mono text-sm">
+              <span>
+                <span className="font-semibold text-morpho-pearl">{profile.events.length.toLocaleString()}</span>
+                <span className="text-morpho-silver ml-1.5">events</span>
+              </span>
+              {latest && POSITION_SERIES.map(({ key, label }) => (
+                <span key={key}>
+                  <span className="font-semibold text-morpho-pearl">{formatCompactUSD(latest.totals[key])}</span>
+                  <span className="text-morpho-silver ml-1.5">{label.toLowerCase()}</span>
+                </span>
+              ))}
+            </div>
+            <p className="text-xs text-morpho-silver mt-2">
+              Reconstructed from the loaded history, at each event's USD value. Positions opened before it are not known.
+            </p>
+          </div>
+
+          {/* Position over time */}
+          {profile.events.length > 0 && (
+            <div className="p-6 border-b border-black/5">
+              <h3 className="data-label mb-3">Position over time</h3>
+              <StepChart
+                times={profile.events.map(({ event }) => event.timestamp.getTime())}
+                series={POSITION_SERIES.map(({ key, label, color }) => ({
+                  key,
+                  label,
+                  color,
+                  values: profile.events.map(({ totals }) => totals[key]),
+                }))}
+                width={CHART_WIDTH}
+                height={CHART_HEIGHT}
+              />
+              <div className="flex justify-between mt-2 text-[10px] font-mono text-morpho-silver">
+                <span>{formatClock(profile.events[0].event.timestamp)}</span>
+                <span className="flex gap-3">
+                  {POSITION_SERIES.map(({ key, label, color }) => (
+                    <span key={key} className="flex items-center gap-1">
+                      <span className="w-1.5 h-1.5 rounded-full" style={{ background: color }} />
+                      {label}
+                    </span>
+                  ))}
+                </span>
+                <span>{formatClock(latest.event.timestamp)}</span>
+              </div>
+            </div>
+          )}
+
+          {/* Positions per market */}
+          <div className="p-6 border-b border-black/5">
+            <h3 className="data-label mb-3">Positions</h3>
+            {profile.positions.length === 0 ? (
+              <p className="text-sm text-morpho-silver">No open positions in the loaded history.</p>
+            ) : (
+              <div className="text-xs font-mono">
+                <div className="grid grid-cols-[minmax(0,1fr)_repeat(3,5.5rem)] gap-x-3 pb-1 text-morpho-silver">
+                  <span>Market</span>
+                  {POSITION_SERIES.map(({ key, label }) => (
+                    <span key={key} className="text-right">{label}</span>
+                  ))}
+                </div>
+                {profile.positions.map((position) => (
+                  <div
+                    key={position.key}
+                    className="grid grid-cols-[minmax(0,1fr)_repeat(3,5.5rem)] gap-x-3 py-1.5 border-b border-black/5 last:border-0"
+                  >
+                    <span className="truncate text-morpho-pearl">
+                      {position.asset}
+                      <span className="text-morpho-silver ml-1.5">
+                        {position.marketName ?? (position.protocol ? getProtocolName(position.protocol) : '')} • {position.network}
+                      </span>
+                    </span>
+                    {POSITION_SERIES.map(({ key }) => (
+                      <span key={key} className={`text-right ${position[key] > 0 ? 'text-morpho-pearl' : 'text-morpho-silver/50'}`}>
+                        {position[key] > 0 ? formatCompactUSD(position[key]) : '—'}
+                      </span>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Events, newest first */}
+          <div className="p-6">
+            <h3 className="data-label mb-3">Events</h3>
+            <div className="space-y-1">
+              {[...profile.events].reverse().map(({ event, entry, position }) => (
+                <button
+                  key={event.id}
+                  onClick={() => onEventClick(entry)}
+                  className="w-full grid grid-cols-[9.5rem_minmax(0,1fr)_5.5rem] gap-x-3 items-baseline py-1.5 text-left text-xs font-mono rounded hover:bg-black/5"
+                >
+                  <span className="text-morpho-silver">{formatClock(event.timestamp)}</span>
+                  <span className="truncate text-morpho-pearl">
+                    {event.action} {formatUSD(event.amountUsd)} {event.asset}
+                    <span className="text-morpho-silver ml-1.5">
+                      {event.protocol ? `${getProtocolName(event.protocol)} • ` : ''}{event.network}
+                    </span>
+                  </span>
+                  <span
+                    className="text-right text-morpho-silver"
+                    title={`After this event in ${event.asset}: ${formatUSD(position.suppliedUsd)} supplied, `
+                      + `${formatUSD(position.collateralUsd)} collateral, ${formatUSD(position.borrowedUsd)} borrowed`}
+                  >
+                    {position.borrowedUsd > 0 ? `${formatCompactUSD(position.borrowedUsd)} debt` : '—'}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
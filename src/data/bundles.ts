@@ -0,0 +1,123 @@
+/**
+ * Transaction bundles
+ *
+ * One onchain transaction can emit several lending events, e.g. supplying
+ * collateral and borrowing against it, or repaying and withdrawing. Events of
+ * the same transaction are grouped into a single Transaction whose `bundle`
+ * lists the steps in log order; the last step (the user's end goal) provides
+ * the action, asset and market of the bundle.
+ *
+ * Events are grouped on network and full transaction hash. A bundle's USD value
+ * is the total of its steps, which can be in different assets (see
+ * getBundleAssets).
+ */
+
+import type { ActionType, Asset, Transaction } from '../types/transaction';
+import { sumTokenAmounts } from '../utils/tokenAmount';
+
+const STEP_LABELS: Record<ActionType, string> = {
+  supply: 'Supply',
+  borrow: 'Borrow',
+  repay: 'Repay',
+  withdraw: 'Withdraw',
+  liquidation: 'Liquidation',
+};
+
+function getBundleKey(tx: Transaction): string | null {
+  if (!tx.transactionHash) return null;
+  return `${tx.network}:${tx.transactionHash.toLowerCase()}`;
+}
+
+// Log order; exports without log indices keep their hash order
+function compareSteps(a: Transaction, b: Transaction): number {
+  if (a.logIndex !== undefined && b.logIndex !== undefined) return a.logIndex - b.logIndex;
+  return (a.transactionHash ?? '').localeCompare(b.transactionHash ?? '');
+}
+
+// Supplying the market's collateral reads differently from supplying to lend
+function getStepLabel(tx: Transaction): string {
+  if (tx.action === 'supply' && tx.collateralAsset === tx.asset) return 'Supply collateral';
+  return STEP_LABELS[tx.action];
+}
+
+/** "Supply collateral + Borrow", with repeated steps collapsed ("Withdraw ×2") */
+export function getBundleLabel(steps: Transaction[]): string {
+  const parts: { label: string; count: number }[] = [];
+  steps.forEach((step) => {
+    const label = getStepLabel(step);
+    const last = parts[parts.length - 1];
+    if (last?.label === label) last.count++;
+    else parts.push({ label, count: 1 });
+  });
+  return parts.map(({ label, count }) => (count > 1 ? `${label} ×${count}` : label)).join(' + ');
+}
+
+/** The individual lending events behind a table entry: bundle steps, aggregated events (expanded), or the entry itself */
+export function getEvents(tx: Transaction): Transaction[] {
+  if (tx.bundle) return tx.bundle.steps;
+  if (tx.aggregatedFrom) return tx.aggregatedFrom.flatMap(getEvents);
+  return [tx];
+}
+
+/** Assets an entry moved, in step order: several for a bundle of different tokens */
+export function getBundleAssets(tx: Transaction): Asset[] {
+  return tx.bundle ? [...new Set(tx.bundle.steps.map((step) => step.asset))] : [tx.asset];
+}
+
+function createBundle(events: Transaction[]): Transaction {
+  const steps = [...events].sort(compareSteps);
+  const primary = steps[steps.length - 1];
+  const bundled: Transaction = {
+    ...primary,
+    id: `bundle-${steps[0].id}`,
+    amountUsd: steps.reduce((sum, step) => sum + step.amountUsd, 0),
+    bundle: { label: getBundleLabel(steps), steps },
+  };
+
+  // A quantity total only makes sense when every step moved the same token
+  if (steps.every((step) => step.asset === primary.asset)) {
+    bundled.tokenAmount = sumTokenAmounts(steps.map((step) => step.tokenAmount));
+  } else {
+    delete bundled.tokenAmount;
+  }
+
+  // e.g. the collateral supplied in the same transaction as a borrow
+  if (primary.collateralAsset && primary.collateralAmount === undefined) {
+    const collateralStep = steps.find((step) =>
+      step.asset === primary.collateralAsset && step.collateralAmount !== undefined
+    );
+    if (collateralStep) bundled.collateralAmount = collateralStep.collateralAmount;
+  }
+
+  return bundled;
+}
+
+/**
+ * Group events that belong to the same onchain transaction. Single events pass
+ * through unchanged; each bundle takes the position of its first event.
+ */
+export function bundleTransactions(transactions: Transaction[]): Transaction[] {
+  const groups = new Map<string, Transaction[]>();
+  const order: Array<Transaction | Transaction[]> = [];
+
+  transactions.forEach((tx) => {
+    const key = getBundleKey(tx);
+    if (!key) {
+      order.push(tx);
+      return;
+    }
+    const group = groups.get(key);
+    if (group) {
+      group.push(tx);
+    } else {
+      const created = [tx];
+      groups.set(key, created);
+      order.push(created);
+    }
+  });
+
+  return order.map((entry) => {
+    if (!Array.isArray(entry)) return entry;
+    return entry.length === 1 ? entry[0] : createBundle(entry);
+  });
+}
@@ -0,0 +1,283 @@
+/**
+ * Network and asset registry
+ *
+ * Single source of truth for chain and token metadata (colors, logos,
+ * decimals, categories, chain ids, explorers). Deployments add networks and
+ * tokens, or override built-in ones by name/symbol, with JSON arrays in
+ * VITE_EXTRA_NETWORKS and VITE_EXTRA_ASSETS:
+ *
+ *   VITE_EXTRA_NETWORKS=[{"name":"Polygon","chainId":137,"shortName":"POL","color":"#8247E5","explorerUrl":"https://polygonscan.com","aliases":["polygon","matic"]}]
+ *   VITE_EXTRA_ASSETS=[{"symbol":"POL","decimals":18,"color":"#8247E5","category":"native"}]
+ *
+ * Explorer links default to Etherscan-style paths under explorerUrl. Other
+ * explorers (Blockscout, a local Otterscan for anvil) are set per network with
+ * URL templates in VITE_EXPLORER_TEMPLATES:
+ *
+ *   VITE_EXPLORER_TEMPLATES={"Ethereum":{"tx":"http://localhost:5100/tx/{hash}","address":"http://localhost:5100/address/{address}"}}
+ */
+
+import type { AssetCategory, AssetInfo, ExplorerTemplates, NetworkInfo } from '../types/registry';
+import { logWarning } from '../utils/logger';
+
+// Used for assets the registry does not know
+export const DEFAULT_ASSET_COLOR = '#87CEEB';
+
+const ASSET_CATEGORIES: AssetCategory[] = ['stablecoin', 'native', 'wrapped', 'liquid-staking', 'governance', 'other'];
+const EXPLORER_PAGES: Array<keyof ExplorerTemplates> = ['tx', 'address', 'token'];
+
+const BUILT_IN_NETWORKS: NetworkInfo[] = [
+  {
+    name: 'Ethereum',
+    chainId: 1,
+    shortName: 'ETH',
+    color: '#9B8AFF',
+    explorerUrl: 'https://etherscan.io',
+    aliases: ['ethereum', 'mainnet', 'eth'],
+  },
+  {
+    name: 'Base',
+    chainId: 8453,
+    shortName: 'BASE',
+    color: '#0052FF',
+    explorerUrl: 'https://basescan.org',
+    aliases: ['base'],
+  },
+  {
+    name: 'Arbitrum',
+    chainId: 42161,
+    shortName: 'ARB',
+    color: '#28A0F0',
+    explorerUrl: 'https://arbiscan.io',
+    aliases: ['arbitrum', 'arbitrum_one', 'arbitrum-one'],
+  },
+  {
+    name: 'Optimism',
+    chainId: 10,
+    shortName: 'OP',
+    color: '#FF0420',
+    explorerUrl: 'https://optimistic.etherscan.io',
+    aliases: ['optimism', 'op', 'op_mainnet'],
+  },
+];
+
+const BUILT_IN_ASSETS: AssetInfo[] = [
+  {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    color: '#2775CA',
+    logo: '/tokens/usdc.png',
+    category: 'stablecoin',
+    addresses: {
+      Ethereum: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      Base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      Arbitrum: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      Optimism: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+    },
+  },
+  {
+    symbol: 'USDT',
+    name: 'Tether USD',
+    decimals: 6,
+    color: '#26A17B',
+    logo: '/tokens/usdt.png',
+    category: 'stablecoin',
+    addresses: { Ethereum: '0xdAC17F958D2ee523a2206206994597C13D831ec7' },
+  },
+  {
+    symbol: 'DAI',
+    name: 'Dai',
+    decimals: 18,
+    color: '#F5AC37',
+    category: 'stablecoin',
+    addresses: { Ethereum: '0x6B175474E89094C44Da98b954EedeAC495271d0F' },
+  },
+  {
+    symbol: 'PYUSD',
+    name: 'PayPal USD',
+    decimals: 6,
+    color: '#0047BB',
+    category: 'stablecoin',
+    addresses: { Ethereum: '0x6c3ea9036406852006290770BEdFcAbA0e23A0e8' },
+  },
+  { symbol: 'ETH', name: 'Ether', decimals: 18, color: '#627EEA', category: 'native' },
+  {
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    decimals: 18,
+    color: '#627EEA',
+    category: 'wrapped',
+    addresses: {
+      Ethereum: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      Base: '0x4200000000000000000000000000000000000006',
+      Arbitrum: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+      Optimism: '0x4200000000000000000000000000000000000006',
+    },
+  },
+  {
+    symbol: 'WBTC',
+    name: 'Wrapped Bitcoin',
+    decimals: 8,
+    color: '#F7931A',
+    category: 'wrapped',
+    addresses: { Ethereum: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599' },
+  },
+  {
+    symbol: 'cbETH',
+    name: 'Coinbase Wrapped Staked ETH',
+    decimals: 18,
+    color: '#0052FF',
+    category: 'liquid-staking',
+    addresses: {
+      Ethereum: '0xBe9895146f7AF43049ca1c1AE358B0541Ea49704',
+      Base: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
+    },
+  },
+  {
+    symbol: 'stETH',
+    name: 'Lido Staked ETH',
+    decimals: 18,
+    color: '#00A3FF',
+    category: 'liquid-staking',
+    addresses: { Ethereum: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84' },
+  },
+];
+
+function isExplorerTemplates(value: unknown): value is Partial<ExplorerTemplates> {
+  return (
+    typeof value === 'object' && value !== null &&
+    Object.entries(value).every(([page, template]) =>
+      EXPLORER_PAGES.includes(page as keyof ExplorerTemplates) && typeof template === 'string'
+    )
+  );
+}
+
+function isNetworkInfo(value: unknown): value is NetworkInfo {
+  const entry = value as Partial<NetworkInfo> | null;
+  return (
+    typeof entry === 'object' && entry !== null &&
+    typeof entry.name === 'string' && entry.name.length > 0 &&
+    typeof entry.chainId === 'number' &&
+    typeof entry.shortName === 'string' &&
+    typeof entry.color === 'string' &&
+    typeof entry.explorerUrl === 'string' &&
+    (entry.explorerTemplates === undefined || isExplorerTemplates(entry.explorerTemplates)) &&
+    (entry.aliases === undefined || (Array.isArray(entry.aliases) && entry.aliases.every((a) => typeof a === 'string')))
+  );
+}
+
+function isAssetInfo(value: unknown): value is AssetInfo {
+  const entry = value as Partial<AssetInfo> | null;
+  return (
+    typeof entry === 'object' && entry !== null &&
+    typeof entry.symbol === 'string' && entry.symbol.length > 0 &&
+    typeof entry.decimals === 'number' &&
+    typeof entry.color === 'string' &&
+    ASSET_CATEGORIES.includes(entry.category as AssetCategory) &&
+    (entry.logo === undefined || typeof entry.logo === 'string') &&
+    (entry.addresses === undefined || (typeof entry.addresses === 'object' && entry.addresses !== null))
+  );
+}
+
+// Parse a JSON array from configuration, skipping (and reporting) invalid entries
+function parseConfigList<T>(json: string | undefined, name: string, isValid: (value: unknown) => value is T): T[] {
+  if (!json) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error('expected an array');
+    return parsed.filter((entry) => {
+      if (isValid(entry)) return true;
+      logWarning('Registry', `Ignoring invalid entry in ${name}`, entry);
+      return false;
+    });
+  } catch (err) {
+    logWarning('Registry', `${name} is not valid JSON`, err);
+    return [];
+  }
+}
+
+// Merge explorer URL templates from configuration into registered networks
+function applyExplorerTemplates(json: string | undefined): void {
+  if (!json) return;
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (typeof parsed !== 'object' || parsed === null) throw new Error('expected an object');
+    Object.entries(parsed).forEach(([key, templates]) => {
+      const network = resolveNetwork(key);
+      if (network && isExplorerTemplates(templates)) {
+        registerNetwork({ ...network, explorerTemplates: { ...network.explorerTemplates, ...templates } });
+      } else {
+        logWarning('Registry', `Ignoring explorer templates for ${key}`, templates);
+      }
+    });
+  } catch (err) {
+    logWarning('Registry', 'VITE_EXPLORER_TEMPLATES is not valid JSON', err);
+  }
+}
+
+const networks = new Map<string, NetworkInfo>();
+const assets = new Map<string, AssetInfo>();
+
+/** Add a network, replacing any existing network with the same name */
+export function registerNetwork(network: NetworkInfo): void {
+  networks.set(network.name.toLowerCase(), network);
+}
+
+/** Add an asset, replacing any existing asset with the same symbol */
+export function registerAsset(asset: AssetInfo): void {
+  assets.set(asset.symbol.toLowerCase(), asset);
+}
+
+BUILT_IN_NETWORKS.forEach(registerNetwork);
+BUILT_IN_ASSETS.forEach(registerAsset);
+parseConfigList(import.meta.env.VITE_EXTRA_NETWORKS, 'VITE_EXTRA_NETWORKS', isNetworkInfo).forEach(registerNetwork);
+parseConfigList(import.meta.env.VITE_EXTRA_ASSETS, 'VITE_EXTRA_ASSETS', isAssetInfo).forEach(registerAsset);
+applyExplorerTemplates(import.meta.env.VITE_EXPLORER_TEMPLATES);
+
+export function getNetworks(): NetworkInfo[] {
+  return [...networks.values()];
+}
+
+export function getAssets(): AssetInfo[] {
+  return [...assets.values()];
+}
+
+export function getNetwork(name: string): NetworkInfo | undefined {
+  return networks.get(name.toLowerCase());
+}
+
+export function getAsset(symbol: string): AssetInfo | undefined {
+  return assets.get(symbol.toLowerCase());
+}
+
+/** Find a network by name, alias or chain id as it appears in exports */
+export function resolveNetwork(identifier: string): NetworkInfo | undefined {
+  const key = identifier.trim().toLowerCase();
+  return getNetwork(key) ?? getNetworks().find((network) =>
+    network.aliases?.includes(key) || String(network.chainId) === key
+  );
+}
+
+export function getNetworkByChainId(chainId: number): NetworkInfo | undefined {
+  return getNetworks().find((network) => network.chainId === chainId);
+}
+
+/** Find an asset by its token address on a network */
+export function getAssetByAddress(network: string, address: string): AssetInfo | undefined {
+  const target = address.toLowerCase();
+  return getAssets().find((asset) => asset.addresses?.[network]?.toLowerCase() === target);
+}
+
+export function getAssetColor(symbol: string): string {
+  return getAsset(symbol)?.color ?? DEFAULT_ASSET_COLOR;
+}
+
+export function getAssetLogo(symbol: string): string | null {
+  return getAsset(symbol)?.logo ?? null;
+}
+
+export function isStablecoin(symbol: string): boolean {
+  return getAsset(symbol)?.category === 'stablecoin';
+}
@@ -0,0 +1,92 @@
+/**
+ * Transaction filters
+ *
+ * What the table shows and the globe animates can be narrowed by action,
+ * asset, network, protocol and USD value, and searched by wallet or
+ * transaction hash prefix. An empty list or null bound means "any".
+ *
+ * A bundle (several events of one onchain transaction) matches when any of its
+ * steps does, so "liquidations" also finds a liquidation inside a bundle.
+ */
+
+import type { ActionType, Asset, Network, Transaction } from '../types/transaction';
+import { resolveProtocol } from './protocolRegistry';
+import { getEvents } from './bundles';
+
+export interface TransactionFilters {
+  actions: ActionType[];
+  assets: Asset[];
+  networks: Network[];
+  /** Protocol ids from the protocol registry */
+  protocols: string[];
+  minUsd: number | null;
+  maxUsd: number | null;
+  /** Wallet address or transaction hash prefix, with or without 0x (placeholder wallets never match) */
+  search: string;
+}
+
+export const ACTION_TYPES: ActionType[] = ['supply', 'borrow', 'repay', 'withdraw', 'liquidation'];
+
+export const EMPTY_FILTERS: TransactionFilters = {
+  actions: [],
+  assets: [],
+  networks: [],
+  protocols: [],
+  minUsd: null,
+  maxUsd: null,
+  search: '',
+};
+
+export function isFilterActive(filters: TransactionFilters): boolean {
+  return (
+    filters.actions.length > 0
+    || filters.assets.length > 0
+    || filters.networks.length > 0
+    || filters.protocols.length > 0
+    || filters.minUsd !== null
+    || filters.maxUsd !== null
+    || normalizeHex(filters.search) !== ''
+  );
+}
+
+function normalizeHex(value: string): string {
+  return value.trim().toLowerCase().replace(/^0x/, '');
+}
+
+function hasPrefix(value: string | undefined, prefix: string): boolean {
+  return value !== undefined && normalizeHex(value).startsWith(prefix);
+}
+
+function matchesEvent(tx: Transaction, filters: TransactionFilters): boolean {
+  if (filters.actions.length > 0 && !filters.actions.includes(tx.action)) return false;
+  if (filters.assets.length > 0 && !filters.assets.includes(tx.asset)) return false;
+  if (filters.networks.length > 0 && !filters.networks.includes(tx.network)) return false;
+  if (filters.protocols.length > 0) {
+    const protocol = tx.protocol ? resolveProtocol(tx.protocol)?.id ?? tx.protocol : undefined;
+    if (!protocol || !filters.protocols.includes(protocol)) return false;
+  }
+  return true;
+}
+
+/** Whether a table entry passes the filters */
+export function matchesFilters(tx: Transaction, filters: TransactionFilters): boolean {
+  // The range applies to the entry's total, as shown in the table
+  if (filters.minUsd !== null && tx.amountUsd < filters.minUsd) return false;
+  if (filters.maxUsd !== null && tx.amountUsd > filters.maxUsd) return false;
+
+  const events = getEvents(tx);
+  if (!events.some((event) => matchesEvent(event, filters))) return false;
+
+  const search = normalizeHex(filters.search);
+  if (search) {
+    return events.some((event) =>
+      hasPrefix(event.transactionHash, search)
+      || (!event.walletPlaceholder && hasPrefix(event.walletAddress, search))
+    );
+  }
+  return true;
+}
+
+export function filterTransactions(transactions: Transaction[], filters: TransactionFilters): Transaction[] {
+  return isFilterActive(filters) ? transactions.filter((tx) => matchesFilters(tx, filters)) : transactions;
+}
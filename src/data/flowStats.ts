@@ -0,0 +1,135 @@
+/**
+ * Rolling flow statistics
+ *
+ * Totals over the last 5 minutes, hour or day of lending events: volume,
+ * net supply (supply − withdraw), net borrow (borrow − repay), the largest
+ * event and the event rate, overall and broken down per asset, network and
+ * protocol. Windows end at "now" (the simulated clock during replay) and are
+ * measured on block timestamps.
+ *
+ * Bundles and aggregated entries count as their individual events.
+ * Liquidations add to volume but not to the net flows.
+ */
+
+import type { ActionType, Transaction } from '../types/transaction';
+import { resolveProtocol } from './protocolRegistry';
+import { getEvents } from './bundles';
+
+export type StatsWindowId = '5m' | '1h' | '24h';
+
+export const STATS_WINDOWS: { id: StatsWindowId; ms: number }[] = [
+  { id: '5m', ms: 5 * 60 * 1000 },
+  { id: '1h', ms: 60 * 60 * 1000 },
+  { id: '24h', ms: 24 * 60 * 60 * 1000 },
+];
+
+export type StatsDimension = 'asset' | 'network' | 'protocol';
+
+export interface FlowTotals {
+  events: number;
+  volumeUsd: number;
+  /** Supplied minus withdrawn */
+  netSupplyUsd: number;
+  /** Borrowed minus repaid */
+  netBorrowUsd: number;
+}
+
+export interface FlowBreakdownRow extends FlowTotals {
+  /** Asset symbol, network name or protocol id ('unknown' when not reported) */
+  key: string;
+}
+
+export interface FlowStats extends FlowTotals {
+  /** Events per minute over the part of the window the data covers */
+  eventsPerMinute: number;
+  /** Largest single event, and the table entry it belongs to */
+  largest: { event: Transaction; entry: Transaction } | null;
+  /** Rows by volume, largest first */
+  breakdown: Record<StatsDimension, FlowBreakdownRow[]>;
+}
+
+// Effect of each action on net supply and net borrow
+const FLOW_SIGNS: Record<ActionType, { supply: number; borrow: number }> = {
+  supply: { supply: 1, borrow: 0 },
+  withdraw: { supply: -1, borrow: 0 },
+  borrow: { supply: 0, borrow: 1 },
+  repay: { supply: 0, borrow: -1 },
+  liquidation: { supply: 0, borrow: 0 },
+};
+
+// Shortest span a rate is measured over, so a first burst does not read as thousands per minute
+const MIN_RATE_SPAN_MS = 60 * 1000;
+
+function getDimensionKey(event: Transaction, dimension: StatsDimension): string {
+  switch (dimension) {
+    case 'asset':
+      return event.asset;
+    case 'network':
+      return event.network;
+    case 'protocol':
+      return event.protocol ? resolveProtocol(event.protocol)?.id ?? event.protocol : 'unknown';
+  }
+}
+
+function emptyTotals(): FlowTotals {
+  return { events: 0, volumeUsd: 0, netSupplyUsd: 0, netBorrowUsd: 0 };
+}
+
+function addEvent(totals: FlowTotals, event: Transaction): void {
+  const signs = FLOW_SIGNS[event.action];
+  totals.events++;
+  totals.volumeUsd += event.amountUsd;
+  totals.netSupplyUsd += signs.supply * event.amountUsd;
+  totals.netBorrowUsd += signs.borrow * event.amountUsd;
+}
+
+/** Flow statistics for the `windowMs` before `now` */
+export function computeFlowStats(transactions: Transaction[], windowMs: number, now: Date): FlowStats {
+  const end = now.getTime();
+  const start = end - windowMs;
+  const totals = emptyTotals();
+  const groups: Record<StatsDimension, Map<string, FlowTotals>> = {
+    asset: new Map(),
+    network: new Map(),
+    protocol: new Map(),
+  };
+  let largest: FlowStats['largest'] = null;
+  let earliest = end;
+
+  for (const entry of transactions) {
+    for (const event of getEvents(entry)) {
+      const time = event.timestamp.getTime();
+      earliest = Math.min(earliest, time);
+      if (time <= start || time > end) continue;
+
+      addEvent(totals, event);
+      for (const dimension of Object.keys(groups) as StatsDimension[]) {
+        const key = getDimensionKey(event, dimension);
+        let group = groups[dimension].get(key);
+        if (!group) {
+          group = emptyTotals();
+          groups[dimension].set(key, group);
+        }
+        addEvent(group, event);
+      }
+      if (!largest || event.amountUsd > largest.event.amountUsd) largest = { event, entry };
+    }
+  }
+
+  const toRows = (group: Map<string, FlowTotals>): FlowBreakdownRow[] =>
+    [...group].map(([key, row]) => ({ key, ...row })).sort((a, b) => b.volumeUsd - a.volumeUsd);
+
+  // Right after loading the data reaches back less than the window
+  const spanMs = Math.max(Math.min(windowMs, end - earliest), MIN_RATE_SPAN_MS);
+
+  return {
+    ...totals,
+    eventsPerMinute: totals.events / (spanMs / 60_000),
+    largest,
+    breakdown: {
+      asset: toRows(groups.asset),
+      network: toRows(groups.network),
+      protocol: toRows(groups.protocol),
+    },
+  };
+}
@@ -1,17 +1,25 @@
 /**
  * Static lending data parsed from CSV
  * Maps CSV fields to Transaction interface:
- * - lending_event → action (deposits→supply, withdrawals→withdraw, loans→borrow, repayments→repay)
- * - token_symbol → asset
- * - usd_amount → amount
- * - chain → network (capitalize: ethereum→Ethereum)
+ * - lending_event → action (deposits→supply, withdrawals→withdraw, loans→borrow, repayments→repay, liquidations→liquidation)
+ * - token_symbol → asset (registry symbol, see chainRegistry.ts)
+ * - usd_amount → amountUsd, plus tokenAmount estimated from the current price (see valuation.ts)
+ * - chain → network (registry name, matched by name, alias or chain id; see chainRegistry.ts)
+ * - protocol → protocol (registry id, see protocolRegistry.ts)
  * - transaction_hash → transactionHash
  * - block_timestamp → timestamp
+ *
+ * Rows are validated first (see validation.ts), which resolves the chain, asset
+ * and event; malformed or unknown rows are quarantined.
  */
 
-import type { Transaction, ActionType, Network, Asset } from '../types/transaction';
+import type { Transaction } from '../types/transaction';
+import { validateLendingEvents } from './validation';
+import { withTokenAmount } from '../pricing/valuation';
+import { resolveProtocol } from './protocolRegistry';
+import type { DataQualityReport, ValidLendingEvent } from './validation';
 
-interface RawLendingEvent {
+export interface RawLendingEvent {
   chain: string;
   protocol: string;
   lending_event: string;
@@ -19,25 +27,8 @@ interface RawLendingEvent {
   usd_amount: number;
   transaction_hash: string;
   block_timestamp: string;
-}
-
-// Map lending events to action types
-const eventToAction: Record<string, ActionType> = {
-  deposits: 'supply',
-  withdrawals: 'withdraw',
-  loans: 'borrow',
-  repayments: 'repay',
-};
-
-// Capitalize network name
-function capitalizeNetwork(chain: string): Network {
-  const networkMap: Record<string, Network> = {
-    ethereum: 'Ethereum',
-    base: 'Base',
-    arbitrum: 'Arbitrum',
-    optimism: 'Optimism',
-  };
-  return networkMap[chain.toLowerCase()] || 'Ethereum';
+  /** Position of the event's log in its transaction, when the export has it */
+  log_index?: number;
 }
 
 // Generate wallet address from transaction hash (deterministic)
@@ -105,28 +96,36 @@ const rawData: RawLendingEvent[] = [
   {"chain":"ethereum","protocol":"morpho_blue","lending_event":"withdrawals","token_symbol":"USDC","usd_amount":412345.678901234,"transaction_hash":"0xe455i59jm6m23l28i04j6k4k8l1k9lm6j50ji1m3k9012345678ij901234567","block_timestamp":"2026-02-25T15:25:11"},
 ];
 
-// Transform raw data to Transaction objects
-function transformToTransaction(raw: RawLendingEvent, index: number): Transaction {
-  const action = eventToAction[raw.lending_event] || 'supply';
-  const asset = raw.token_symbol as Asset;
+// Transform a validated event to a Transaction (shared with the live sources)
+export function transformToTransaction(event: ValidLendingEvent, index: number): Transaction {
+  const { raw } = event;
 
-  return {
+  // Allium reports USD only; the token quantity is estimated from the current price
+  return withTokenAmount({
     id: `tx-${raw.transaction_hash.slice(2, 18)}-${index}`,
-    action,
-    asset,
-    amount: raw.usd_amount,
+    action: event.action,
+    asset: event.asset,
+    amountUsd: raw.usd_amount,
     walletAddress: generateWalletFromHash(raw.transaction_hash),
-    network: capitalizeNetwork(raw.chain),
-    timestamp: new Date(raw.block_timestamp),
+    walletPlaceholder: true,
+    network: event.network,
+    timestamp: event.timestamp,
     transactionHash: raw.transaction_hash,
-    protocol: raw.protocol,
+    ...(raw.log_index !== undefined ? { logIndex: raw.log_index } : {}),
+    protocol: resolveProtocol(raw.protocol)?.id ?? raw.protocol,
     dataSource: 'allium',
-  };
+  });
 }
 
+// Validate the snapshot, quarantining malformed rows
+const { valid, report } = validateLendingEvents(rawData);
+
+// Quality report for the bundled snapshot
+export const lendingDataQuality: DataQualityReport = report;
+
 // Export transformed transactions sorted by timestamp (newest first)
-export const lendingTransactions: Transaction[] = rawData
-  .map((raw, index) => transformToTransaction(raw, index))
+export const lendingTransactions: Transaction[] = valid
+  .map((event, index) => transformToTransaction(event, index))
   .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
 
 // Export function to get transactions (can be used for pagination/filtering)
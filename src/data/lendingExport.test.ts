@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { countExportEvents, serializeExport, toExportRows } from './lendingExport';
+import { applyColumnMapping, parseLendingExport, suggestColumnMapping } from './lendingImport';
+import type { ExportFormat } from './lendingImport';
+import { transformToTransaction } from './lendingData';
+import type { RawLendingEvent } from './lendingData';
+import { parseBlockTimestamp, validateLendingEvents } from './validation';
+import type { Transaction } from '../types/transaction';
+
+const RAW_EVENTS: RawLendingEvent[] = [
+  {
+    chain: 'ethereum',
+    protocol: 'morpho_blue',
+    lending_event: 'deposits',
+    token_symbol: 'USDC',
+    usd_amount: 40094.35634192418,
+    transaction_hash: '0xbe19788aa599cd2a5d89aca01bb53b97cab9f39c9eb56da3f36ffae0a3a408b7',
+    block_timestamp: '2026-02-25T16:19:59',
+  },
+  {
+    chain: 'base',
+    protocol: 'aave_v3',
+    lending_event: 'loans',
+    token_symbol: 'WETH',
+    usd_amount: 1234.5,
+    transaction_hash: '0x13286e4fb1e8f23460677df2ec23daae3a7ac434384843b258c604606dbc66b6',
+    block_timestamp: '2026-02-25T16:03:11',
+  },
+  {
+    chain: 'arbitrum',
+    protocol: 'compound_v3',
+    lending_event: 'liquidations',
+    token_symbol: 'USDC',
+    usd_amount: 700048.23,
+    transaction_hash: '0x13cc98bd988d4b680261ccafe07bff13a8500d07813afd4c495ad81fcaa3353d',
+    block_timestamp: '2026-02-25T15:46:47',
+  },
+];
+
+function toTransactions(raws: RawLendingEvent[]): Transaction[] {
+  return validateLendingEvents(raws).valid.map((event, index) => transformToTransaction(event, index));
+}
+
+// Compare timestamps as instants: exports write ISO strings with a zone
+const normalize = (raw: RawLendingEvent) => ({
+  ...raw,
+  block_timestamp: parseBlockTimestamp(raw.block_timestamp).toISOString(),
+});
+
+describe('lending export', () => {
+  it.each<ExportFormat>(['csv', 'jsonl', 'json'])('reads back through the import as %s', (format) => {
+    const text = serializeExport(toExportRows(toTransactions(RAW_EVENTS)), format);
+
+    const parsed = parseLendingExport(text, `lending-activity.${format}`);
+    const result = applyColumnMapping(parsed, suggestColumnMapping(parsed.headers));
+
+    expect(result.rejected).toEqual([]);
+    // Oldest first, as the file source replays them
+    expect(result.events.map(normalize)).toEqual([...RAW_EVENTS].reverse().map(normalize));
+  });
+
+  it('maps every column without aliases', () => {
+    const parsed = parseLendingExport(serializeExport(toExportRows(toTransactions(RAW_EVENTS)), 'csv'), 'export.csv');
+
+    expect(Object.values(suggestColumnMapping(parsed.headers))).not.toContain(null);
+  });
+
+  it('quotes values that contain delimiters', () => {
+    const [tx] = toTransactions(RAW_EVENTS);
+    const text = serializeExport(toExportRows([{ ...tx, marketName: 'WETH/USDC, "86%" LLTV' }]), 'csv');
+
+    const [row] = parseLendingExport(text, 'export.csv').rows;
+
+    expect(row.market_name).toBe('WETH/USDC, "86%" LLTV');
+  });
+
+  it('writes bundle steps as their own rows', () => {
+    const [first, second] = toTransactions(RAW_EVENTS);
+    const bundle: Transaction = { ...first, bundle: { label: 'Loop', steps: [first, second] } };
+
+    const rows = toExportRows([bundle]);
+
+    expect(rows.map((row) => row.transaction_hash)).toEqual([second.transactionHash, first.transactionHash]);
+    expect(rows.every((row) => row.bundle_label === 'Loop')).toBe(true);
+  });
+
+  it('leaves out events without a transaction hash', () => {
+    const [tx, other] = toTransactions(RAW_EVENTS);
+    const transactions = [tx, { ...other, transactionHash: undefined }];
+
+    expect(toExportRows(transactions)).toHaveLength(1);
+    expect(countExportEvents(transactions)).toEqual({ exported: 1, withoutHash: 1 });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Export of transactions in the Allium lending export layout
+ *
+ * Each lending event becomes one flat row: the RawLendingEvent columns first
+ * (so the file can be re-imported through the import panel), then every other
+ * Transaction field in snake_case. Bundles and aggregated entries are written
+ * as their individual events. Columns are the same for every row and values are
+ * strings, numbers, booleans or null, so JSONL/CSV exports load straight into
+ * Parquet-based tools (DuckDB, pandas, Spark).
+ *
+ * Events without a transaction hash (the random mock source) are left out:
+ * the import requires one, so they could not be read back.
+ */
+
+import type { ActionType, Transaction } from '../types/transaction';
+import type { ExportFormat, LendingField } from './lendingImport';
+import { LENDING_FIELDS } from './lendingImport';
+import { formatCsv } from '../utils/csv';
+import { getEvents } from './bundles';
+
+// Inverse of the import mapping (validation.ts)
+const ACTION_TO_EVENT: Record<ActionType, string> = {
+  supply: 'deposits',
+  withdraw: 'withdrawals',
+  borrow: 'loans',
+  repay: 'repayments',
+  liquidation: 'liquidations',
+};
+
+// Transaction fields after the RawLendingEvent columns
+const EXTRA_FIELDS = [
+  'id',
+  'wallet_address',
+  'wallet_reported',
+  'token_amount_raw',
+  'token_decimals',
+  'token_amount_estimated',
+  'apy',
+  'market_name',
+  'collateral_token_symbol',
+  'collateral_amount',
+  'health_factor',
+  'log_index',
+  'data_source',
+  'latitude',
+  'longitude',
+  'bundle_label',
+] as const;
+
+type ExportField = LendingField | (typeof EXTRA_FIELDS)[number];
+
+export type ExportValue = string | number | boolean | null;
+
+export type ExportRow = Record<ExportField, ExportValue>;
+
+export const EXPORT_COLUMNS: ExportField[] = [...LENDING_FIELDS, ...EXTRA_FIELDS];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv',
+  jsonl: 'application/x-ndjson',
+  json: 'application/json',
+};
+
+function toRow(tx: Transaction, bundleLabel: string | null): ExportRow {
+  return {
+    chain: tx.network.toLowerCase(),
+    protocol: tx.protocol ?? null,
+    lending_event: ACTION_TO_EVENT[tx.action],
+    token_symbol: tx.asset,
+    usd_amount: tx.amountUsd,
+    transaction_hash: tx.transactionHash ?? null,
+    block_timestamp: tx.timestamp.toISOString(),
+    id: tx.id,
+    wallet_address: tx.walletAddress,
+    wallet_reported: !tx.walletPlaceholder,
+    token_amount_raw: tx.tokenAmount?.raw ?? null,
+    token_decimals: tx.tokenAmount?.decimals ?? null,
+    token_amount_estimated: tx.tokenAmount ? tx.tokenAmount.estimated === true : null,
+    apy: tx.apy ?? null,
+    market_name: tx.marketName ?? null,
+    collateral_token_symbol: tx.collateralAsset ?? null,
+    collateral_amount: tx.collateralAmount ?? null,
+    health_factor: tx.healthFactor ?? null,
+    log_index: tx.logIndex ?? null,
+    data_source: tx.dataSource ?? null,
+    latitude: tx.location?.[0] ?? null,
+    longitude: tx.location?.[1] ?? null,
+    bundle_label: bundleLabel,
+  };
+}
+
+// The individual events behind a table entry
+function toRows(tx: Transaction): ExportRow[] {
+  if (tx.bundle) {
+    const { label, steps } = tx.bundle;
+    return steps.map((step) => toRow(step, label));
+  }
+  if (tx.aggregatedFrom) return tx.aggregatedFrom.flatMap(toRows);
+  return [toRow(tx, null)];
+}
+
+/** One row per lending event with a transaction hash, oldest first (the order an import replays in) */
+export function toExportRows(transactions: Transaction[]): ExportRow[] {
+  return transactions
+    .flatMap(toRows)
+    .filter((row) => row.transaction_hash !== null)
+    .sort((a, b) => String(a.block_timestamp).localeCompare(String(b.block_timestamp)));
+}
+
+/** Lending events an export would write, and those it leaves out for lacking a transaction hash */
+export function countExportEvents(transactions: Transaction[]): { exported: number; withoutHash: number } {
+  const events = transactions.flatMap(getEvents);
+  const withoutHash = events.filter((event) => !event.transactionHash).length;
+  return { exported: events.length - withoutHash, withoutHash };
+}
+
+export function serializeExport(rows: ExportRow[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return formatCsv([
+        EXPORT_COLUMNS,
+        ...rows.map((row) => EXPORT_COLUMNS.map((column) => (row[column] === null ? '' : String(row[column])))),
+      ]);
+    case 'jsonl':
+      return rows.map((row) => JSON.stringify(row)).join('\n') + '\n';
+    case 'json':
+      return JSON.stringify(rows, null, 2);
+  }
+}
+
+/** File name like lending-activity-2026-02-25T16-20-59Z.csv */
+export function getExportFileName(format: ExportFormat, now = new Date()): string {
+  const stamp = now.toISOString().slice(0, 19).replace(/:/g, '-');
+  return `lending-activity-${stamp}Z.${format}`;
+}
+
+export function getExportMimeType(format: ExportFormat): string {
+  return MIME_TYPES[format];
+}
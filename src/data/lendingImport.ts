@@ -0,0 +1,213 @@
+/**
+ * Runtime import of Allium lending exports (CSV, JSONL or JSON)
+ *
+ * Files are parsed into generic rows, columns are mapped onto RawLendingEvent
+ * fields (exact header names are picked up automatically, common aliases are
+ * suggested), and each row is either accepted or rejected with a reason
+ * (including the checks in validation.ts).
+ */
+
+import type { RawLendingEvent } from './lendingData';
+import { parseCsv } from '../utils/csv';
+import { parseBlockTimestamp, validateLendingEvent } from './validation';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'json';
+
+/** The RawLendingEvent columns an import requires */
+export type LendingField = Exclude<keyof RawLendingEvent, 'log_index'>;
+
+export const LENDING_FIELDS: LendingField[] = [
+  'chain',
+  'protocol',
+  'lending_event',
+  'token_symbol',
+  'usd_amount',
+  'transaction_hash',
+  'block_timestamp',
+];
+
+/** Maps each RawLendingEvent field to a header in the file (null = unmapped) */
+export type ColumnMapping = Record<LendingField, string | null>;
+
+export interface ParsedExport {
+  fileName: string;
+  format: ExportFormat;
+  headers: string[];
+  rows: Record<string, unknown>[];
+}
+
+export interface RejectedRow {
+  /** 1-based row number in the file (excluding the CSV header) */
+  row: number;
+  reason: string;
+}
+
+export interface ImportResult {
+  events: RawLendingEvent[];
+  accepted: number;
+  rejected: RejectedRow[];
+}
+
+/** A validated import ready to be replayed by the file source */
+export interface ImportedDataset {
+  fileName: string;
+  events: RawLendingEvent[];
+}
+
+// Alternative header names seen in other exports
+const FIELD_ALIASES: Record<LendingField, string[]> = {
+  chain: ['network', 'blockchain', 'chain_name'],
+  protocol: ['project', 'protocol_name', 'platform'],
+  lending_event: ['event', 'event_type', 'action', 'event_name'],
+  token_symbol: ['symbol', 'token', 'asset', 'asset_symbol'],
+  usd_amount: ['amount_usd', 'usd_value', 'value_usd', 'usd'],
+  transaction_hash: ['tx_hash', 'hash', 'txn_hash', 'transaction_id'],
+  block_timestamp: ['timestamp', 'block_time', 'time', 'datetime'],
+};
+
+function detectFormat(text: string, fileName: string): ExportFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'csv') return 'csv';
+  if (extension === 'jsonl' || extension === 'ndjson') return 'jsonl';
+  if (extension === 'json') return 'json';
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[')) return 'json';
+  if (trimmed.startsWith('{')) return trimmed.includes('\n{') ? 'jsonl' : 'json';
+  return 'csv';
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function collectHeaders(rows: Record<string, unknown>[]): string[] {
+  const headers = new Set<string>();
+  rows.slice(0, 100).forEach((row) => Object.keys(row).forEach((key) => headers.add(key)));
+  return [...headers];
+}
+
+/** Parse an export file into headers and rows. Throws on unreadable input. */
+export function parseLendingExport(text: string, fileName: string): ParsedExport {
+  const format = detectFormat(text, fileName);
+
+  if (format === 'csv') {
+    const [headerRow, ...dataRows] = parseCsv(text);
+    if (!headerRow) throw new Error('File is empty');
+    const headers = headerRow.map((header) => header.trim());
+    const rows = dataRows.map((values) =>
+      Object.fromEntries(headers.map((header, i) => [header, values[i] ?? '']))
+    );
+    return { fileName, format, headers, rows };
+  }
+
+  if (format === 'jsonl') {
+    const rows = text
+      .split(/\r?\n/)
+      .map((line, index) => ({ line: line.trim(), index }))
+      .filter(({ line }) => line !== '')
+      .map(({ line, index }) => {
+        let row: unknown;
+        try {
+          row = JSON.parse(line);
+        } catch {
+          throw new Error(`Invalid JSON on line ${index + 1}`);
+        }
+        if (!isRecord(row)) throw new Error(`Line ${index + 1} is not a JSON object`);
+        return row;
+      });
+    return { fileName, format, headers: collectHeaders(rows), rows };
+  }
+
+  const parsed: unknown = JSON.parse(text);
+  const rows: unknown = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.data : undefined;
+  if (!Array.isArray(rows)) {
+    throw new Error('Expected a JSON array of lending events');
+  }
+  const invalid = rows.findIndex((row) => !isRecord(row));
+  if (invalid !== -1) throw new Error(`Row ${invalid + 1} is not a JSON object`);
+  return { fileName, format, headers: collectHeaders(rows), rows };
+}
+
+/** Suggest a mapping using exact header names first, then known aliases (case-insensitive) */
+export function suggestColumnMapping(headers: string[]): ColumnMapping {
+  const byLowerName = new Map(headers.map((header) => [header.toLowerCase(), header]));
+
+  return Object.fromEntries(
+    LENDING_FIELDS.map((field) => {
+      const candidates = [field, ...FIELD_ALIASES[field]];
+      const match = candidates.map((name) => byLowerName.get(name)).find(Boolean);
+      return [field, match ?? null];
+    })
+  ) as ColumnMapping;
+}
+
+export function getUnmappedFields(mapping: ColumnMapping): LendingField[] {
+  return LENDING_FIELDS.filter((field) => !mapping[field]);
+}
+
+// Accept "2026-02-25 16:19:59.000 UTC" style timestamps as well as ISO
+function normalizeTimestamp(value: string): string | null {
+  const normalized = value.trim().replace(' ', 'T').replace(/\s*UTC$/i, '');
+  return Number.isNaN(parseBlockTimestamp(normalized).getTime()) ? null : normalized;
+}
+
+/** Apply a column mapping, accepting rows with every field present and well-formed */
+export function applyColumnMapping(parsed: ParsedExport, mapping: ColumnMapping): ImportResult {
+  const unmapped = getUnmappedFields(mapping);
+  if (unmapped.length > 0) {
+    return {
+      events: [],
+      accepted: 0,
+      rejected: [{ row: 0, reason: `Unmapped columns: ${unmapped.join(', ')}` }],
+    };
+  }
+
+  const events: RawLendingEvent[] = [];
+  const rejected: RejectedRow[] = [];
+
+  parsed.rows.forEach((row, index) => {
+    const value = (field: LendingField) => {
+      const raw = row[mapping[field] as string];
+      return raw === null || raw === undefined ? '' : String(raw).trim();
+    };
+
+    const missing = LENDING_FIELDS.filter((field) => value(field) === '');
+    if (missing.length > 0) {
+      rejected.push({ row: index + 1, reason: `Missing ${missing.join(', ')}` });
+      return;
+    }
+
+    const usdAmount = Number(value('usd_amount').replace(/[$,]/g, ''));
+    if (!Number.isFinite(usdAmount)) {
+      rejected.push({ row: index + 1, reason: `Invalid usd_amount "${value('usd_amount')}"` });
+      return;
+    }
+
+    const blockTimestamp = normalizeTimestamp(value('block_timestamp'));
+    if (!blockTimestamp) {
+      rejected.push({ row: index + 1, reason: `Invalid block_timestamp "${value('block_timestamp')}"` });
+      return;
+    }
+
+    const event: RawLendingEvent = {
+      chain: value('chain').toLowerCase(),
+      protocol: value('protocol'),
+      lending_event: value('lending_event').toLowerCase(),
+      token_symbol: value('token_symbol'),
+      usd_amount: usdAmount,
+      transaction_hash: value('transaction_hash').toLowerCase(),
+      block_timestamp: blockTimestamp,
+    };
+
+    const validation = validateLendingEvent(event);
+    if (!validation.ok) {
+      rejected.push({ row: index + 1, reason: validation.issues.map((issue) => issue.message).join('; ') });
+      return;
+    }
+
+    events.push(event);
+  });
+
+  return { events, accepted: events.length, rejected };
+}
@@ -0,0 +1,158 @@
+/**
+ * Market state: total supply, total borrow and utilization per market
+ *
+ * A market is one asset lent on one protocol on one network (and, for
+ * protocols with isolated markets such as Morpho Blue, one named market).
+ * Totals start from a loaded baseline when one is configured (see
+ * services/marketState.ts), or from zero, and are then rolled forward through
+ * the lending events in time order: supply/withdraw move total supply,
+ * borrow/repay/liquidation move total borrow. Each table entry gets the state
+ * of its market right after it.
+ *
+ * Without a baseline the totals only cover events seen since the feed started,
+ * so they are marked as reconstructed, and utilization is left unknown when
+ * the partial flows do not describe a possible market (nothing supplied, or
+ * more borrowed than supplied).
+ *
+ * Collateral deposits and withdrawals (an event whose collateral asset is its
+ * own asset) are not counted: collateral in isolated markets is not lent out.
+ */
+
+import type { ActionType, Transaction } from '../types/transaction';
+import { resolveProtocol } from './protocolRegistry';
+import { getEvents } from './bundles';
+
+export interface MarketTotals {
+  totalSupplyUsd: number;
+  totalBorrowUsd: number;
+}
+
+/** Market totals loaded from a market state source */
+export interface MarketBaseline {
+  /** When the totals were read; events up to this time are already included */
+  asOf: Date | null;
+  markets: Map<string, MarketTotals>;
+}
+
+export interface MarketSnapshot extends MarketTotals {
+  /** Borrowed / supplied (0–1), or null when the totals cannot tell */
+  utilization: number | null;
+  /** No baseline: totals are net flows of the events seen since `since` */
+  reconstructed: boolean;
+  /** Events applied to the market so far */
+  events: number;
+  /** Time of the first event applied to the market */
+  since: Date;
+}
+
+// Effect of each action on total supply and total borrow
+const MARKET_SIGNS: Record<ActionType, { supply: number; borrow: number }> = {
+  supply: { supply: 1, borrow: 0 },
+  withdraw: { supply: -1, borrow: 0 },
+  borrow: { supply: 0, borrow: 1 },
+  repay: { supply: 0, borrow: -1 },
+  // The liquidator repays debt; the seized collateral is not lent out
+  liquidation: { supply: 0, borrow: -1 },
+};
+
+/** Key of the market an event belongs to */
+export function getMarketKey(tx: Pick<Transaction, 'network' | 'protocol' | 'marketName' | 'asset'>): string {
+  const protocol = tx.protocol ? resolveProtocol(tx.protocol)?.id ?? tx.protocol : 'unknown';
+  return [tx.network, protocol, tx.marketName ?? '', tx.asset].join('|');
+}
+
+function isCollateralMove(event: Transaction): boolean {
+  return (event.action === 'supply' || event.action === 'withdraw') && event.collateralAsset === event.asset;
+}
+
+function toSnapshot(totals: MarketTotals, reconstructed: boolean, events: number, since: Date): MarketSnapshot {
+  const { totalSupplyUsd, totalBorrowUsd } = totals;
+  const possible = totalSupplyUsd > 0 && totalBorrowUsd >= 0 && totalBorrowUsd <= totalSupplyUsd;
+  return {
+    totalSupplyUsd,
+    totalBorrowUsd,
+    utilization: possible ? totalBorrowUsd / totalSupplyUsd : null,
+    reconstructed,
+    events,
+    since,
+  };
+}
+
+/** State of each entry's market right after it, by entry id */
+export function computeMarketStates(
+  transactions: Transaction[],
+  baseline: MarketBaseline | null
+): Map<string, MarketSnapshot> {
+  const markets = new Map<string, MarketTotals & { reconstructed: boolean; events: number; since: Date }>();
+  const states = new Map<string, MarketSnapshot>();
+  const asOf = baseline?.asOf?.getTime() ?? -Infinity;
+
+  const chronological = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const entry of chronological) {
+    for (const event of getEvents(entry)) {
+      if (isCollateralMove(event) || event.timestamp.getTime() <= asOf) continue;
+
+      const key = getMarketKey(event);
+      let market = markets.get(key);
+      if (!market) {
+        const loaded = baseline?.markets.get(key);
+        market = {
+          totalSupplyUsd: loaded?.totalSupplyUsd ?? 0,
+          totalBorrowUsd: loaded?.totalBorrowUsd ?? 0,
+          reconstructed: !loaded,
+          events: 0,
+          since: event.timestamp,
+        };
+        markets.set(key, market);
+      }
+      const signs = MARKET_SIGNS[event.action];
+      market.totalSupplyUsd += signs.supply * event.amountUsd;
+      market.totalBorrowUsd += signs.borrow * event.amountUsd;
+      market.events++;
+    }
+
+    const market = markets.get(getMarketKey(entry));
+    if (market) states.set(entry.id, toSnapshot(market, market.reconstructed, market.events, market.since));
+  }
+  return states;
+}
+
+function toNumber(value: unknown): number | null {
+  const number = typeof value === 'string' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+/**
+ * Parse market totals: an array of markets, or {"asOf": ISO time, "markets": [...]}.
+ * Each market is {network, protocol, asset, market?, totalSupplyUsd, totalBorrowUsd};
+ * malformed entries are skipped.
+ */
+export function parseMarketBaseline(body: unknown): MarketBaseline {
+  const wrapped = typeof body === 'object' && body !== null && !Array.isArray(body);
+  const list = wrapped ? (body as { markets?: unknown }).markets : body;
+  if (!Array.isArray(list)) {
+    throw new Error('Market state response has no markets');
+  }
+
+  const asOfValue = wrapped ? (body as { asOf?: unknown }).asOf : undefined;
+  const asOf = typeof asOfValue === 'string' && !Number.isNaN(Date.parse(asOfValue)) ? new Date(asOfValue) : null;
+
+  const markets = new Map<string, MarketTotals>();
+  list.forEach((item: unknown) => {
+    if (typeof item !== 'object' || item === null) return;
+    const { network, protocol, asset, market } = item as Record<string, unknown>;
+    const totalSupplyUsd = toNumber((item as Record<string, unknown>).totalSupplyUsd);
+    const totalBorrowUsd = toNumber((item as Record<string, unknown>).totalBorrowUsd);
+    if (typeof network !== 'string' || typeof asset !== 'string' || totalSupplyUsd === null || totalBorrowUsd === null) {
+      return;
+    }
+    const key = getMarketKey({
+      network,
+      asset,
+      protocol: typeof protocol === 'string' ? protocol : undefined,
+      marketName: typeof market === 'string' ? market : undefined,
+    });
+    markets.set(key, { totalSupplyUsd, totalBorrowUsd });
+  });
+  return { asOf, markets };
+}
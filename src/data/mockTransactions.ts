@@ -1,8 +1,14 @@
-import type { Transaction, ActionType, Network, Asset } from '../types/transaction';
+import type { Transaction, ActionType, Asset } from '../types/transaction';
+import { getAsset, getAssets, getNetworks, isStablecoin } from './chainRegistry';
+import { getProtocols } from './protocolRegistry';
+import { valueInUsd } from '../pricing/valuation';
+import { toTokenAmount } from '../utils/tokenAmount';
 
 const ACTIONS: ActionType[] = ['supply', 'borrow', 'repay', 'withdraw', 'liquidation'];
-const NETWORKS: Network[] = ['Ethereum', 'Base', 'Arbitrum', 'Optimism'];
-const ASSETS: Asset[] = ['USDC', 'ETH', 'WBTC', 'DAI', 'USDT', 'WETH', 'cbETH', 'stETH', 'PYUSD'];
+// Every registered network and asset, including configured ones
+const NETWORKS = getNetworks().map((network) => network.name);
+const ASSETS = getAssets().map((asset) => asset.symbol);
+const PROTOCOLS = getProtocols().map((protocol) => protocol.id);
 
 const MARKET_NAMES = [
   'USDC/ETH (90% LLTV)',
@@ -26,18 +32,12 @@ function generateWalletAddress(): string {
 }
 
 function generateAmount(asset: Asset): number {
-  const ranges: Record<Asset, [number, number]> = {
-    'USDC': [100, 500000],
-    'ETH': [0.1, 100],
+  const ranges: Record<string, [number, number]> = {
     'WBTC': [0.01, 10],
-    'DAI': [100, 500000],
-    'USDT': [100, 500000],
-    'WETH': [0.1, 100],
     'cbETH': [0.1, 50],
-    'stETH': [0.1, 100],
-    'PYUSD': [100, 500000],
   };
-  const [min, max] = ranges[asset];
+  const [min, max] = ranges[getAsset(asset)?.symbol ?? asset]
+    ?? (isStablecoin(asset) ? [100, 500000] : [0.1, 100]);
   return Math.round((Math.random() * (max - min) + min) * 100) / 100;
 }
 
@@ -59,18 +59,24 @@ export function generateTransaction(): Transaction {
   const action = ACTIONS[Math.floor(Math.random() * ACTIONS.length)];
   const asset = ASSETS[Math.floor(Math.random() * ASSETS.length)];
   const network = NETWORKS[Math.floor(Math.random() * NETWORKS.length)];
+  const protocol = PROTOCOLS[Math.floor(Math.random() * PROTOCOLS.length)];
+  const quantity = generateAmount(asset);
 
   const transaction: Transaction = {
     id: `tx-${Date.now()}-${generateRandomHex(8)}`,
     action,
     asset,
-    amount: generateAmount(asset),
+    amountUsd: valueInUsd(quantity, asset) ?? 0,
+    tokenAmount: toTokenAmount(quantity, getAsset(asset)?.decimals ?? 18),
     walletAddress: generateWalletAddress(),
+    walletPlaceholder: true,
     network,
     timestamp: new Date(),
     apy: generateAPY(action),
-    marketName: MARKET_NAMES[Math.floor(Math.random() * MARKET_NAMES.length)],
+    // Market names are in the Morpho collateral/loan style
+    ...(protocol === 'morpho_blue' ? { marketName: MARKET_NAMES[Math.floor(Math.random() * MARKET_NAMES.length)] } : {}),
     healthFactor: generateHealthFactor(),
+    protocol,
     dataSource: 'mock',
   };
 
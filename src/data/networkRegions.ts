@@ -0,0 +1,85 @@
+/**
+ * Where each network's activity is plotted on the globe
+ *
+ * Each network has a home region (roughly where its sequencer or the bulk of
+ * its validators run). Deployments can override it with the region of the RPC
+ * node or sequencer they actually read from, via VITE_NETWORK_REGIONS:
+ *
+ *   VITE_NETWORK_REGIONS={"Base":"us-east-1","Arbitrum":[50.11,8.68]}
+ *
+ * Values are either a cloud region code from CLOUD_REGIONS or a [lat, long] pair.
+ */
+
+import type { Network } from '../types/transaction';
+import { logWarning } from '../utils/logger';
+
+/** [latitude, longitude] in degrees */
+export type GeoLocation = [number, number];
+
+// Common cloud region codes used by RPC providers and sequencers
+const CLOUD_REGIONS: Record<string, GeoLocation> = {
+  'us-east-1': [39.0438, -77.4874], // N. Virginia
+  'us-east-2': [39.9612, -82.9988], // Ohio
+  'us-west-1': [37.7749, -122.4194], // N. California
+  'us-west-2': [45.5152, -122.6784], // Oregon
+  'ca-central-1': [45.5017, -73.5673], // Montreal
+  'eu-west-1': [53.3498, -6.2603], // Ireland
+  'eu-west-2': [51.5074, -0.1278], // London
+  'eu-central-1': [50.1109, 8.6821], // Frankfurt
+  'ap-southeast-1': [1.3521, 103.8198], // Singapore
+  'ap-northeast-1': [35.6762, 139.6503], // Tokyo
+  'ap-northeast-2': [37.5665, 126.978], // Seoul
+  'ap-south-1': [19.076, 72.8777], // Mumbai
+  'sa-east-1': [-23.5505, -46.6333], // São Paulo
+};
+
+const NETWORK_HOME_REGIONS: Partial<Record<Network, GeoLocation>> = {
+  Ethereum: CLOUD_REGIONS['eu-central-1'],
+  Base: CLOUD_REGIONS['us-east-1'],
+  Arbitrum: CLOUD_REGIONS['us-east-2'],
+  Optimism: CLOUD_REGIONS['us-west-2'],
+};
+
+// Networks added through configuration without a region pulse here
+const DEFAULT_REGION = CLOUD_REGIONS['us-east-1'];
+
+function isGeoLocation(value: unknown): value is GeoLocation {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 90 &&
+    Math.abs(value[1]) <= 180
+  );
+}
+
+function parseRegionOverrides(json: string | undefined): Partial<Record<string, GeoLocation>> {
+  if (!json) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (typeof parsed !== 'object' || parsed === null) throw new Error('expected an object');
+
+    const overrides: Partial<Record<string, GeoLocation>> = {};
+    Object.entries(parsed).forEach(([network, value]) => {
+      const location = typeof value === 'string' ? CLOUD_REGIONS[value] : value;
+      if (isGeoLocation(location)) {
+        overrides[network] = location;
+      } else {
+        logWarning('Globe', `Ignoring region for ${network}: ${JSON.stringify(value)}`);
+      }
+    });
+    return overrides;
+  } catch (err) {
+    logWarning('Globe', 'VITE_NETWORK_REGIONS is not valid JSON', err);
+    return {};
+  }
+}
+
+const regionOverrides = parseRegionOverrides(import.meta.env.VITE_NETWORK_REGIONS);
+
+/** Configured RPC/sequencer region for a network, falling back to its home region */
+export function getNetworkLocation(network: Network): GeoLocation {
+  return regionOverrides[network] ?? NETWORK_HOME_REGIONS[network] ?? DEFAULT_REGION;
+}
@@ -0,0 +1,97 @@
+/**
+ * Lending protocol registry
+ *
+ * Display names and colors for the protocols events come from, keyed by the
+ * canonical id stored in Transaction.protocol. Deployments add or override
+ * protocols with a JSON array in VITE_EXTRA_PROTOCOLS:
+ *
+ *   VITE_EXTRA_PROTOCOLS=[{"id":"spark","name":"Spark","shortName":"SPK","color":"#F48F3B","aliases":["sparklend"]}]
+ */
+
+import type { ProtocolInfo } from '../types/registry';
+import { logWarning } from '../utils/logger';
+
+// Used for protocols the registry does not know
+export const DEFAULT_PROTOCOL_COLOR = '#6B7280';
+
+const BUILT_IN_PROTOCOLS: ProtocolInfo[] = [
+  {
+    id: 'morpho_blue',
+    name: 'Morpho Blue',
+    shortName: 'MORPHO',
+    color: '#2470FF',
+    aliases: ['morpho', 'morpho-blue', 'morpho_v1'],
+  },
+  {
+    id: 'aave_v3',
+    name: 'Aave v3',
+    shortName: 'AAVE',
+    color: '#B6509E',
+    aliases: ['aave', 'aave-v3', 'aavev3'],
+  },
+  {
+    id: 'compound_v3',
+    name: 'Compound v3',
+    shortName: 'COMP',
+    color: '#00D395',
+    aliases: ['compound', 'compound-v3', 'compoundv3', 'comet'],
+  },
+];
+
+function isProtocolInfo(value: unknown): value is ProtocolInfo {
+  const entry = value as Partial<ProtocolInfo> | null;
+  return (
+    typeof entry === 'object' && entry !== null &&
+    typeof entry.id === 'string' && entry.id.length > 0 &&
+    typeof entry.name === 'string' &&
+    typeof entry.shortName === 'string' &&
+    typeof entry.color === 'string' &&
+    (entry.aliases === undefined || (Array.isArray(entry.aliases) && entry.aliases.every((a) => typeof a === 'string')))
+  );
+}
+
+function parseExtraProtocols(json: string | undefined): ProtocolInfo[] {
+  if (!json) return [];
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (!Array.isArray(parsed)) throw new Error('expected an array');
+    return parsed.filter((entry) => {
+      if (isProtocolInfo(entry)) return true;
+      logWarning('Registry', 'Ignoring invalid entry in VITE_EXTRA_PROTOCOLS', entry);
+      return false;
+    });
+  } catch (err) {
+    logWarning('Registry', 'VITE_EXTRA_PROTOCOLS is not valid JSON', err);
+    return [];
+  }
+}
+
+const protocols = new Map<string, ProtocolInfo>();
+
+/** Add a protocol, replacing any existing protocol with the same id */
+export function registerProtocol(protocol: ProtocolInfo): void {
+  protocols.set(protocol.id.toLowerCase(), protocol);
+}
+
+BUILT_IN_PROTOCOLS.forEach(registerProtocol);
+parseExtraProtocols(import.meta.env.VITE_EXTRA_PROTOCOLS).forEach(registerProtocol);
+
+export function getProtocols(): ProtocolInfo[] {
+  return [...protocols.values()];
+}
+
+/** Find a protocol by id or alias as it appears in exports */
+export function resolveProtocol(identifier: string): ProtocolInfo | undefined {
+  const key = identifier.trim().toLowerCase();
+  return protocols.get(key) ?? getProtocols().find((protocol) => protocol.aliases?.includes(key));
+}
+
+/** Display name, falling back to the raw identifier ("euler_v2" → "euler v2") */
+export function getProtocolName(identifier: string): string {
+  return resolveProtocol(identifier)?.name ?? identifier.replace(/[_-]+/g, ' ');
+}
+
+export function getProtocolColor(identifier: string): string {
+  return resolveProtocol(identifier)?.color ?? DEFAULT_PROTOCOL_COLOR;
+}
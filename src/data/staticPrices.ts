@@ -0,0 +1,17 @@
+import type { PriceTable } from '../types/pricing';
+
+/**
+ * Reference USD prices for offline demos, and the fallback used before a
+ * live price source responds. Not market data.
+ */
+export const STATIC_PRICES: PriceTable = {
+  USDC: 1,
+  USDT: 1,
+  DAI: 1,
+  PYUSD: 1,
+  ETH: 3000,
+  WETH: 3000,
+  stETH: 3000,
+  cbETH: 3250,
+  WBTC: 95000,
+};
@@ -0,0 +1,139 @@
+/**
+ * Transaction table layout
+ *
+ * Which columns the table shows, in what order, and how rows are sorted. The
+ * layout is saved in localStorage so each person keeps their own view across
+ * reloads. Saved layouts are validated on load: unknown columns are dropped and
+ * anything unreadable falls back to the default.
+ */
+
+import type { Transaction } from '../types/transaction';
+
+export type ColumnId =
+  | 'wallet'
+  | 'action'
+  | 'asset'
+  | 'amount'
+  | 'time'
+  | 'protocol'
+  | 'market'
+  | 'hash'
+  | 'healthFactor'
+  | 'usdValue';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableSort {
+  column: ColumnId;
+  direction: SortDirection;
+}
+
+export interface TableLayout {
+  /** Visible columns, left to right */
+  columns: ColumnId[];
+  /** Null keeps the feed order (newest first) */
+  sort: TableSort | null;
+}
+
+export const COLUMN_IDS: ColumnId[] = [
+  'wallet',
+  'action',
+  'asset',
+  'amount',
+  'time',
+  'protocol',
+  'market',
+  'hash',
+  'healthFactor',
+  'usdValue',
+];
+
+export const COLUMN_LABELS: Record<ColumnId, string> = {
+  wallet: 'Wallet',
+  action: 'Action',
+  asset: 'Asset',
+  amount: 'Amount',
+  time: 'Time',
+  protocol: 'Protocol',
+  market: 'Market',
+  hash: 'Tx Hash',
+  healthFactor: 'Health',
+  usdValue: 'USD Value',
+};
+
+// Columns rows can be sorted by, and the value each sorts on
+const SORT_VALUES: Partial<Record<ColumnId, (tx: Transaction) => number | string | undefined>> = {
+  asset: (tx) => tx.asset,
+  amount: (tx) => tx.amountUsd,
+  usdValue: (tx) => tx.amountUsd,
+  time: (tx) => tx.timestamp.getTime(),
+  healthFactor: (tx) => tx.healthFactor,
+};
+
+export function isSortable(column: ColumnId): boolean {
+  return SORT_VALUES[column] !== undefined;
+}
+
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  columns: ['wallet', 'action', 'asset', 'amount', 'time'],
+  sort: null,
+};
+
+const LAYOUT_STORAGE_KEY = 'lending-viz:table-layout';
+
+/** Show `columns`, dropping a sort on a column that is no longer shown (nothing would indicate it) */
+export function withColumns(layout: TableLayout, columns: ColumnId[]): TableLayout {
+  const sort = layout.sort && columns.includes(layout.sort.column) ? layout.sort : null;
+  return { columns, sort };
+}
+
+function isColumnId(value: unknown): value is ColumnId {
+  return typeof value === 'string' && (COLUMN_IDS as string[]).includes(value);
+}
+
+function parseSort(value: unknown): TableSort | null {
+  if (!value || typeof value !== 'object') return null;
+  const { column, direction } = value as Record<string, unknown>;
+  if (!isColumnId(column) || (direction !== 'asc' && direction !== 'desc')) return null;
+  return { column, direction };
+}
+
+export function loadTableLayout(): TableLayout {
+  try {
+    const saved = localStorage.getItem(LAYOUT_STORAGE_KEY);
+    if (!saved) return DEFAULT_TABLE_LAYOUT;
+    const parsed = JSON.parse(saved) as Partial<Record<keyof TableLayout, unknown>>;
+    const columns = Array.isArray(parsed.columns) ? [...new Set(parsed.columns.filter(isColumnId))] : [];
+    if (columns.length === 0) return DEFAULT_TABLE_LAYOUT;
+    return withColumns({ columns, sort: parseSort(parsed.sort) }, columns);
+  } catch {
+    return DEFAULT_TABLE_LAYOUT;
+  }
+}
+
+export function saveTableLayout(layout: TableLayout): void {
+  try {
+    localStorage.setItem(LAYOUT_STORAGE_KEY, JSON.stringify(layout));
+  } catch {
+    // Storage unavailable (private mode, quota): the layout lasts for this session only
+  }
+}
+
+/** Sort rows by a column; rows without a value go last in either direction */
+export function sortTransactions(transactions: Transaction[], sort: TableSort | null): Transaction[] {
+  const getValue = sort ? SORT_VALUES[sort.column] : undefined;
+  if (!sort || !getValue) return transactions;
+
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...transactions].sort((a, b) => {
+    const valueA = getValue(a);
+    const valueB = getValue(b);
+    if (valueA === undefined || valueB === undefined) {
+      return valueA === valueB ? 0 : valueA === undefined ? 1 : -1;
+    }
+    if (typeof valueA === 'string' || typeof valueB === 'string') {
+      return sign * String(valueA).localeCompare(String(valueB));
+    }
+    return sign * (valueA - valueB);
+  });
+}
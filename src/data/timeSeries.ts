@@ -0,0 +1,73 @@
+/**
+ * Volume time series for the charts
+ *
+ * Lending events are summed into equal time buckets ending at "now" (the
+ * simulated clock during replay), split by action for the stacked area chart
+ * and by asset for the sparklines. Like the flow stats, bundles and aggregated
+ * entries count as their individual events and buckets use block timestamps.
+ */
+
+import type { ActionType, Asset, Transaction } from '../types/transaction';
+import { ACTION_TYPES } from './filters';
+import { getEvents } from './bundles';
+
+export interface SeriesWindow {
+  /** Window length */
+  windowMs: number;
+  /** End of the window */
+  now: Date;
+  /** Number of equal buckets the window is split into */
+  buckets: number;
+}
+
+export interface AssetSeries {
+  asset: Asset;
+  /** USD volume per bucket, oldest first */
+  values: number[];
+  totalUsd: number;
+}
+
+// USD volume per bucket for each key, leaving out events outside the window
+function bucketVolume<K extends string>(
+  transactions: Transaction[],
+  { windowMs, now, buckets }: SeriesWindow,
+  keyOf: (event: Transaction) => K
+): Map<K, number[]> {
+  const end = now.getTime();
+  const start = end - windowMs;
+  const bucketMs = windowMs / buckets;
+  const series = new Map<K, number[]>();
+
+  for (const entry of transactions) {
+    for (const event of getEvents(entry)) {
+      const time = event.timestamp.getTime();
+      if (time <= start || time > end) continue;
+
+      const key = keyOf(event);
+      let values = series.get(key);
+      if (!values) {
+        values = new Array<number>(buckets).fill(0);
+        series.set(key, values);
+      }
+      values[Math.min(buckets - 1, Math.floor((time - start) / bucketMs))] += event.amountUsd;
+    }
+  }
+  return series;
+}
+
+/** USD volume per bucket for every action (zeros when an action has no events) */
+export function getActionVolumeSeries(transactions: Transaction[], window: SeriesWindow): Record<ActionType, number[]> {
+  const series = bucketVolume(transactions, window, (event) => event.action);
+  return Object.fromEntries(
+    ACTION_TYPES.map((action) => [action, series.get(action) ?? new Array<number>(window.buckets).fill(0)])
+  ) as Record<ActionType, number[]>;
+}
+
+/** USD volume per bucket for the `limit` assets with the most volume, largest first */
+export function getAssetVolumeSeries(transactions: Transaction[], window: SeriesWindow, limit: number): AssetSeries[] {
+  const series = bucketVolume(transactions, window, (event) => event.asset);
+  return [...series]
+    .map(([asset, values]) => ({ asset, values, totalUsd: values.reduce((sum, value) => sum + value, 0) }))
+    .sort((a, b) => b.totalUsd - a.totalUsd)
+    .slice(0, limit);
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { validateLendingEvent } from './validation';
+import type { RawLendingEvent } from './lendingData';
+
+const VALID: RawLendingEvent = {
+  chain: 'ethereum',
+  protocol: 'morpho_blue',
+  lending_event: 'deposits',
+  token_symbol: 'USDC',
+  usd_amount: 40094.35,
+  transaction_hash: '0xbe19788aa599cd2a5d89aca01bb53b97cab9f39c9eb56da3f36ffae0a3a408b7',
+  block_timestamp: '2026-02-25T16:19:59',
+};
+
+function issueFields(raw: RawLendingEvent): string[] {
+  const result = validateLendingEvent(raw);
+  return result.ok ? [] : result.issues.map((issue) => issue.field);
+}
+
+describe('validateLendingEvent', () => {
+  it('resolves a well-formed row to registry values', () => {
+    const result = validateLendingEvent(VALID);
+
+    expect(result).toEqual({
+      ok: true,
+      event: {
+        raw: VALID,
+        action: 'supply',
+        network: 'Ethereum',
+        asset: 'USDC',
+        timestamp: new Date('2026-02-25T16:19:59Z'),
+      },
+    });
+  });
+
+  it('matches chains by alias or chain id and events case-insensitively', () => {
+    const result = validateLendingEvent({ ...VALID, chain: '8453', lending_event: 'Liquidations' });
+
+    expect(result.ok && result.event).toMatchObject({ network: 'Base', action: 'liquidation' });
+  });
+
+  it('reads zoned timestamps as given', () => {
+    const result = validateLendingEvent({ ...VALID, block_timestamp: '2026-02-25T18:19:59+02:00' });
+
+    expect(result.ok && result.event.timestamp).toEqual(new Date('2026-02-25T16:19:59Z'));
+  });
+
+  it.each([
+    ['short', '0x1234'],
+    ['non-hex', `0x${'g'.repeat(64)}`],
+    ['unprefixed', 'be19788aa599cd2a5d89aca01bb53b97cab9f39c9eb56da3f36ffae0a3a408b7'],
+  ])('rejects a %s transaction hash', (_case, hash) => {
+    expect(issueFields({ ...VALID, transaction_hash: hash })).toEqual(['transaction_hash']);
+  });
+
+  it('rejects unknown chains instead of defaulting them', () => {
+    const result = validateLendingEvent({ ...VALID, chain: 'solana' });
+
+    expect(result).toEqual({ ok: false, issues: [{ field: 'chain', message: 'Unknown chain "solana"' }] });
+  });
+
+  it('rejects unknown assets', () => {
+    expect(issueFields({ ...VALID, token_symbol: 'NOPE' })).toEqual(['token_symbol']);
+  });
+
+  it.each(['borrows', 'constructor', 'toString', '__proto__'])('rejects the lending event "%s"', (event) => {
+    expect(issueFields({ ...VALID, lending_event: event })).toEqual(['lending_event']);
+  });
+
+  it.each([
+    ['zero', 0, 'USD amount must be positive'],
+    ['negative', -5, 'USD amount must be positive'],
+    ['NaN', NaN, 'USD amount is not a number'],
+    ['infinite', Infinity, 'USD amount is not a number'],
+    ['implausible', 2e10, 'USD amount is implausibly large'],
+  ])('rejects a %s USD amount', (_case, amount, message) => {
+    expect(validateLendingEvent({ ...VALID, usd_amount: amount })).toEqual({
+      ok: false,
+      issues: [{ field: 'usd_amount', message }],
+    });
+  });
+
+  it('rejects unreadable and future timestamps', () => {
+    const future = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+
+    expect(issueFields({ ...VALID, block_timestamp: 'yesterday' })).toEqual(['block_timestamp']);
+    expect(issueFields({ ...VALID, block_timestamp: future })).toEqual(['block_timestamp']);
+  });
+
+  it('reports every issue of a row', () => {
+    expect(issueFields({ ...VALID, chain: '', token_symbol: '', usd_amount: 0 })).toEqual([
+      'chain',
+      'token_symbol',
+      'usd_amount',
+    ]);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Validation and quarantine for raw lending events
+ *
+ * Every RawLendingEvent is checked before it becomes a Transaction: hash format,
+ * known chain / asset / event values, numeric sanity and timestamp. Rows that
+ * fail are quarantined with their reasons instead of being guessed at (e.g. an
+ * unknown chain is never silently relabelled as Ethereum).
+ */
+
+import type { ActionType, Network, Asset } from '../types/transaction';
+import type { RawLendingEvent } from './lendingData';
+import { getAsset, resolveNetwork } from './chainRegistry';
+
+// Map lending events to action types
+const EVENT_TO_ACTION: Record<string, ActionType> = {
+  deposits: 'supply',
+  withdrawals: 'withdraw',
+  loans: 'borrow',
+  repayments: 'repay',
+  liquidations: 'liquidation',
+};
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+// Anything above this is almost certainly a pricing error
+const MAX_PLAUSIBLE_USD = 10_000_000_000;
+// Allow for clock skew between the indexer and this machine
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000;
+
+export interface ValidationIssue {
+  field: keyof RawLendingEvent;
+  message: string;
+}
+
+/** A raw event that passed validation, with its fields resolved to known values */
+export interface ValidLendingEvent {
+  raw: RawLendingEvent;
+  action: ActionType;
+  network: Network;
+  asset: Asset;
+  timestamp: Date;
+}
+
+export interface QuarantinedEvent {
+  raw: RawLendingEvent;
+  issues: ValidationIssue[];
+}
+
+export interface DataQualityReport {
+  /** Number of raw events checked */
+  checked: number;
+  /** Number of events that passed validation */
+  accepted: number;
+  quarantined: QuarantinedEvent[];
+}
+
+export type LendingEventValidation =
+  | { ok: true; event: ValidLendingEvent }
+  | { ok: false; issues: ValidationIssue[] };
+
+export const EMPTY_QUALITY_REPORT: DataQualityReport = { checked: 0, accepted: 0, quarantined: [] };
+
+// Block timestamps are UTC; exports usually omit the zone designator
+export function parseBlockTimestamp(value: string): Date {
+  const trimmed = value.trim();
+  // Date-only and zoned strings already parse as UTC
+  const isUtc = /^\d{4}-\d{2}-\d{2}$/.test(trimmed) || /(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed);
+  return new Date(isUtc ? trimmed : `${trimmed}Z`);
+}
+
+export function validateLendingEvent(raw: RawLendingEvent): LendingEventValidation {
+  const issues: ValidationIssue[] = [];
+
+  if (!TX_HASH_PATTERN.test(raw.transaction_hash)) {
+    issues.push({ field: 'transaction_hash', message: 'Malformed transaction hash (expected 0x + 64 hex characters)' });
+  }
+
+  // Chains and assets must be in the registry (built in or configured)
+  const network: Network | undefined = resolveNetwork(raw.chain)?.name;
+  if (!network) {
+    issues.push({ field: 'chain', message: `Unknown chain "${raw.chain}"` });
+  }
+
+  const asset: Asset | undefined = getAsset(raw.token_symbol)?.symbol;
+  if (!asset) {
+    issues.push({ field: 'token_symbol', message: `Unknown asset "${raw.token_symbol}"` });
+  }
+
+  // Own keys only: "constructor" or "toString" must not resolve to Object.prototype
+  const event = raw.lending_event.toLowerCase();
+  const action = Object.hasOwn(EVENT_TO_ACTION, event) ? EVENT_TO_ACTION[event] : undefined;
+  if (!action) {
+    issues.push({ field: 'lending_event', message: `Unknown lending event "${raw.lending_event}"` });
+  }
+
+  if (typeof raw.usd_amount !== 'number' || !Number.isFinite(raw.usd_amount)) {
+    issues.push({ field: 'usd_amount', message: 'USD amount is not a number' });
+  } else if (raw.usd_amount <= 0) {
+    issues.push({ field: 'usd_amount', message: 'USD amount must be positive' });
+  } else if (raw.usd_amount > MAX_PLAUSIBLE_USD) {
+    issues.push({ field: 'usd_amount', message: 'USD amount is implausibly large' });
+  }
+
+  const timestamp = parseBlockTimestamp(raw.block_timestamp);
+  if (Number.isNaN(timestamp.getTime())) {
+    issues.push({ field: 'block_timestamp', message: `Invalid block timestamp "${raw.block_timestamp}"` });
+  } else if (timestamp.getTime() > Date.now() + MAX_FUTURE_SKEW_MS) {
+    issues.push({ field: 'block_timestamp', message: 'Block timestamp is in the future' });
+  }
+
+  if (issues.length > 0 || !network || !asset || !action) {
+    return { ok: false, issues };
+  }
+
+  return { ok: true, event: { raw, action, network, asset, timestamp } };
+}
+
+/** Split raw events into valid events and a quality report of quarantined rows */
+export function validateLendingEvents(raws: RawLendingEvent[]): {
+  valid: ValidLendingEvent[];
+  report: DataQualityReport;
+} {
+  const valid: ValidLendingEvent[] = [];
+  const quarantined: QuarantinedEvent[] = [];
+
+  raws.forEach((raw) => {
+    const result = validateLendingEvent(raw);
+    if (result.ok) {
+      valid.push(result.event);
+    } else {
+      quarantined.push({ raw, issues: result.issues });
+    }
+  });
+
+  return {
+    valid,
+    report: { checked: raws.length, accepted: valid.length, quarantined },
+  };
+}
+
+export function mergeQualityReports(a: DataQualityReport, b: DataQualityReport): DataQualityReport {
+  return {
+    checked: a.checked + b.checked,
+    accepted: a.accepted + b.accepted,
+    quarantined: [...a.quarantined, ...b.quarantined],
+  };
+}
+
+/** Count quarantined rows per issue message, most common first */
+export function summarizeIssues(report: DataQualityReport): { message: string; count: number }[] {
+  const counts = new Map<string, number>();
+  report.quarantined.forEach(({ issues }) => {
+    issues.forEach(({ message }) => counts.set(message, (counts.get(message) ?? 0) + 1));
+  });
+  return [...counts.entries()]
+    .map(([message, count]) => ({ message, count }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,159 @@
+/**
+ * Wallet profile: every loaded event of one wallet and its reconstructed positions
+ *
+ * Positions are rebuilt per market (see getMarketKey in marketState.ts) by
+ * rolling the wallet's events forward in time order, in USD at each event's
+ * value:
+ * - supplied: supply − withdraw
+ * - collateral: collateral deposits − collateral withdrawals (events whose
+ *   collateral asset is their own asset), less collateral seized in
+ *   liquidations (taken from the supplied balance once collateral runs out, as
+ *   on pools where every deposit is collateral)
+ * - borrowed: borrow − repay, less debt repaid by liquidators
+ *
+ * Only events in the loaded history are known, so positions opened earlier can
+ * show negative balances; they are clamped at zero rather than guessed.
+ */
+
+import type { Asset, Network, Transaction } from '../types/transaction';
+import { getEvents } from './bundles';
+import { getMarketKey } from './marketState';
+
+export interface PositionBalances {
+  suppliedUsd: number;
+  collateralUsd: number;
+  borrowedUsd: number;
+}
+
+export interface WalletPosition extends PositionBalances {
+  /** Market key (marketState.ts) */
+  key: string;
+  network: Network;
+  protocol?: string;
+  marketName?: string;
+  asset: Asset;
+}
+
+export interface WalletEvent {
+  event: Transaction;
+  /** The table entry the event belongs to */
+  entry: Transaction;
+  /** The wallet's position in the event's market right after it */
+  position: PositionBalances;
+  /** The wallet's totals across markets right after it */
+  totals: PositionBalances;
+}
+
+export interface WalletProfile {
+  address: string;
+  /** Oldest first */
+  events: WalletEvent[];
+  /** Current positions, largest first; closed positions are left out */
+  positions: WalletPosition[];
+  networks: Network[];
+}
+
+function emptyBalances(): PositionBalances {
+  return { suppliedUsd: 0, collateralUsd: 0, borrowedUsd: 0 };
+}
+
+function clampBalances(balances: PositionBalances): PositionBalances {
+  return {
+    suppliedUsd: Math.max(0, balances.suppliedUsd),
+    collateralUsd: Math.max(0, balances.collateralUsd),
+    borrowedUsd: Math.max(0, balances.borrowedUsd),
+  };
+}
+
+function sumBalances(positions: Iterable<PositionBalances>): PositionBalances {
+  const totals = emptyBalances();
+  for (const position of positions) {
+    const clamped = clampBalances(position);
+    totals.suppliedUsd += clamped.suppliedUsd;
+    totals.collateralUsd += clamped.collateralUsd;
+    totals.borrowedUsd += clamped.borrowedUsd;
+  }
+  return totals;
+}
+
+function isCollateralMove(event: Transaction): boolean {
+  return event.collateralAsset === event.asset;
+}
+
+/**
+ * Profile of `address` from the loaded entries. `getPrice` values collateral
+ * seized in liquidations (reported in tokens); without a price it is not deducted.
+ */
+export function buildWalletProfile(
+  transactions: Transaction[],
+  address: string,
+  getPrice: (symbol: Asset) => number | null
+): WalletProfile {
+  const wallet = address.toLowerCase();
+  const found: { event: Transaction; entry: Transaction }[] = [];
+  for (const entry of transactions) {
+    for (const event of getEvents(entry)) {
+      if (!event.walletPlaceholder && event.walletAddress.toLowerCase() === wallet) found.push({ event, entry });
+    }
+  }
+  found.sort((a, b) => a.event.timestamp.getTime() - b.event.timestamp.getTime());
+
+  const positions = new Map<string, WalletPosition>();
+  const getPosition = (event: Transaction, asset: Asset): WalletPosition => {
+    const market = { network: event.network, protocol: event.protocol, marketName: event.marketName, asset };
+    const key = getMarketKey(market);
+    let position = positions.get(key);
+    if (!position) {
+      position = { key, ...market, ...emptyBalances() };
+      positions.set(key, position);
+    }
+    return position;
+  };
+
+  const events = found.map(({ event, entry }): WalletEvent => {
+    const position = getPosition(event, event.asset);
+    switch (event.action) {
+      case 'supply':
+        if (isCollateralMove(event)) position.collateralUsd += event.amountUsd;
+        else position.suppliedUsd += event.amountUsd;
+        break;
+      case 'withdraw':
+        if (isCollateralMove(event)) position.collateralUsd -= event.amountUsd;
+        else position.suppliedUsd -= event.amountUsd;
+        break;
+      case 'borrow':
+        position.borrowedUsd += event.amountUsd;
+        break;
+      case 'repay':
+        position.borrowedUsd -= event.amountUsd;
+        break;
+      case 'liquidation': {
+        position.borrowedUsd -= event.amountUsd;
+        const price = event.collateralAsset ? getPrice(event.collateralAsset) : null;
+        if (event.collateralAsset && event.collateralAmount !== undefined && price !== null) {
+          const collateral = getPosition(event, event.collateralAsset);
+          const seizedUsd = event.collateralAmount * price;
+          const fromCollateral = Math.min(Math.max(0, collateral.collateralUsd), seizedUsd);
+          collateral.collateralUsd -= fromCollateral;
+          collateral.suppliedUsd -= seizedUsd - fromCollateral;
+        }
+        break;
+      }
+    }
+    return { event, entry, position: clampBalances(position), totals: sumBalances(positions.values()) };
+  });
+
+  const open = [...positions.values()]
+    .map((position) => ({ ...position, ...clampBalances(position) }))
+    .filter((position) => position.suppliedUsd + position.collateralUsd + position.borrowedUsd >= 0.01)
+    .sort((a, b) =>
+      (b.suppliedUsd + b.collateralUsd + b.borrowedUsd) - (a.suppliedUsd + a.collateralUsd + a.borrowedUsd)
+    );
+
+  return {
+    address,
+    events,
+    positions: open,
+    networks: [...new Set(found.map(({ event }) => event.network))],
+  };
+}
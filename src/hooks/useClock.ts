@@ -0,0 +1,21 @@
+/**
+ * useClock Hook
+ *
+ * "Now" for time windows: the given reference time (the simulated clock during
+ * replay) or else the wall clock, advanced every `tickMs` while in use.
+ */
+
+import { useEffect, useState } from 'react';
+
+export function useClock(referenceTime: Date | null | undefined, tickMs: number): Date {
+  const [wallClock, setWallClock] = useState(() => new Date());
+
+  // Replay drives its own clock
+  useEffect(() => {
+    if (referenceTime) return;
+    const timer = setInterval(() => setWallClock(new Date()), tickMs);
+    return () => clearInterval(timer);
+  }, [referenceTime, tickMs]);
+
+  return referenceTime ?? wallClock;
+}
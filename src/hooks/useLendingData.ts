@@ -1,129 +1,534 @@
 /**
  * useLendingData Hook
  *
- * Drip-feeds lending transactions from static CSV data for smooth visualization.
- * Separates the "pending" transaction (for animation) from displayed transactions (in table).
+ * Drip-feeds lending transactions from a TransactionSource for smooth visualization.
+ * Sources push batches into an adaptive drip queue (see lib/dripQueue.ts) that
+ * speeds up and aggregates under backlog for live feeds. Finite sources (CSV snapshot, uploaded files)
+ * can be played two ways:
+ * - 'drip': one event per interval, looping forever with fresh timestamps (demo mode)
+ * - 'replay': events in chronological order, spaced by their real block_timestamp
+ *   gaps scaled by a speed multiplier, against a simulated clock
+ * Separates in-flight transactions (being animated, several at once) from displayed
+ * transactions (in table). Transactions the caller does not want animated (e.g.
+ * filtered out) skip the orbit and go straight to the table history.
+ *
+ * The feed can be paused: nothing new is launched and the replay clock stops,
+ * while the source keeps buffering. On resume a live feed flushes its buffer
+ * straight into the table; stepping releases one event at a time while paused.
+ *
+ * Live feeds also store their history (services/historyStore.ts): the most
+ * recent page is restored on load, and older pages are read on request.
+ * Replays store the events they play for the charts, but start over instead
+ * of restoring them. An uploaded file is not stored: the next file would share
+ * its history.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useSyncExternalStore } from 'react';
 import type { Transaction } from '../types/transaction';
-import { lendingTransactions } from '../data/lendingData';
+import type { TransactionSource } from '../types/source';
+import type { FeedSpeed, PlaybackMode, ReplayEndBehavior, ReplaySpeed } from '../types/playback';
+import type { DataQualityReport } from '../data/validation';
+import { createDripQueue } from '../lib/dripQueue';
+import type { DripQueueMetrics } from '../lib/dripQueue';
+import { historyStore } from '../services/historyStore';
+import type { HistoryEntry } from '../services/historyStore';
+import { logWarning } from '../utils/logger';
 
 // Configuration
 const DRIP_INTERVAL_MS = parseInt(import.meta.env.VITE_DRIP_INTERVAL_MS || '3500', 10); // 3.5 seconds (gives time for orbit + settle)
-const MAX_DISPLAYED_TRANSACTIONS = 50;
+// History kept in memory; older entries stay in the history store
+const MAX_HISTORY_TRANSACTIONS = 50_000;
+// Stored transactions restored on load, and read per "load older"
+const HISTORY_PAGE_SIZE = 500;
+// Transactions animating at the same time
+const MAX_IN_FLIGHT = 3;
+// How often the replay clock advances and checks for due events
+const REPLAY_TICK_MS = 250;
+// How often the displayed replay clock is refreshed
+const REPLAY_CLOCK_REFRESH_MS = 1000;
+// How often queue lag and inflow are sampled
+const METRICS_REFRESH_MS = 1000;
+
+export interface UseLendingDataOptions {
+  /** Playback for finite sources (live sources always stream as events arrive) */
+  mode?: PlaybackMode;
+  replaySpeed?: ReplaySpeed;
+  replayEnd?: ReplayEndBehavior;
+  /** Where the first replay starts (e.g. from a shared link); earlier events go straight into the table. Read once. */
+  replayFrom?: Date | null;
+  /** Drip feed speed (replay timing is set by replaySpeed) */
+  feedSpeed?: FeedSpeed;
+  /** Which transactions get an orbit animation; the rest are added to the history directly */
+  shouldAnimate?: (transaction: Transaction) => boolean;
+}
 
 export interface UseLendingDataResult {
-  /** The next transaction to animate (not yet in table) */
+  /** Transactions being animated, oldest first (not yet in table) */
+  inFlightTransactions: Transaction[];
+  /** The oldest in-flight transaction */
   pendingTransaction: Transaction | null;
-  /** Transaction history for the table display */
+  /** Transaction history for the table display, newest first (includes transactions that were not animated) */
   displayedTransactions: Transaction[];
-  /** Call this when animation is complete to add pending transaction to table */
-  commitTransaction: () => void;
+  /** Call this when an in-flight transaction's animation reaches the table to add it there */
+  commitTransaction: (id: string) => void;
   /** Whether the initial data fetch is in progress */
   isLoading: boolean;
-  /** Whether using mock data instead of Allium (always false now - using real CSV data) */
+  /** Whether the source is anything other than a live remote feed */
   isUsingMockData: boolean;
   /** Number of transactions waiting in the queue */
   queueLength: number;
-  /** Any error message from the last fetch attempt */
+  /** How long the oldest queued transaction has been waiting */
+  lagMs: number;
+  /** Transactions received per minute (one-minute sliding window) */
+  inflowPerMinute: number;
+  /** Animation speed multiplier (above 1 when draining a backlog) */
+  playbackRate: number;
+  /** Any error message reported by the source */
   error: string | null;
-  /** Trigger a manual fetch (no-op for static data) */
+  /** Validation summary, including quarantined rows the source rejected */
+  dataQuality: DataQualityReport;
+  /** Whether replay is active (replay mode with a finite source) */
+  isReplaying: boolean;
+  /** Simulated clock while replaying, null otherwise */
+  replayClock: Date | null;
+  /** Whether replay reached the end of the dataset and stopped */
+  isReplayFinished: boolean;
+  /** Whether the feed is paused */
+  isPaused: boolean;
+  /** Stop launching transactions; the source keeps buffering */
+  pause: () => void;
+  /** Continue the feed; a live feed first moves everything it buffered into the table */
+  resume: () => void;
+  /** While paused, move the next transaction (in flight, then queued) into the table. Returns it, if any. */
+  step: () => Transaction | null;
+  /** Whether older stored history may be available */
+  hasOlderHistory: boolean;
+  isLoadingOlderHistory: boolean;
+  /** Append the next page of stored history to displayedTransactions */
+  loadOlderHistory: () => Promise<void>;
+  /** Trigger a manual fetch, or restart a source that cannot fetch */
   refetch: () => Promise<void>;
   // Legacy alias for compatibility
   currentTransaction: Transaction | null;
 }
 
-export function useLendingData(): UseLendingDataResult {
-  // Transaction waiting to be animated
-  const [pendingTransaction, setPendingTransaction] = useState<Transaction | null>(null);
+const animateAll = () => true;
+
+const byTimestampAscending = (a: Transaction, b: Transaction) =>
+  a.timestamp.getTime() - b.timestamp.getTime();
+
+// A looped copy shifted by `offsetMs`, bundle steps and aggregated events included,
+// so charts and stats that expand entries see the same times as the table
+function restamp(tx: Transaction, offsetMs: number, loopId: string): Transaction {
+  return {
+    ...tx,
+    id: `${tx.id}-${loopId}`,
+    timestamp: new Date(tx.timestamp.getTime() + offsetMs),
+    ...(tx.bundle
+      ? { bundle: { ...tx.bundle, steps: tx.bundle.steps.map((step) => restamp(step, offsetMs, loopId)) } }
+      : {}),
+    ...(tx.aggregatedFrom
+      ? { aggregatedFrom: tx.aggregatedFrom.map((event) => restamp(event, offsetMs, loopId)) }
+      : {}),
+  };
+}
+
+export function useLendingData(
+  source: TransactionSource,
+  { mode = 'drip', replaySpeed = 60, replayEnd = 'stop', replayFrom = null, feedSpeed = 1, shouldAnimate = animateAll }: UseLendingDataOptions = {}
+): UseLendingDataResult {
+  const isReplaying = mode === 'replay' && source.finite;
+  // Live feeds keep their history; finite datasets replay from the start instead
+  const persistsHistory = !source.finite;
+  // Replayed events are stored for the charts (see useReplayHistory)
+  const storesHistory = persistsHistory || (isReplaying && source.kind !== 'file');
+
+  // Transactions being animated
+  const [inFlightTransactions, setInFlightTransactions] = useState<Transaction[]>([]);
   // Transactions shown in the table (only after animation completes)
   const [displayedTransactions, setDisplayedTransactions] = useState<Transaction[]>([]);
-  // Loading state
-  const [isLoading, setIsLoading] = useState(true);
-  // Track if we're ready for next transaction
-  const [readyForNext, setReadyForNext] = useState(true);
-
-  // Index tracker for cycling through data
-  const currentIndexRef = useRef(0);
-  // Ref for pending transaction
-  const pendingTxRef = useRef<Transaction | null>(null);
-  pendingTxRef.current = pendingTransaction;
-
-  // Initialize
+  // Transactions waiting to be animated
+  const [queueLength, setQueueLength] = useState(0);
+  // Queue lag/inflow sample
+  const [dripMetrics, setDripMetrics] = useState<DripQueueMetrics | null>(null);
+  // Replay clock shown in the UI
+  const [replayClock, setReplayClock] = useState<Date | null>(null);
+  const [isReplayFinished, setIsReplayFinished] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  // Stored history paging
+  const [isHistoryExhausted, setIsHistoryExhausted] = useState(false);
+  const [isLoadingOlderHistory, setIsLoadingOlderHistory] = useState(false);
+  // Storage position of each history entry, for paging further back
+  const [historySeqs] = useState(() => new WeakMap<Transaction, number>());
+  // Source and playback the current state belongs to
+  const [activeFeed, setActiveFeed] = useState({ source, isReplaying });
+
+  // Reset the feed when the source or playback is swapped
+  if (source !== activeFeed.source || isReplaying !== activeFeed.isReplaying) {
+    setActiveFeed({ source, isReplaying });
+    setInFlightTransactions([]);
+    setDisplayedTransactions([]);
+    setQueueLength(0);
+    setDripMetrics(null);
+    setReplayClock(null);
+    setIsReplayFinished(false);
+    setIsHistoryExhausted(false);
+    setIsLoadingOlderHistory(false);
+  }
+
+  const status = useSyncExternalStore(source.onStatusChange, source.getStatus);
+  const error = useSyncExternalStore(source.onStatusChange, source.getError);
+  const dataQuality = useSyncExternalStore(source.onStatusChange, source.getQualityReport);
+  const isLoading = status === 'connecting';
+
+  // Transactions delivered by the source, waiting to be animated
+  // (source order for drip, oldest first for replay)
+  const [queue] = useState(() => createDripQueue({ baseIntervalMs: DRIP_INTERVAL_MS }));
+  // In-flight transactions, read by timers and callbacks
+  const inFlightRef = useRef<Transaction[]>([]);
+  // Simulated replay time (ms since epoch), null until the first event arrives
+  const replayTimeRef = useRef<number | null>(null);
+  // Number of completed replay loops, used to keep looped ids unique
+  const replayLoopRef = useRef(0);
+  // Ids of the transactions in the table, so adding one does not scan the history
+  const shownIdsRef = useRef(new Set<string>());
+  // Start time for the first replay, cleared once used
+  const replayFromRef = useRef(replayFrom);
+  // Latest animation predicate, read by timers without restarting them
+  const shouldAnimateRef = useRef(shouldAnimate);
+
   useEffect(() => {
-    setIsLoading(false);
+    shouldAnimateRef.current = shouldAnimate;
+  }, [shouldAnimate]);
+
+  // The table starts empty for each feed
+  useEffect(() => {
+    shownIdsRef.current.clear();
+  }, [activeFeed]);
+
+  const launch = useCallback((transaction: Transaction) => {
+    inFlightRef.current = [...inFlightRef.current, transaction];
+    setInFlightTransactions(inFlightRef.current);
   }, []);
 
-  // Get next transaction from the cycle
-  const getNextTransaction = useCallback((): Transaction => {
-    const index = currentIndexRef.current;
-    const transaction = lendingTransactions[index];
+  // Add transactions (oldest first) to the top of the table in one update, skipping ones already shown
+  const addToHistory = useCallback((transactions: Transaction[]) => {
+    const shownIds = shownIdsRef.current;
+    const added = transactions.filter((tx) => {
+      if (shownIds.has(tx.id)) return false;
+      shownIds.add(tx.id);
+      return true;
+    });
+    if (added.length === 0) return;
+
+    const newestFirst = [...added].reverse();
+    setDisplayedTransactions(prev => {
+      const next = [...newestFirst, ...prev];
+      if (next.length <= MAX_HISTORY_TRANSACTIONS) return next;
+      next.slice(MAX_HISTORY_TRANSACTIONS).forEach((tx) => shownIds.delete(tx.id));
+      return next.slice(0, MAX_HISTORY_TRANSACTIONS);
+    });
+    if (storesHistory) {
+      added.forEach((transaction) => {
+        void historyStore.add(source.id, transaction).then((seq) => {
+          if (seq !== null) historySeqs.set(transaction, seq);
+        });
+      });
+    }
+  }, [source, storesHistory, historySeqs]);
 
-    // Move to next, cycling back to start
-    currentIndexRef.current = (index + 1) % lendingTransactions.length;
+  // Merge a page of stored history below what is shown
+  const appendStoredPage = useCallback((entries: HistoryEntry[]) => {
+    entries.forEach((entry) => historySeqs.set(entry.transaction, entry.seq));
+    if (entries.length < HISTORY_PAGE_SIZE) setIsHistoryExhausted(true);
+    const shownIds = shownIdsRef.current;
+    const stored = entries.map((entry) => entry.transaction).filter((tx) => {
+      if (shownIds.has(tx.id)) return false;
+      shownIds.add(tx.id);
+      return true;
+    });
+    if (stored.length > 0) setDisplayedTransactions(prev => [...prev, ...stored]);
+  }, [historySeqs]);
 
-    // Return a copy with fresh timestamp and unique ID
-    return {
-      ...transaction,
-      id: `tx-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
-      timestamp: new Date(),
+  // Restore the most recent stored history of a live feed
+  useEffect(() => {
+    if (!persistsHistory) return;
+    let cancelled = false;
+    historyStore.loadPage(source.id, null, HISTORY_PAGE_SIZE)
+      .then((entries) => {
+        if (!cancelled) appendStoredPage(entries);
+      })
+      .catch((err) => logWarning('History', 'Failed to restore history', err));
+    return () => {
+      cancelled = true;
     };
-  }, []);
+  }, [source, persistsHistory, appendStoredPage]);
+
+  const loadOlderHistory = useCallback(async () => {
+    if (!persistsHistory || isLoadingOlderHistory) return;
+    const oldest = displayedTransactions[displayedTransactions.length - 1];
+    const beforeSeq = oldest ? historySeqs.get(oldest) : null;
+    // The oldest entry is still being stored; its position is not known yet
+    if (beforeSeq === undefined) return;
+
+    setIsLoadingOlderHistory(true);
+    try {
+      appendStoredPage(await historyStore.loadPage(source.id, beforeSeq, HISTORY_PAGE_SIZE));
+    } catch (err) {
+      logWarning('History', 'Failed to load older history', err);
+    } finally {
+      setIsLoadingOlderHistory(false);
+    }
+  }, [source, persistsHistory, isLoadingOlderHistory, displayedTransactions, historySeqs, appendStoredPage]);
+
+  // Subscribe to the source and start it
+  useEffect(() => {
+    queue.clear();
+    inFlightRef.current = [];
+    // Finite datasets arrive all at once, so their "backlog" is not real pressure
+    queue.setAdaptive(!source.finite);
+    replayTimeRef.current = null;
+    replayLoopRef.current = 0;
+    const unsubscribe = source.subscribe((transactions) => {
+      queue.push(transactions, Date.now());
+      if (isReplaying) queue.sort(byTimestampAscending);
+      setQueueLength(queue.size());
+    });
+    source.start();
+
+    return () => {
+      unsubscribe();
+      source.stop();
+    };
+  }, [source, isReplaying, queue]);
+
+  // Get next transaction from the queue, looping finite sources
+  const getNextTransaction = useCallback((): Transaction | null => {
+    if (queue.size() === 0 && source.finite && source.getStatus() === 'complete') {
+      source.stop();
+      source.start();
+    }
 
-  // Commit the pending transaction to the table
-  const commitTransaction = useCallback(() => {
-    const tx = pendingTxRef.current;
+    const transaction = queue.take();
+    setQueueLength(queue.size());
+    if (!transaction) return null;
+    if (!source.finite) return transaction;
+
+    // Looped data: return a copy stamped now, with unique IDs
+    const now = Date.now();
+    const loopId = `${now}-${Math.random().toString(36).slice(2, 10)}`;
+    return restamp(transaction, now - transaction.timestamp.getTime(), loopId);
+  }, [source, queue]);
+
+  // Move an in-flight transaction into the table
+  const commitTransaction = useCallback((id: string) => {
+    const tx = inFlightRef.current.find(t => t.id === id);
     if (tx) {
-      setDisplayedTransactions(prev =>
-        [tx, ...prev].slice(0, MAX_DISPLAYED_TRANSACTIONS)
-      );
-      setPendingTransaction(null);
-      setReadyForNext(true);
+      inFlightRef.current = inFlightRef.current.filter(t => t.id !== id);
+      setInFlightTransactions(inFlightRef.current);
+      addToHistory([tx]);
+    }
+  }, [addToHistory]);
+
+  const pause = useCallback(() => setIsPaused(true), []);
+
+  const resume = useCallback(() => {
+    setIsPaused(false);
+    // A finite dataset's queue is the rest of the dataset, not a backlog
+    if (source.finite) return;
+    const buffered: Transaction[] = [];
+    for (let tx = queue.take(); tx; tx = queue.take()) buffered.push(tx);
+    addToHistory(buffered);
+    setQueueLength(0);
+  }, [source, queue, addToHistory]);
+
+  const step = useCallback((): Transaction | null => {
+    const [oldestInFlight] = inFlightRef.current;
+    if (oldestInFlight) {
+      commitTransaction(oldestInFlight.id);
+      return oldestInFlight;
     }
-  }, []);
 
-  // Manual refetch (resets the cycle)
+    if (!isReplaying) {
+      const next = getNextTransaction();
+      if (next) addToHistory([next]);
+      return next;
+    }
+
+    // Replay: jump the clock to the next event
+    const next = queue.shift();
+    if (!next) return null;
+    setQueueLength(queue.size());
+    replayTimeRef.current = Math.max(replayTimeRef.current ?? 0, next.timestamp.getTime());
+    setReplayClock(new Date(replayTimeRef.current));
+    const loop = replayLoopRef.current;
+    const tx = loop > 0 ? { ...next, id: `${next.id}-loop${loop}` } : next;
+    addToHistory([tx]);
+    return tx;
+  }, [isReplaying, queue, getNextTransaction, commitTransaction, addToHistory]);
+
+  // Manual refetch: ask the source to fetch now, or restart it from the beginning
   const refetch = useCallback(async () => {
-    setIsLoading(true);
-    currentIndexRef.current = 0;
+    if (source.refresh) {
+      await source.refresh();
+      return;
+    }
+
+    queue.clear();
+    inFlightRef.current = [];
+    replayTimeRef.current = null;
+    setQueueLength(0);
+    setDripMetrics(null);
     setDisplayedTransactions([]);
-    setPendingTransaction(null);
-    setReadyForNext(true);
-    setIsLoading(false);
-  }, []);
+    shownIdsRef.current.clear();
+    setInFlightTransactions([]);
+    setReplayClock(null);
+    setIsReplayFinished(false);
+    setIsHistoryExhausted(false);
+    source.stop();
+    source.start();
+  }, [source, queue]);
 
-  // Drip feed: emit one transaction at a time, only when ready
+  // Sample queue lag and inflow so the UI can show when the feed falls behind
   useEffect(() => {
-    if (isLoading) return;
+    const sample = setInterval(() => {
+      const next = queue.getMetrics(Date.now());
+      setDripMetrics(prev =>
+        prev
+          && prev.queueLength === next.queueLength
+          && prev.intervalMs === next.intervalMs
+          && prev.inflowPerMinute === next.inflowPerMinute
+          && prev.lagMs === next.lagMs
+          ? prev
+          : next
+      );
+    }, METRICS_REFRESH_MS);
+    return () => clearInterval(sample);
+  }, [queue]);
 
-    const drip = setInterval(() => {
-      if (readyForNext && !pendingTxRef.current) {
-        const nextTx = getNextTransaction();
-        setPendingTransaction(nextTx);
-        setReadyForNext(false);
+  // Drip feed: launch one transaction per interval (shorter under backlog),
+  // keeping at most MAX_IN_FLIGHT animating at once
+  useEffect(() => {
+    if (isLoading || isReplaying || isPaused) return;
+
+    let drip: ReturnType<typeof setTimeout>;
+    const emitNext = () => {
+      if (inFlightRef.current.length < MAX_IN_FLIGHT) {
+        let nextTx = getNextTransaction();
+        // Skip past unanimated transactions, without looping a finite source more than once
+        let remaining = queue.size();
+        while (nextTx && !shouldAnimateRef.current(nextTx)) {
+          addToHistory([nextTx]);
+          nextTx = remaining-- > 0 ? getNextTransaction() : null;
+        }
+        if (nextTx) launch(nextTx);
       }
-    }, DRIP_INTERVAL_MS);
+      drip = setTimeout(emitNext, queue.getIntervalMs(Date.now()) / feedSpeed);
+    };
 
-    // Also trigger immediately on first load
-    if (readyForNext && !pendingTransaction) {
-      const nextTx = getNextTransaction();
-      setPendingTransaction(nextTx);
-      setReadyForNext(false);
-    }
+    // Trigger right away on first load (and on resume)
+    drip = setTimeout(emitNext, 0);
+    return () => clearTimeout(drip);
+  }, [isLoading, isReplaying, isPaused, feedSpeed, getNextTransaction, launch, addToHistory, queue]);
+
+  // Replay: advance the simulated clock and release events whose block time has passed
+  useEffect(() => {
+    if (isLoading || !isReplaying || isReplayFinished || isPaused) return;
+
+    let lastTick = performance.now();
+    let lastClockRefresh = 0;
+
+    const tick = () => {
+      const now = performance.now();
+      if (replayTimeRef.current === null) {
+        // Start the clock at the first event, or at a requested later time
+        const first = queue.peek();
+        if (!first) return;
+        const startAt = Math.max(first.timestamp.getTime(), replayFromRef.current?.getTime() ?? 0);
+        replayFromRef.current = null;
+        replayTimeRef.current = startAt;
+        // Events before a requested start are shown without animating them
+        const skipped: Transaction[] = [];
+        for (let next = queue.peek(); next && next.timestamp.getTime() < startAt; next = queue.peek()) {
+          skipped.push(next);
+          queue.shift();
+        }
+        addToHistory(skipped);
+        setQueueLength(queue.size());
+      } else {
+        replayTimeRef.current += (now - lastTick) * replaySpeed;
+      }
+      lastTick = now;
+      const clock = replayTimeRef.current;
+
+      // Take the next due event, with ids kept unique across loops
+      const takeDue = (): Transaction | null => {
+        const next = queue.peek();
+        if (!next || next.timestamp.getTime() > clock) return null;
+        queue.shift();
+        setQueueLength(queue.size());
+        const loop = replayLoopRef.current;
+        return loop > 0 ? { ...next, id: `${next.id}-loop${loop}` } : next;
+      };
+
+      if (inFlightRef.current.length < MAX_IN_FLIGHT) {
+        let due = takeDue();
+        while (due && !shouldAnimateRef.current(due)) {
+          addToHistory([due]);
+          due = takeDue();
+        }
+        const next = queue.peek();
+        if (due) {
+          launch(due);
+        } else if (!next && inFlightRef.current.length === 0 && source.getStatus() === 'complete') {
+          // End of dataset
+          if (replayEnd === 'loop') {
+            replayLoopRef.current += 1;
+            replayTimeRef.current = null;
+            source.stop();
+            source.start();
+          } else {
+            setIsReplayFinished(true);
+          }
+        }
+      }
+
+      if (now - lastClockRefresh >= REPLAY_CLOCK_REFRESH_MS && replayTimeRef.current !== null) {
+        lastClockRefresh = now;
+        setReplayClock(new Date(replayTimeRef.current));
+      }
+    };
+
+    const interval = setInterval(tick, REPLAY_TICK_MS);
+    return () => clearInterval(interval);
+  }, [isLoading, isReplaying, isReplayFinished, isPaused, replaySpeed, replayEnd, source, queue, launch, addToHistory]);
 
-    return () => clearInterval(drip);
-  }, [isLoading, readyForNext, pendingTransaction, getNextTransaction]);
+  const pendingTransaction = inFlightTransactions[0] ?? null;
 
   return {
+    inFlightTransactions,
     pendingTransaction,
     currentTransaction: pendingTransaction, // Legacy alias
     displayedTransactions,
     commitTransaction,
     isLoading,
-    isUsingMockData: false,
-    queueLength: lendingTransactions.length - currentIndexRef.current,
-    error: null,
+    isUsingMockData: source.kind !== 'remote',
+    queueLength,
+    lagMs: dripMetrics?.lagMs ?? 0,
+    inflowPerMinute: dripMetrics?.inflowPerMinute ?? 0,
+    playbackRate: (dripMetrics && !isReplaying ? DRIP_INTERVAL_MS / dripMetrics.intervalMs : 1) * (isReplaying ? 1 : feedSpeed),
+    error,
+    dataQuality,
+    isReplaying,
+    replayClock: isReplaying ? replayClock : null,
+    isReplayFinished,
+    isPaused,
+    pause,
+    resume,
+    step,
+    hasOlderHistory: persistsHistory && !isHistoryExhausted,
+    isLoadingOlderHistory,
+    loadOlderHistory,
     refetch,
   };
 }
@@ -0,0 +1,49 @@
+/**
+ * useReplayHistory Hook
+ *
+ * Events a replay has stored (services/historyStore.ts) within `windowMs`
+ * before the simulated clock, for charts that reach further back than the
+ * rows kept in memory. The range is read again each time the clock moves on by
+ * `refreshMs` of simulated time (or jumps back); events played since are in
+ * memory anyway. Empty when the clock is null (not replaying).
+ */
+
+import { useEffect, useState } from 'react';
+import type { Transaction } from '../types/transaction';
+import type { TransactionSourceId } from '../types/source';
+import { historyStore } from '../services/historyStore';
+import { logWarning } from '../utils/logger';
+
+interface StoredRange {
+  sourceId: TransactionSourceId;
+  end: number;
+  transactions: Transaction[];
+}
+
+export function useReplayHistory(
+  sourceId: TransactionSourceId,
+  replayClock: Date | null,
+  windowMs: number,
+  refreshMs: number
+): Transaction[] {
+  const [range, setRange] = useState<StoredRange | null>(null);
+  // Only a new step of the clock triggers a read
+  const end = replayClock ? Math.floor(replayClock.getTime() / refreshMs) * refreshMs : null;
+
+  useEffect(() => {
+    if (end === null) return;
+    let cancelled = false;
+    historyStore.loadRange(sourceId, new Date(end - windowMs), new Date(end))
+      .then((transactions) => {
+        if (!cancelled) setRange({ sourceId, end, transactions });
+      })
+      .catch((err) => logWarning('History', 'Failed to read replay history', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sourceId, end, windowMs]);
+
+  // A range read for another source, or from before a jump back, does not apply
+  if (end === null || !range || range.sourceId !== sourceId || range.end > end) return [];
+  return range.transactions;
+}
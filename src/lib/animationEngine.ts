@@ -0,0 +1,83 @@
+/**
+ * Animation engine
+ *
+ * One requestAnimationFrame loop shared by every animated element. Callbacks
+ * receive the elapsed engine time since the last frame, so motion is defined
+ * per millisecond instead of per tick and looks the same at any frame rate.
+ * Pausing freezes engine time; on resume animations continue where they were.
+ * Callbacks run in two stages each frame: 'update' (move things) before
+ * 'draw' (paint shared layers such as trails).
+ */
+
+export type FrameStage = 'update' | 'draw';
+
+/** Called once per frame with the engine time elapsed since the last frame and the current engine time */
+export type FrameCallback = (deltaMs: number, timeMs: number) => void;
+
+export interface AnimationEngine {
+  subscribe: (callback: FrameCallback, stage?: FrameStage) => () => void;
+  pause: () => void;
+  resume: () => void;
+  isPaused: () => boolean;
+  /** Engine time in ms (does not advance while paused) */
+  now: () => number;
+}
+
+// Longest step a single frame may take; a backgrounded tab resumes instead of jumping ahead
+const MAX_FRAME_DELTA_MS = 100;
+
+export function createAnimationEngine(): AnimationEngine {
+  const stages: Record<FrameStage, Set<FrameCallback>> = {
+    update: new Set(),
+    draw: new Set(),
+  };
+  let frameId: number | null = null;
+  let lastFrame: number | null = null;
+  let engineTime = 0;
+  let paused = false;
+
+  const hasSubscribers = () => stages.update.size > 0 || stages.draw.size > 0;
+
+  const frame = (timestamp: number) => {
+    const delta = lastFrame === null ? 0 : Math.min(timestamp - lastFrame, MAX_FRAME_DELTA_MS);
+    lastFrame = timestamp;
+    engineTime += delta;
+
+    stages.update.forEach((callback) => callback(delta, engineTime));
+    stages.draw.forEach((callback) => callback(delta, engineTime));
+
+    frameId = hasSubscribers() && !paused ? requestAnimationFrame(frame) : null;
+    if (frameId === null) lastFrame = null;
+  };
+
+  const ensureRunning = () => {
+    if (frameId === null && !paused && hasSubscribers()) {
+      frameId = requestAnimationFrame(frame);
+    }
+  };
+
+  return {
+    subscribe: (callback, stage = 'update') => {
+      stages[stage].add(callback);
+      ensureRunning();
+      return () => {
+        stages[stage].delete(callback);
+      };
+    },
+    pause: () => {
+      paused = true;
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      frameId = null;
+      lastFrame = null;
+    },
+    resume: () => {
+      paused = false;
+      ensureRunning();
+    },
+    isPaused: () => paused,
+    now: () => engineTime,
+  };
+}
+
+/** Engine shared by the orbit, settle and trail animations */
+export const animationEngine = createAnimationEngine();
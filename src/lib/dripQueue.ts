@@ -0,0 +1,171 @@
+/**
+ * Adaptive drip queue
+ *
+ * Buffers transactions between a source and the animation loop. It measures
+ * inflow over a sliding window and, when adaptive, shortens the emit interval
+ * as the backlog grows and folds runs of small, similar events into a single
+ * aggregated entry so a burst can be drained instead of falling further behind.
+ */
+
+import type { Transaction } from '../types/transaction';
+import { sumTokenAmounts } from '../utils/tokenAmount';
+
+export interface DripQueueOptions {
+  /** Interval between emissions when keeping up */
+  baseIntervalMs: number;
+  /** Fastest allowed interval under backpressure */
+  minIntervalMs?: number;
+  /** Speed up and aggregate under backlog; off for finite datasets that arrive all at once */
+  adaptive?: boolean;
+  /** Backlog beyond which small events are aggregated */
+  aggregateBacklog?: number;
+  /** Events below this USD amount may be aggregated */
+  smallEventUsd?: number;
+  /** Maximum events folded into one aggregated entry */
+  maxGroupSize?: number;
+  /** Target time to drain the current backlog */
+  drainWindowMs?: number;
+  /** Sliding window used to measure inflow */
+  inflowWindowMs?: number;
+}
+
+export interface DripQueueMetrics {
+  /** Entries waiting, as pushed by the source (aggregation happens on take, so nothing queued is aggregated) */
+  queueLength: number;
+  /** Events received per minute over the inflow window */
+  inflowPerMinute: number;
+  /** How long the oldest waiting event has been queued */
+  lagMs: number;
+  /** Current interval between emissions */
+  intervalMs: number;
+}
+
+export interface DripQueue {
+  push: (transactions: Transaction[], now: number) => void;
+  /** Next transaction without removing it */
+  peek: () => Transaction | undefined;
+  /** Remove and return the next transaction as-is */
+  shift: () => Transaction | undefined;
+  /** Remove and return the next entry, aggregating small events under backlog */
+  take: () => Transaction | undefined;
+  sort: (compare: (a: Transaction, b: Transaction) => number) => void;
+  clear: () => void;
+  size: () => number;
+  setAdaptive: (adaptive: boolean) => void;
+  getIntervalMs: (now: number) => number;
+  getMetrics: (now: number) => DripQueueMetrics;
+}
+
+interface QueuedTransaction {
+  transaction: Transaction;
+  enqueuedAt: number;
+}
+
+// Events that may share an aggregated entry
+function aggregationKey(tx: Transaction): string {
+  return `${tx.action}:${tx.asset}:${tx.network}:${tx.protocol ?? ''}`;
+}
+
+function aggregate(transactions: Transaction[]): Transaction {
+  const [first] = transactions;
+  const latest = transactions.reduce((a, b) => (b.timestamp > a.timestamp ? b : a));
+
+  return {
+    ...first,
+    id: `group-${first.id}-${transactions.length}`,
+    amountUsd: transactions.reduce((sum, tx) => sum + tx.amountUsd, 0),
+    tokenAmount: sumTokenAmounts(transactions.map((tx) => tx.tokenAmount)),
+    timestamp: latest.timestamp,
+    transactionHash: undefined,
+    // The group stands for all its events, not the first entry's bundle
+    bundle: undefined,
+    aggregatedFrom: transactions,
+  };
+}
+
+export function createDripQueue({
+  baseIntervalMs,
+  minIntervalMs = Math.min(800, baseIntervalMs),
+  adaptive: initialAdaptive = true,
+  aggregateBacklog = 20,
+  smallEventUsd = 10_000,
+  maxGroupSize = 25,
+  drainWindowMs = 30_000,
+  inflowWindowMs = 60_000,
+}: DripQueueOptions): DripQueue {
+  let queue: QueuedTransaction[] = [];
+  let arrivals: number[] = [];
+  let adaptive = initialAdaptive;
+
+  const pruneArrivals = (now: number) => {
+    const cutoff = now - inflowWindowMs;
+    if (arrivals.length > 0 && arrivals[0] < cutoff) {
+      arrivals = arrivals.filter((time) => time >= cutoff);
+    }
+  };
+
+  const getInflowPerMs = (now: number) => {
+    pruneArrivals(now);
+    return arrivals.length / inflowWindowMs;
+  };
+
+  const getIntervalMs = (now: number) => {
+    if (!adaptive || queue.length === 0) return baseIntervalMs;
+    // Keep up with inflow and drain the backlog within the drain window
+    const requiredPerMs = getInflowPerMs(now) + queue.length / drainWindowMs;
+    const interval = 1 / requiredPerMs;
+    return Math.max(minIntervalMs, Math.min(baseIntervalMs, interval));
+  };
+
+  const shift = () => queue.shift()?.transaction;
+
+  return {
+    push: (transactions, now) => {
+      transactions.forEach((transaction) => {
+        queue.push({ transaction, enqueuedAt: now });
+        arrivals.push(now);
+      });
+    },
+    peek: () => queue[0]?.transaction,
+    shift,
+    take: () => {
+      const head = queue[0];
+      if (!head) return undefined;
+      if (!adaptive || queue.length <= aggregateBacklog || head.transaction.amountUsd >= smallEventUsd) {
+        return shift();
+      }
+
+      // Fold later small events of the same kind into the head
+      const key = aggregationKey(head.transaction);
+      const grouped: Transaction[] = [];
+      queue = queue.filter((entry) => {
+        const tx = entry.transaction;
+        if (grouped.length < maxGroupSize && tx.amountUsd < smallEventUsd && aggregationKey(tx) === key) {
+          grouped.push(tx);
+          return false;
+        }
+        return true;
+      });
+
+      return grouped.length === 1 ? grouped[0] : aggregate(grouped);
+    },
+    sort: (compare) => {
+      queue.sort((a, b) => compare(a.transaction, b.transaction));
+    },
+    clear: () => {
+      queue = [];
+      arrivals = [];
+    },
+    size: () => queue.length,
+    setAdaptive: (next) => {
+      adaptive = next;
+    },
+    getIntervalMs,
+    getMetrics: (now) => ({
+      queueLength: queue.length,
+      inflowPerMinute: getInflowPerMs(now) * 60_000,
+      lagMs: queue.length > 0 ? now - queue[0].enqueuedAt : 0,
+      intervalMs: getIntervalMs(now),
+    }),
+  };
+}
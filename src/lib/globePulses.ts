@@ -0,0 +1,79 @@
+/**
+ * Globe pulses
+ *
+ * Each committed transaction leaves a transient marker on the globe at the
+ * transaction's own location when the source supplies one, otherwise at its
+ * network's region. Markers start larger for bigger USD amounts and shrink
+ * away over PULSE_LIFETIME_MS.
+ */
+
+import type { Transaction } from '../types/transaction';
+import type { GeoLocation } from '../data/networkRegions';
+import { getNetworkLocation } from '../data/networkRegions';
+import { getAssetColor } from '../data/chainRegistry';
+
+export interface GlobePulse {
+  id: string;
+  location: GeoLocation;
+  /** Marker size when the pulse is created */
+  size: number;
+  color: string;
+  /** Creation time (ms since epoch) */
+  createdAt: number;
+}
+
+/** A marker as drawn on the globe this frame */
+export interface PulseMarker {
+  location: GeoLocation;
+  size: number;
+  color: string;
+}
+
+export const PULSE_LIFETIME_MS = 20_000;
+// cobe draws a bounded number of markers
+export const MAX_PULSES = 40;
+
+const MIN_PULSE_SIZE = 0.03;
+const MAX_PULSE_SIZE = 0.12;
+// USD amounts mapped onto the size range on a log scale ($100 → min, $10M → max)
+const MIN_SIZED_USD_LOG = 2;
+const MAX_SIZED_USD_LOG = 7;
+
+function getPulseSize(usdAmount: number): number {
+  const magnitude = Math.log10(Math.max(usdAmount, 1));
+  const t = (magnitude - MIN_SIZED_USD_LOG) / (MAX_SIZED_USD_LOG - MIN_SIZED_USD_LOG);
+  return MIN_PULSE_SIZE + (MAX_PULSE_SIZE - MIN_PULSE_SIZE) * Math.min(Math.max(t, 0), 1);
+}
+
+export function createPulse(tx: Transaction, now: number): GlobePulse {
+  return {
+    id: tx.id,
+    location: tx.location ?? getNetworkLocation(tx.network),
+    size: getPulseSize(tx.amountUsd),
+    color: getAssetColor(tx.asset),
+    createdAt: now,
+  };
+}
+
+/** Add a pulse, dropping expired ones and keeping at most MAX_PULSES */
+export function addPulse(pulses: GlobePulse[], pulse: GlobePulse): GlobePulse[] {
+  return [...pulses.filter((p) => pulse.createdAt - p.createdAt < PULSE_LIFETIME_MS), pulse].slice(-MAX_PULSES);
+}
+
+/** Current markers, each shrunk by its age */
+export function getPulseMarkers(pulses: GlobePulse[], now: number): PulseMarker[] {
+  return pulses.flatMap((pulse) => {
+    const remaining = 1 - (now - pulse.createdAt) / PULSE_LIFETIME_MS;
+    if (remaining <= 0) return [];
+    // Ease out so the pulse lingers before disappearing
+    return [{ location: pulse.location, size: pulse.size * Math.sqrt(remaining), color: pulse.color }];
+  });
+}
+
+/** Globe rotation (cobe phi/theta) that brings a location to the front */
+export function locationToAngles([latitude, longitude]: GeoLocation): { phi: number; theta: number } {
+  return {
+    phi: Math.PI - ((longitude * Math.PI) / 180 - Math.PI / 2),
+    theta: (latitude * Math.PI) / 180,
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Speed options offered by the replay and feed controls (and accepted in links)
+ */
+
+import type { FeedSpeed, ReplaySpeed } from '../types/playback';
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 10, 60];
+
+export const FEED_SPEEDS: FeedSpeed[] = [0.5, 1, 2, 4];
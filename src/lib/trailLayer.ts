@@ -0,0 +1,56 @@
+/**
+ * Trail layer
+ *
+ * Collects the trails of every animated dot and paints them onto one canvas,
+ * instead of one DOM node per trail point.
+ */
+
+export interface TrailPoint {
+  x: number;
+  y: number;
+  /** 1 for the newest point, fading to 0 as it ages */
+  life: number;
+  /** Whether the point is in front of the globe (points behind are drawn fainter) */
+  inFront: boolean;
+}
+
+export interface TrailLayer {
+  set: (id: string, points: TrailPoint[], color: string) => void;
+  remove: (id: string) => void;
+  isEmpty: () => boolean;
+  draw: (context: CanvasRenderingContext2D) => void;
+}
+
+// Diameter of the newest trail point
+const TRAIL_POINT_SIZE = 10;
+
+export function createTrailLayer(): TrailLayer {
+  const trails = new Map<string, { points: TrailPoint[]; color: string }>();
+
+  return {
+    set: (id, points, color) => {
+      if (points.length === 0) {
+        trails.delete(id);
+      } else {
+        trails.set(id, { points, color });
+      }
+    },
+    remove: (id) => {
+      trails.delete(id);
+    },
+    isEmpty: () => trails.size === 0,
+    draw: (context) => {
+      trails.forEach(({ points, color }) => {
+        context.fillStyle = color;
+        points.forEach(({ x, y, life, inFront }) => {
+          const radius = (TRAIL_POINT_SIZE / 2) * (0.3 + 0.7 * life);
+          context.globalAlpha = life * 0.5 * (inFront ? 1 : 0.25);
+          context.beginPath();
+          context.arc(x, y, radius, 0, Math.PI * 2);
+          context.fill();
+        });
+      });
+      context.globalAlpha = 1;
+    },
+  };
+}
@@ -0,0 +1,41 @@
+/**
+ * HTTP price source
+ *
+ * Reads USD prices from a JSON endpoint: a prices file served next to the app
+ * (e.g. /prices.json) or a local stand-in oracle. The response is either a flat
+ * map ({"ETH": 3012.5}) or wrapped ({"prices": {"ETH": 3012.5}}).
+ */
+
+import type { PriceSource, PriceTable } from '../types/pricing';
+
+function parsePriceTable(body: unknown): PriceTable {
+  const table = typeof body === 'object' && body !== null && 'prices' in body
+    ? (body as { prices: unknown }).prices
+    : body;
+  if (typeof table !== 'object' || table === null) {
+    throw new Error('Price response is not an object');
+  }
+
+  const prices: PriceTable = {};
+  Object.entries(table).forEach(([symbol, value]) => {
+    const price = typeof value === 'string' ? Number(value) : value;
+    if (typeof price === 'number' && Number.isFinite(price) && price > 0) {
+      prices[symbol] = price;
+    }
+  });
+  return prices;
+}
+
+export function createHttpPriceSource(url: string, label = 'Price feed'): PriceSource {
+  return {
+    id: 'http',
+    label,
+    fetchPrices: async (signal) => {
+      const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`Price source returned ${response.status}`);
+      }
+      return parsePriceTable(await response.json());
+    },
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * Price service
+ *
+ * Keeps the latest USD prices from a pluggable PriceSource and answers price
+ * lookups synchronously, so transactions can be valued as they are ingested.
+ * Bundled reference prices answer until the source first responds, and
+ * stablecoins fall back to $1.
+ */
+
+import type { PriceSnapshot, PriceSource, PriceTable } from '../types/pricing';
+import { getAsset, isStablecoin } from '../data/chainRegistry';
+import { STATIC_PRICES } from '../data/staticPrices';
+import { createStaticPriceSource } from './staticPriceSource';
+import { createHttpPriceSource } from './httpPriceSource';
+import { logWarning } from '../utils/logger';
+
+const PRICE_REFRESH_MS = parseInt(import.meta.env.VITE_PRICE_REFRESH_MS || '60000', 10); // 1 minute
+
+export interface PriceService {
+  start: () => void;
+  stop: () => void;
+  /** USD price of one whole token, or null when unknown */
+  getPrice: (symbol: string) => number | null;
+  getSnapshot: () => PriceSnapshot;
+  /** Be notified when prices change. Returns an unsubscribe function. */
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface PriceServiceOptions {
+  /** Prices used until the source first responds */
+  initialPrices?: PriceTable;
+  /** How often to refetch (0 = fetch once) */
+  refreshMs?: number;
+}
+
+export function createPriceService(
+  source: PriceSource,
+  { initialPrices = STATIC_PRICES, refreshMs = PRICE_REFRESH_MS }: PriceServiceOptions = {}
+): PriceService {
+  const listeners = new Set<() => void>();
+  let snapshot: PriceSnapshot = {
+    prices: { ...initialPrices },
+    sourceLabel: source.label,
+    updatedAt: null,
+    error: null,
+  };
+  let intervalId: ReturnType<typeof setInterval> | null = null;
+  let controller: AbortController | null = null;
+
+  const update = (next: Partial<PriceSnapshot>) => {
+    snapshot = { ...snapshot, ...next };
+    listeners.forEach((listener) => listener());
+  };
+
+  const refresh = async () => {
+    controller?.abort();
+    controller = new AbortController();
+    try {
+      const prices = await source.fetchPrices(controller.signal);
+      update({ prices: { ...snapshot.prices, ...prices }, updatedAt: new Date(), error: null });
+    } catch (err) {
+      if ((err as Error).name === 'AbortError') return;
+      logWarning('Prices', `${source.label} failed`, err);
+      update({ error: (err as Error).message });
+    }
+  };
+
+  return {
+    start: () => {
+      if (intervalId || controller) return;
+      void refresh();
+      if (refreshMs > 0) intervalId = setInterval(() => void refresh(), refreshMs);
+    },
+    stop: () => {
+      if (intervalId) clearInterval(intervalId);
+      intervalId = null;
+      controller?.abort();
+      controller = null;
+    },
+    getPrice: (symbol) => {
+      // Price tables may use a different case than the registry (e.g. "STETH")
+      const canonical = getAsset(symbol)?.symbol ?? symbol;
+      const price = snapshot.prices[canonical]
+        ?? Object.entries(snapshot.prices).find(([key]) => key.toLowerCase() === canonical.toLowerCase())?.[1];
+      if (price !== undefined) return price;
+      return isStablecoin(canonical) ? 1 : null;
+    },
+    getSnapshot: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+}
+
+/** Price source from VITE_PRICE_SOURCE_URL, falling back to the bundled prices */
+export function getDefaultPriceSource(): PriceSource {
+  const url = import.meta.env.VITE_PRICE_SOURCE_URL;
+  return url ? createHttpPriceSource(url, import.meta.env.VITE_PRICE_SOURCE_LABEL || 'Price feed') : createStaticPriceSource();
+}
+
+/** Prices shared by the sources and the UI */
+export const priceService = createPriceService(getDefaultPriceSource());
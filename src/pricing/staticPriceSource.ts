@@ -0,0 +1,14 @@
+/**
+ * Static price source: a fixed table, by default the bundled reference prices
+ */
+
+import type { PriceSource, PriceTable } from '../types/pricing';
+import { STATIC_PRICES } from '../data/staticPrices';
+
+export function createStaticPriceSource(prices: PriceTable = STATIC_PRICES, label = 'Static prices'): PriceSource {
+  return {
+    id: 'static',
+    label,
+    fetchPrices: () => Promise.resolve({ ...prices }),
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Valuation: converting between token quantities and USD with the current prices
+ */
+
+import type { Transaction } from '../types/transaction';
+import { getAsset } from '../data/chainRegistry';
+import { toTokenAmount } from '../utils/tokenAmount';
+import { priceService } from './priceService';
+
+/** USD value of a quantity of whole tokens, or null when the asset has no price */
+export function valueInUsd(quantity: number, asset: string): number | null {
+  const price = priceService.getPrice(asset);
+  return price === null ? null : quantity * price;
+}
+
+/**
+ * Attach an estimated token amount to a transaction that only has a USD value
+ * (e.g. Allium's usd_amount), using the price at ingestion time
+ */
+export function withTokenAmount(tx: Transaction): Transaction {
+  if (tx.tokenAmount) return tx;
+  const price = priceService.getPrice(tx.asset);
+  const decimals = getAsset(tx.asset)?.decimals;
+  if (price === null || decimals === undefined) return tx;
+  const quantity = tx.amountUsd / price;
+  if (!Number.isFinite(quantity)) return tx;
+  return { ...tx, tokenAmount: toTokenAmount(quantity, decimals, true) };
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createAaveV3Adapter } from './aaveV3';
+import { eventTopic } from '../utils/abi';
+import { TX_HASH, encodeData, makeLog, topic } from '../test/logs';
+
+const POOL = '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USER = '0x1111111111111111111111111111111111111111';
+const OTHER = '0x2222222222222222222222222222222222222222';
+
+const SUPPLY = eventTopic('Supply(address,address,address,uint256,uint16)');
+const WITHDRAW = eventTopic('Withdraw(address,address,address,uint256)');
+const BORROW = eventTopic('Borrow(address,address,address,uint256,uint8,uint256,uint16)');
+const REPAY = eventTopic('Repay(address,address,address,uint256,bool)');
+const LIQUIDATION_CALL = eventTopic('LiquidationCall(address,address,address,uint256,uint256,address,bool)');
+
+describe('createAaveV3Adapter', () => {
+  const adapter = createAaveV3Adapter(POOL);
+
+  it('decodes supplies, withdrawals and repayments of the reserve', async () => {
+    const events = await adapter.decodeLogs([
+      makeLog(POOL, [SUPPLY, topic(USDC), topic(USER), topic('0x0')], encodeData(OTHER, 1_000_000n), 3),
+      makeLog(POOL, [WITHDRAW, topic(USDC), topic(USER), topic(OTHER)], encodeData(500_000n), 4),
+      makeLog(POOL, [REPAY, topic(USDC), topic(USER), topic(OTHER)], encodeData(250_000n, 0n), 5),
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ lendingEvent: 'deposits', walletAddress: USER, token: USDC, amount: 1_000_000n, logIndex: 3 }),
+      expect.objectContaining({ lendingEvent: 'withdrawals', walletAddress: USER, token: USDC, amount: 500_000n, logIndex: 4 }),
+      expect.objectContaining({ lendingEvent: 'repayments', walletAddress: USER, token: USDC, amount: 250_000n, logIndex: 5 }),
+    ]);
+    expect(events[0]).toMatchObject({ protocol: 'aave_v3', transactionHash: TX_HASH, blockNumber: 16n });
+  });
+
+  it('turns the borrow rate into an APY', async () => {
+    // 5% APR as a ray
+    const rate = 5n * 10n ** 25n;
+    const [event] = await adapter.decodeLogs([
+      makeLog(POOL, [BORROW, topic(USDC), topic(USER), topic('0x0')], encodeData(OTHER, 2_000_000n, 2n, rate)),
+    ]);
+
+    expect(event).toMatchObject({ lendingEvent: 'loans', walletAddress: USER, amount: 2_000_000n });
+    expect(event.apy).toBeCloseTo(Math.expm1(0.05) * 100, 6);
+  });
+
+  it('reports liquidations in the debt asset with the seized collateral', async () => {
+    const [event] = await adapter.decodeLogs([
+      makeLog(POOL, [LIQUIDATION_CALL, topic(WETH), topic(USDC), topic(USER)], encodeData(750_000n, 10n ** 18n, OTHER, 0n)),
+    ]);
+
+    expect(event).toMatchObject({
+      lendingEvent: 'liquidations',
+      walletAddress: USER,
+      token: USDC,
+      amount: 750_000n,
+      collateralToken: WETH,
+      collateralAmount: 10n ** 18n,
+    });
+  });
+
+  it('skips removed logs, other contracts and unknown events', async () => {
+    const supply = makeLog(POOL, [SUPPLY, topic(USDC), topic(USER), topic('0x0')], encodeData(OTHER, 1n));
+    const events = await adapter.decodeLogs([
+      { ...supply, removed: true },
+      { ...supply, address: OTHER },
+      makeLog(POOL, [eventTopic('ReserveDataUpdated(address,uint256,uint256,uint256,uint256,uint256)'), topic(USDC)], '0x'),
+    ]);
+
+    expect(events).toEqual([]);
+  });
+});
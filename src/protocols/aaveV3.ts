@@ -0,0 +1,131 @@
+/**
+ * Aave v3 log decoder
+ *
+ * Decodes Supply, Withdraw, Borrow, Repay and LiquidationCall events from an
+ * Aave v3 Pool. Every event names its reserve token directly, so no contract
+ * reads are needed. Borrow events also carry the borrow rate at the time,
+ * which becomes the transaction's APY.
+ *
+ * Pools other than the built-in mainnet ones are configured per network:
+ *
+ *   VITE_AAVE_V3_POOLS={"Ethereum":"0x..."}
+ */
+
+import type { Network } from '../types/transaction';
+import type { OnchainLendingEvent, ProtocolAdapter } from '../types/protocol';
+import type { RpcLog } from '../services/rpc';
+import { eventTopic, readWord, wordToAddress, wordToBigInt } from '../utils/abi';
+import { getDeployment, parseDeployments } from './deployments';
+import type { Deployments } from './deployments';
+
+export const AAVE_V3_PROTOCOL = 'aave_v3';
+
+const DEFAULT_POOLS: Deployments = {
+  Ethereum: ['0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2'],
+  Base: ['0xA238Dd80C259a72e81d7e4664a9801593F98d1c5'],
+  Arbitrum: ['0x794a61358D6845594F94dc1DB02A252b5b4814aD'],
+  Optimism: ['0x794a61358D6845594F94dc1DB02A252b5b4814aD'],
+};
+
+const TOPICS = {
+  supply: eventTopic('Supply(address,address,address,uint256,uint16)'),
+  withdraw: eventTopic('Withdraw(address,address,address,uint256)'),
+  borrow: eventTopic('Borrow(address,address,address,uint256,uint8,uint256,uint16)'),
+  repay: eventTopic('Repay(address,address,address,uint256,bool)'),
+  liquidationCall: eventTopic('LiquidationCall(address,address,address,uint256,uint256,address,bool)'),
+};
+
+// Rates are rays (1e27 = 100% APR); keep 1e-6 precision when converting to a float
+const RAY_TO_MICRO_DIVISOR = 10n ** 21n;
+
+const poolOverrides = parseDeployments(import.meta.env.VITE_AAVE_V3_POOLS, 'VITE_AAVE_V3_POOLS');
+
+/** Aave v3 Pool on a network, if one is deployed there */
+export function getAaveV3PoolAddress(network: Network): string | undefined {
+  return getDeployment(DEFAULT_POOLS, poolOverrides, network)[0];
+}
+
+// Aave accrues borrow interest per second, so the APY is e^APR - 1
+function rayRateToApy(rate: bigint): number {
+  const apr = Number(rate / RAY_TO_MICRO_DIVISOR) / 1_000_000;
+  return Math.expm1(apr) * 100;
+}
+
+function decodeLog(log: RpcLog): OnchainLendingEvent | null {
+  const [topic0, topic1, topic2, topic3] = log.topics;
+  if (!topic1) return null;
+
+  const base = {
+    protocol: AAVE_V3_PROTOCOL,
+    transactionHash: log.transactionHash,
+    blockNumber: BigInt(log.blockNumber),
+    logIndex: Number(BigInt(log.logIndex)),
+    token: wordToAddress(topic1),
+  };
+
+  switch (topic0) {
+    // Supply: (reserve, onBehalfOf, referralCode) indexed; data: user, amount
+    case TOPICS.supply:
+      return {
+        ...base,
+        lendingEvent: 'deposits',
+        walletAddress: wordToAddress(topic2),
+        amount: wordToBigInt(readWord(log.data, 1)),
+      };
+    // Withdraw: (reserve, user, to) indexed; data: amount
+    case TOPICS.withdraw:
+      return {
+        ...base,
+        lendingEvent: 'withdrawals',
+        walletAddress: wordToAddress(topic2),
+        amount: wordToBigInt(readWord(log.data, 0)),
+      };
+    // Borrow: (reserve, onBehalfOf, referralCode) indexed;
+    // data: user, amount, interestRateMode, borrowRate
+    case TOPICS.borrow:
+      return {
+        ...base,
+        lendingEvent: 'loans',
+        walletAddress: wordToAddress(topic2),
+        amount: wordToBigInt(readWord(log.data, 1)),
+        apy: rayRateToApy(wordToBigInt(readWord(log.data, 3))),
+      };
+    // Repay: (reserve, user, repayer) indexed; data: amount, useATokens
+    case TOPICS.repay:
+      return {
+        ...base,
+        lendingEvent: 'repayments',
+        walletAddress: wordToAddress(topic2),
+        amount: wordToBigInt(readWord(log.data, 0)),
+      };
+    // LiquidationCall: (collateralAsset, debtAsset, user) indexed;
+    // data: debtToCover, liquidatedCollateralAmount, liquidator, receiveAToken
+    case TOPICS.liquidationCall:
+      return {
+        ...base,
+        lendingEvent: 'liquidations',
+        walletAddress: wordToAddress(topic3),
+        token: wordToAddress(topic2),
+        amount: wordToBigInt(readWord(log.data, 0)),
+        collateralToken: wordToAddress(topic1),
+        collateralAmount: wordToBigInt(readWord(log.data, 1)),
+      };
+    default:
+      return null;
+  }
+}
+
+export function createAaveV3Adapter(address: string): ProtocolAdapter {
+  const target = address.toLowerCase();
+
+  return {
+    protocol: AAVE_V3_PROTOCOL,
+    addresses: [address],
+    topics: Object.values(TOPICS),
+    decodeLogs: async (logs) =>
+      logs
+        .filter((log) => !log.removed && log.address.toLowerCase() === target)
+        .map(decodeLog)
+        .filter((event): event is OnchainLendingEvent => event !== null),
+  };
+}
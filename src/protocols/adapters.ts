@@ -0,0 +1,26 @@
+/**
+ * Protocol adapters available on each network
+ */
+
+import type { Network } from '../types/transaction';
+import type { ProtocolAdapter } from '../types/protocol';
+import type { RpcClient } from '../services/rpc';
+import { createMorphoBlueAdapter, getMorphoBlueAddress } from './morphoBlue';
+import { createAaveV3Adapter, getAaveV3PoolAddress } from './aaveV3';
+import { createCompoundV3Adapter, getCompoundV3Markets } from './compoundV3';
+
+/** An adapter for every protocol deployed (or configured) on the network */
+export function createProtocolAdapters(client: RpcClient, network: Network): ProtocolAdapter[] {
+  const adapters: ProtocolAdapter[] = [];
+
+  const morphoAddress = getMorphoBlueAddress(network);
+  if (morphoAddress) adapters.push(createMorphoBlueAdapter(client, network, morphoAddress));
+
+  const aavePool = getAaveV3PoolAddress(network);
+  if (aavePool) adapters.push(createAaveV3Adapter(aavePool));
+
+  const comets = getCompoundV3Markets(network);
+  if (comets.length > 0) adapters.push(createCompoundV3Adapter(client, network, comets));
+
+  return adapters;
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createCompoundV3Adapter } from './compoundV3';
+import type { RpcClient } from '../services/rpc';
+import { ZERO_ADDRESS, eventTopic } from '../utils/abi';
+import { encodeData, makeLog, topic } from '../test/logs';
+
+const COMET = '0xc3d688B66703497DAA19211EEdff47f25384cdc3';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const WBTC = '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599';
+const USER = '0x1111111111111111111111111111111111111111';
+const ABSORBER = '0x2222222222222222222222222222222222222222';
+
+const SUPPLY = eventTopic('Supply(address,address,uint256)');
+const WITHDRAW = eventTopic('Withdraw(address,address,uint256)');
+const SUPPLY_COLLATERAL = eventTopic('SupplyCollateral(address,address,address,uint256)');
+const ABSORB_DEBT = eventTopic('AbsorbDebt(address,address,uint256,uint256)');
+const ABSORB_COLLATERAL = eventTopic('AbsorbCollateral(address,address,address,uint256,uint256)');
+const TRANSFER = eventTopic('Transfer(address,address,uint256)');
+
+function createClient(): RpcClient & { call: ReturnType<typeof vi.fn> } {
+  return {
+    url: 'http://127.0.0.1:8545',
+    getBlockNumber: vi.fn(),
+    getLogs: vi.fn(),
+    getBlockTimestamp: vi.fn(),
+    call: vi.fn(async () => encodeData(USDC)),
+  };
+}
+
+const supply = (amount: bigint, logIndex: number) =>
+  makeLog(COMET, [SUPPLY, topic(USER), topic(USER)], encodeData(amount), logIndex);
+const withdraw = (amount: bigint, logIndex: number) =>
+  makeLog(COMET, [WITHDRAW, topic(USER), topic(USER)], encodeData(amount), logIndex);
+const transfer = (from: string, to: string, amount: bigint, logIndex: number) =>
+  makeLog(COMET, [TRANSFER, topic(from), topic(to)], encodeData(amount), logIndex);
+
+describe('createCompoundV3Adapter', () => {
+  it('reads a Supply with a mint as a deposit of the base token', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([supply(1_000_000n, 1), transfer(ZERO_ADDRESS, USER, 1_000_000n, 2)]);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        protocol: 'compound_v3',
+        lendingEvent: 'deposits',
+        walletAddress: USER,
+        token: USDC,
+        amount: 1_000_000n,
+        marketName: 'cUSDCv3',
+        logIndex: 2,
+      }),
+    ]);
+  });
+
+  it('reads a Supply without a mint as a repayment', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([supply(1_000_000n, 1)]);
+
+    expect(events).toEqual([expect.objectContaining({ lendingEvent: 'repayments', amount: 1_000_000n, logIndex: 1 })]);
+  });
+
+  it('splits a Supply that repays a debt and then deposits the rest', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([supply(1_000_000n, 1), transfer(ZERO_ADDRESS, USER, 400_000n, 2)]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ lendingEvent: 'deposits', amount: 400_000n }),
+      expect.objectContaining({ lendingEvent: 'repayments', amount: 600_000n }),
+    ]);
+  });
+
+  it('ignores mint rounding dust', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([supply(1_000_000n, 1), transfer(ZERO_ADDRESS, USER, 999_999n, 2)]);
+
+    expect(events).toEqual([expect.objectContaining({ lendingEvent: 'deposits', amount: 1_000_000n })]);
+  });
+
+  it('reads a Withdraw with a burn as a withdrawal and without one as a borrow', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([
+      transfer(USER, ZERO_ADDRESS, 300_000n, 1),
+      withdraw(300_000n, 2),
+      makeLog(COMET, [WITHDRAW, topic(USER), topic(USER)], encodeData(200_000n), 5, { transactionHash: `0x${'cd'.repeat(32)}` }),
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({ lendingEvent: 'withdrawals', amount: 300_000n, logIndex: 1 }),
+      expect.objectContaining({ lendingEvent: 'loans', amount: 200_000n }),
+    ]);
+  });
+
+  it('reports collateral supplied in the collateral token', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const [event] = await adapter.decodeLogs([
+      makeLog(COMET, [SUPPLY_COLLATERAL, topic(USER), topic(USER), topic(WETH)], encodeData(10n ** 18n)),
+    ]);
+
+    expect(event).toMatchObject({
+      lendingEvent: 'deposits',
+      token: WETH,
+      amount: 10n ** 18n,
+      collateralToken: WETH,
+      collateralAmount: 10n ** 18n,
+    });
+  });
+
+  it('reports absorbs with the largest seized collateral', async () => {
+    const adapter = createCompoundV3Adapter(createClient(), 'Ethereum', [COMET]);
+    const [event, ...rest] = await adapter.decodeLogs([
+      makeLog(COMET, [ABSORB_COLLATERAL, topic(ABSORBER), topic(USER), topic(WETH)], encodeData(10n ** 18n, 3000n), 1),
+      makeLog(COMET, [ABSORB_COLLATERAL, topic(ABSORBER), topic(USER), topic(WBTC)], encodeData(10n ** 7n, 6000n), 2),
+      makeLog(COMET, [ABSORB_DEBT, topic(ABSORBER), topic(USER)], encodeData(8_000_000_000n, 8000n), 3),
+    ]);
+
+    expect(rest).toEqual([]);
+    expect(event).toMatchObject({
+      lendingEvent: 'liquidations',
+      walletAddress: USER,
+      token: USDC,
+      amount: 8_000_000_000n,
+      collateralToken: WBTC,
+      collateralAmount: 10n ** 7n,
+    });
+  });
+
+  it('skips removed logs and other contracts', async () => {
+    const client = createClient();
+    const adapter = createCompoundV3Adapter(client, 'Ethereum', [COMET]);
+    const events = await adapter.decodeLogs([{ ...supply(1n, 1), removed: true }, { ...supply(1n, 2), address: USER }]);
+
+    expect(events).toEqual([]);
+    expect(client.call).not.toHaveBeenCalled();
+  });
+});
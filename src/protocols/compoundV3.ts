@@ -0,0 +1,214 @@
+/**
+ * Compound v3 (Comet) log decoder
+ *
+ * Each Comet market lends one base token against several collateral tokens.
+ * Comet folds repaying into Supply and borrowing into Withdraw: the part of a
+ * Supply that creates a balance is paired with a Transfer mint, and the part of
+ * a Withdraw that comes out of a balance with a Transfer burn. The remainder is
+ * the repay or borrow, so one Supply/Withdraw can become two events.
+ *
+ * Liquidations (absorbs) emit AbsorbDebt plus one AbsorbCollateral per seized
+ * asset; the largest seized collateral (by USD) is reported.
+ *
+ * Markets other than the built-in mainnet ones are configured per network:
+ *
+ *   VITE_COMPOUND_V3_MARKETS={"Ethereum":["0x...","0x..."]}
+ */
+
+import type { Network } from '../types/transaction';
+import type { OnchainLendingEvent, ProtocolAdapter } from '../types/protocol';
+import type { RpcClient, RpcLog } from '../services/rpc';
+import { getAssetByAddress } from '../data/chainRegistry';
+import { truncateAddress } from '../utils/formatters';
+import { ZERO_ADDRESS, eventTopic, functionSelector, readWord, wordToAddress, wordToBigInt } from '../utils/abi';
+import { getDeployment, parseDeployments } from './deployments';
+import type { Deployments } from './deployments';
+
+export const COMPOUND_V3_PROTOCOL = 'compound_v3';
+
+const DEFAULT_MARKETS: Deployments = {
+  Ethereum: [
+    '0xc3d688B66703497DAA19211EEdff47f25384cdc3', // cUSDCv3
+    '0xA17581A9E3356d9A858b789D68B4d866e593aE94', // cWETHv3
+    '0x3Afdc9BCA9213A35503b077a6072F3D0d5AB0840', // cUSDTv3
+  ],
+  Base: [
+    '0xb125E6687d4313864e53df431d5425969c15Eb2F', // cUSDCv3
+    '0x46e6b214b524310239732D51387075E0e70970bf', // cWETHv3
+  ],
+  Arbitrum: ['0x9c4ec768c28520B50860ea7a15bd7213a9fF58bf'], // cUSDCv3
+  Optimism: ['0x2e44e174f7D53F0212823acC11C01A11d58c5bCB'], // cUSDCv3
+};
+
+const TOPICS = {
+  supply: eventTopic('Supply(address,address,uint256)'),
+  withdraw: eventTopic('Withdraw(address,address,uint256)'),
+  supplyCollateral: eventTopic('SupplyCollateral(address,address,address,uint256)'),
+  absorbDebt: eventTopic('AbsorbDebt(address,address,uint256,uint256)'),
+  absorbCollateral: eventTopic('AbsorbCollateral(address,address,address,uint256,uint256)'),
+  transfer: eventTopic('Transfer(address,address,uint256)'),
+};
+
+const BASE_TOKEN = functionSelector('baseToken()');
+
+// Mint/burn amounts are present values and can differ from the principal change by rounding
+const ROUNDING_TOLERANCE_DIVISOR = 10_000n;
+
+const marketOverrides = parseDeployments(import.meta.env.VITE_COMPOUND_V3_MARKETS, 'VITE_COMPOUND_V3_MARKETS');
+
+/** Comet markets on a network */
+export function getCompoundV3Markets(network: Network): string[] {
+  return getDeployment(DEFAULT_MARKETS, marketOverrides, network);
+}
+
+interface DecodedTransfer {
+  log: RpcLog;
+  from: string;
+  to: string;
+  amount: bigint;
+}
+
+// Split `total` into the part backed by a balance change and the rest, ignoring rounding dust
+function splitAmount(total: bigint, balanceChange: bigint): [bigint, bigint] {
+  const fromBalance = balanceChange > total ? total : balanceChange;
+  const remainder = total - fromBalance;
+  return remainder <= total / ROUNDING_TOLERANCE_DIVISOR ? [total, 0n] : [fromBalance, remainder];
+}
+
+export function createCompoundV3Adapter(client: RpcClient, network: Network, addresses: string[]): ProtocolAdapter {
+  const markets = new Set(addresses.map((address) => address.toLowerCase()));
+  const baseTokens = new Map<string, Promise<string>>();
+
+  const getBaseToken = (comet: string, signal?: AbortSignal): Promise<string> => {
+    let baseToken = baseTokens.get(comet);
+    if (!baseToken) {
+      baseToken = client.call(comet, BASE_TOKEN, signal).then((result) => wordToAddress(readWord(result, 0)));
+      // Forget failed lookups so the next poll retries them
+      baseToken.catch(() => baseTokens.delete(comet));
+      baseTokens.set(comet, baseToken);
+    }
+    return baseToken;
+  };
+
+  // Decode the events of one market within one transaction
+  const decodeTransaction = async (comet: string, logs: RpcLog[], signal?: AbortSignal): Promise<OnchainLendingEvent[]> => {
+    const baseToken = await getBaseToken(comet, signal);
+    const baseSymbol = getAssetByAddress(network, baseToken)?.symbol ?? truncateAddress(baseToken);
+    const event = (log: RpcLog) => ({
+      protocol: COMPOUND_V3_PROTOCOL,
+      transactionHash: log.transactionHash,
+      blockNumber: BigInt(log.blockNumber),
+      logIndex: Number(BigInt(log.logIndex)),
+      token: baseToken,
+      marketName: `c${baseSymbol}v3`,
+    });
+
+    // Each mint/burn pairs with at most one Supply/Withdraw
+    const transfers: DecodedTransfer[] = logs
+      .filter((log) => log.topics[0] === TOPICS.transfer)
+      .map((log) => ({
+        log,
+        from: wordToAddress(log.topics[1]),
+        to: wordToAddress(log.topics[2]),
+        amount: wordToBigInt(readWord(log.data, 0)),
+      }));
+    const takeTransfer = (match: (transfer: DecodedTransfer) => boolean): DecodedTransfer | undefined => {
+      const index = transfers.findIndex(match);
+      return index === -1 ? undefined : transfers.splice(index, 1)[0];
+    };
+
+    const events: OnchainLendingEvent[] = [];
+    logs.forEach((log) => {
+      const [topic0, topic1, topic2, topic3] = log.topics;
+      switch (topic0) {
+        // Supply: (from, dst) indexed; data: amount. Minted part is a deposit, the rest a repayment.
+        case TOPICS.supply: {
+          const wallet = wordToAddress(topic2);
+          const amount = wordToBigInt(readWord(log.data, 0));
+          const mint = takeTransfer((t) => t.from === ZERO_ADDRESS && t.to === wallet);
+          const [deposited, repaid] = splitAmount(amount, mint?.amount ?? 0n);
+          if (deposited > 0n) {
+            events.push({ ...event(mint?.log ?? log), lendingEvent: 'deposits', walletAddress: wallet, amount: deposited });
+          }
+          if (repaid > 0n) {
+            events.push({ ...event(log), lendingEvent: 'repayments', walletAddress: wallet, amount: repaid });
+          }
+          break;
+        }
+        // Withdraw: (src, to) indexed; data: amount. Burned part is a withdrawal, the rest a borrow.
+        case TOPICS.withdraw: {
+          const wallet = wordToAddress(topic1);
+          const amount = wordToBigInt(readWord(log.data, 0));
+          const burn = takeTransfer((t) => t.from === wallet && t.to === ZERO_ADDRESS);
+          const [withdrawn, borrowed] = splitAmount(amount, burn?.amount ?? 0n);
+          if (withdrawn > 0n) {
+            events.push({ ...event(burn?.log ?? log), lendingEvent: 'withdrawals', walletAddress: wallet, amount: withdrawn });
+          }
+          if (borrowed > 0n) {
+            events.push({ ...event(log), lendingEvent: 'loans', walletAddress: wallet, amount: borrowed });
+          }
+          break;
+        }
+        // SupplyCollateral: (from, dst, asset) indexed; data: amount
+        case TOPICS.supplyCollateral: {
+          const collateralToken = wordToAddress(topic3);
+          const amount = wordToBigInt(readWord(log.data, 0));
+          events.push({
+            ...event(log),
+            lendingEvent: 'deposits',
+            walletAddress: wordToAddress(topic2),
+            token: collateralToken,
+            amount,
+            collateralToken,
+            collateralAmount: amount,
+          });
+          break;
+        }
+        // AbsorbDebt: (absorber, borrower) indexed; data: basePaidOut, usdValue
+        case TOPICS.absorbDebt: {
+          const borrower = wordToAddress(topic2);
+          // AbsorbCollateral: (absorber, borrower, asset) indexed; data: collateralAbsorbed, usdValue
+          const seized = logs
+            .filter((other) => other.topics[0] === TOPICS.absorbCollateral && wordToAddress(other.topics[2]) === borrower)
+            .map((other) => ({
+              token: wordToAddress(other.topics[3]),
+              amount: wordToBigInt(readWord(other.data, 0)),
+              usdValue: wordToBigInt(readWord(other.data, 1)),
+            }))
+            .sort((a, b) => (a.usdValue === b.usdValue ? 0 : a.usdValue > b.usdValue ? -1 : 1))[0];
+          events.push({
+            ...event(log),
+            lendingEvent: 'liquidations',
+            walletAddress: borrower,
+            amount: wordToBigInt(readWord(log.data, 0)),
+            ...(seized ? { collateralToken: seized.token, collateralAmount: seized.amount } : {}),
+          });
+          break;
+        }
+      }
+    });
+    return events;
+  };
+
+  return {
+    protocol: COMPOUND_V3_PROTOCOL,
+    addresses,
+    topics: Object.values(TOPICS),
+    decodeLogs: async (logs, signal) => {
+      // Group by market and transaction so mints/burns pair with their Supply/Withdraw
+      const groups = new Map<string, RpcLog[]>();
+      logs
+        .filter((log) => !log.removed && markets.has(log.address.toLowerCase()))
+        .sort((a, b) => Number(BigInt(a.logIndex) - BigInt(b.logIndex)))
+        .forEach((log) => {
+          const key = `${log.address.toLowerCase()}:${log.transactionHash}`;
+          groups.set(key, [...(groups.get(key) ?? []), log]);
+        });
+
+      const decoded = await Promise.all(
+        [...groups.values()].map((group) => decodeTransaction(group[0].address.toLowerCase(), group, signal))
+      );
+      return decoded.flat();
+    },
+  };
+}
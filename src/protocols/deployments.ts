@@ -0,0 +1,47 @@
+/**
+ * Protocol contract addresses per network
+ *
+ * Each adapter ships the addresses of its mainnet deployments and accepts
+ * overrides (e.g. contracts deployed on a local anvil chain) as JSON keyed by
+ * network name, alias or chain id, with one address or a list per network.
+ */
+
+import type { Network } from '../types/transaction';
+import { resolveNetwork } from '../data/chainRegistry';
+import { logWarning } from '../utils/logger';
+
+export type Deployments = Partial<Record<Network, string[]>>;
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+/** Parse {"Ethereum": "0x...", "Base": ["0x...", "0x..."]} from configuration */
+export function parseDeployments(json: string | undefined, name: string): Deployments {
+  if (!json) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected an object');
+    }
+
+    const deployments: Deployments = {};
+    Object.entries(parsed).forEach(([key, value]) => {
+      const network = resolveNetwork(key)?.name;
+      const addresses: unknown[] = Array.isArray(value) ? value : [value];
+      if (network && addresses.every((address) => typeof address === 'string' && ADDRESS_PATTERN.test(address))) {
+        deployments[network] = addresses as string[];
+      } else {
+        logWarning('Protocols', `Ignoring ${name} entry for ${key}: ${JSON.stringify(value)}`);
+      }
+    });
+    return deployments;
+  } catch (err) {
+    logWarning('Protocols', `${name} is not valid JSON`, err);
+    return {};
+  }
+}
+
+/** Configured addresses for a network, falling back to the built-in ones */
+export function getDeployment(builtIn: Deployments, overrides: Deployments, network: Network): string[] {
+  return overrides[network] ?? builtIn[network] ?? [];
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createMorphoBlueAdapter } from './morphoBlue';
+import type { RpcClient } from '../services/rpc';
+import { ZERO_ADDRESS, eventTopic, functionSelector } from '../utils/abi';
+import { encodeData, makeLog, topic } from '../test/logs';
+
+const MORPHO = '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USER = '0x1111111111111111111111111111111111111111';
+const CALLER = '0x2222222222222222222222222222222222222222';
+const MARKET_ID = `0x${'0a'.repeat(32)}`;
+const IDLE_MARKET_ID = `0x${'0b'.repeat(32)}`;
+
+const SUPPLY = eventTopic('Supply(bytes32,address,address,uint256,uint256)');
+const BORROW = eventTopic('Borrow(bytes32,address,address,address,uint256,uint256)');
+const SUPPLY_COLLATERAL = eventTopic('SupplyCollateral(bytes32,address,address,uint256)');
+const LIQUIDATE = eventTopic('Liquidate(bytes32,address,address,uint256,uint256,uint256,uint256,uint256)');
+
+// idToMarketParams: loanToken, collateralToken, oracle, irm, lltv
+function createClient(): RpcClient & { call: ReturnType<typeof vi.fn> } {
+  return {
+    url: 'http://127.0.0.1:8545',
+    getBlockNumber: vi.fn(),
+    getLogs: vi.fn(),
+    getBlockTimestamp: vi.fn(),
+    call: vi.fn(async (_to: string, data: string) => {
+      const idle = data.endsWith(IDLE_MARKET_ID.slice(2));
+      return encodeData(USDC, idle ? ZERO_ADDRESS : WETH, ZERO_ADDRESS, ZERO_ADDRESS, idle ? 0n : 86n * 10n ** 16n);
+    }),
+  };
+}
+
+describe('createMorphoBlueAdapter', () => {
+  it('decodes supplies and borrows in the market loan token', async () => {
+    const adapter = createMorphoBlueAdapter(createClient(), 'Ethereum', MORPHO);
+    const events = await adapter.decodeLogs([
+      makeLog(MORPHO, [SUPPLY, MARKET_ID, topic(CALLER), topic(USER)], encodeData(1_000_000n, 999n), 1),
+      makeLog(MORPHO, [BORROW, MARKET_ID, topic(USER), topic(CALLER)], encodeData(CALLER, 400_000n, 399n), 2),
+    ]);
+
+    expect(events).toEqual([
+      expect.objectContaining({
+        protocol: 'morpho_blue',
+        lendingEvent: 'deposits',
+        walletAddress: USER,
+        token: USDC,
+        amount: 1_000_000n,
+        marketName: 'WETH/USDC (86% LLTV)',
+      }),
+      expect.objectContaining({
+        lendingEvent: 'loans',
+        walletAddress: USER,
+        token: USDC,
+        amount: 400_000n,
+        collateralToken: WETH,
+      }),
+    ]);
+  });
+
+  it('reads each market once', async () => {
+    const client = createClient();
+    const adapter = createMorphoBlueAdapter(client, 'Ethereum', MORPHO);
+    const supply = makeLog(MORPHO, [SUPPLY, MARKET_ID, topic(CALLER), topic(USER)], encodeData(1n, 1n));
+    await adapter.decodeLogs([supply, { ...supply, logIndex: '0x1' }]);
+    await adapter.decodeLogs([supply]);
+
+    expect(client.call).toHaveBeenCalledTimes(1);
+    expect(client.call).toHaveBeenCalledWith(
+      MORPHO,
+      `${functionSelector('idToMarketParams(bytes32)')}${MARKET_ID.slice(2)}`,
+      undefined
+    );
+  });
+
+  it('reports collateral supplied in the collateral token', async () => {
+    const adapter = createMorphoBlueAdapter(createClient(), 'Ethereum', MORPHO);
+    const [event] = await adapter.decodeLogs([
+      makeLog(MORPHO, [SUPPLY_COLLATERAL, MARKET_ID, topic(CALLER), topic(USER)], encodeData(10n ** 18n)),
+    ]);
+
+    expect(event).toMatchObject({
+      lendingEvent: 'deposits',
+      walletAddress: USER,
+      token: WETH,
+      amount: 10n ** 18n,
+      collateralToken: WETH,
+      collateralAmount: 10n ** 18n,
+    });
+  });
+
+  it('reports liquidations with the repaid debt and seized collateral', async () => {
+    const adapter = createMorphoBlueAdapter(createClient(), 'Ethereum', MORPHO);
+    const [event] = await adapter.decodeLogs([
+      makeLog(MORPHO, [LIQUIDATE, MARKET_ID, topic(CALLER), topic(USER)], encodeData(500_000n, 499n, 3n * 10n ** 17n, 0n, 0n)),
+    ]);
+
+    expect(event).toMatchObject({
+      lendingEvent: 'liquidations',
+      walletAddress: USER,
+      amount: 500_000n,
+      collateralToken: WETH,
+      collateralAmount: 3n * 10n ** 17n,
+    });
+  });
+
+  it('names idle markets by their loan token', async () => {
+    const adapter = createMorphoBlueAdapter(createClient(), 'Ethereum', MORPHO);
+    const [event] = await adapter.decodeLogs([
+      makeLog(MORPHO, [SUPPLY, IDLE_MARKET_ID, topic(CALLER), topic(USER)], encodeData(1n, 1n)),
+    ]);
+
+    expect(event.marketName).toBe('USDC (idle)');
+  });
+
+  it('skips removed logs and other contracts', async () => {
+    const client = createClient();
+    const adapter = createMorphoBlueAdapter(client, 'Ethereum', MORPHO);
+    const supply = makeLog(MORPHO, [SUPPLY, MARKET_ID, topic(CALLER), topic(USER)], encodeData(1n, 1n));
+    const events = await adapter.decodeLogs([{ ...supply, removed: true }, { ...supply, address: CALLER }]);
+
+    expect(events).toEqual([]);
+    expect(client.call).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Morpho Blue log decoder
+ *
+ * Decodes Supply, Withdraw, Borrow, Repay, SupplyCollateral and Liquidate
+ * events from the Morpho Blue singleton. Events only carry the market id, so
+ * each market's loan/collateral tokens and LLTV are read once with
+ * idToMarketParams(id) and cached.
+ *
+ * Morpho Blue shares one address on Ethereum and Base. Other deployments (or a
+ * contract deployed on a local anvil chain) are configured per network:
+ *
+ *   VITE_MORPHO_BLUE_ADDRESSES={"Arbitrum":"0x..."}
+ */
+
+import type { Network } from '../types/transaction';
+import type { OnchainLendingEvent, ProtocolAdapter } from '../types/protocol';
+import type { RpcClient, RpcLog } from '../services/rpc';
+import { getAssetByAddress } from '../data/chainRegistry';
+import { truncateAddress } from '../utils/formatters';
+import { getDeployment, parseDeployments } from './deployments';
+import type { Deployments } from './deployments';
+import {
+  ZERO_ADDRESS,
+  encodeWord,
+  eventTopic,
+  functionSelector,
+  readWord,
+  wordToAddress,
+  wordToBigInt,
+} from '../utils/abi';
+
+export const MORPHO_BLUE_PROTOCOL = 'morpho_blue';
+
+const MORPHO_BLUE_ADDRESS = '0xBBBBBbbBBb9cC5e90e3b3Af64bdAF62C37EEFFCb';
+
+const DEFAULT_ADDRESSES: Deployments = {
+  Ethereum: [MORPHO_BLUE_ADDRESS],
+  Base: [MORPHO_BLUE_ADDRESS],
+};
+
+// Id is bytes32; indexed parameters are in the topics, the rest in data
+const TOPICS = {
+  supply: eventTopic('Supply(bytes32,address,address,uint256,uint256)'),
+  withdraw: eventTopic('Withdraw(bytes32,address,address,address,uint256,uint256)'),
+  borrow: eventTopic('Borrow(bytes32,address,address,address,uint256,uint256)'),
+  repay: eventTopic('Repay(bytes32,address,address,uint256,uint256)'),
+  supplyCollateral: eventTopic('SupplyCollateral(bytes32,address,address,uint256)'),
+  liquidate: eventTopic('Liquidate(bytes32,address,address,uint256,uint256,uint256,uint256,uint256)'),
+};
+const EVENT_TOPICS = Object.values(TOPICS);
+
+const ID_TO_MARKET_PARAMS = functionSelector('idToMarketParams(bytes32)');
+
+// LLTV is a WAD (1e18 = 100%)
+const LLTV_BASIS_POINTS_DIVISOR = 10n ** 14n;
+
+interface MarketParams {
+  loanToken: string;
+  /** Zero address for idle markets */
+  collateralToken: string;
+  lltv: bigint;
+}
+
+const addressOverrides = parseDeployments(import.meta.env.VITE_MORPHO_BLUE_ADDRESSES, 'VITE_MORPHO_BLUE_ADDRESSES');
+
+/** Morpho Blue contract on a network, if it is deployed there */
+export function getMorphoBlueAddress(network: Network): string | undefined {
+  return getDeployment(DEFAULT_ADDRESSES, addressOverrides, network)[0];
+}
+
+function symbolOrAddress(network: Network, token: string): string {
+  return getAssetByAddress(network, token)?.symbol ?? truncateAddress(token);
+}
+
+// Markets are named collateral/loan, as in the Morpho app
+function getMarketName(network: Network, market: MarketParams): string {
+  const loan = symbolOrAddress(network, market.loanToken);
+  if (market.collateralToken === ZERO_ADDRESS) return `${loan} (idle)`;
+
+  const lltvPercent = Number(market.lltv / LLTV_BASIS_POINTS_DIVISOR) / 100;
+  return `${symbolOrAddress(network, market.collateralToken)}/${loan} (${lltvPercent}% LLTV)`;
+}
+
+export function createMorphoBlueAdapter(client: RpcClient, network: Network, address: string): ProtocolAdapter {
+  const markets = new Map<string, Promise<MarketParams>>();
+
+  const getMarket = (id: string, signal?: AbortSignal): Promise<MarketParams> => {
+    let market = markets.get(id);
+    if (!market) {
+      market = client.call(address, `${ID_TO_MARKET_PARAMS}${encodeWord(id)}`, signal).then((result) => ({
+        loanToken: wordToAddress(readWord(result, 0)),
+        collateralToken: wordToAddress(readWord(result, 1)),
+        lltv: wordToBigInt(readWord(result, 4)),
+      }));
+      // Forget failed lookups so the next poll retries them
+      market.catch(() => markets.delete(id));
+      markets.set(id, market);
+    }
+    return market;
+  };
+
+  const decodeLog = async (log: RpcLog, signal?: AbortSignal): Promise<OnchainLendingEvent | null> => {
+    const [topic0, id, topic2, topic3] = log.topics;
+    if (!id || !EVENT_TOPICS.includes(topic0)) return null;
+
+    const market = await getMarket(id, signal);
+    const collateralToken = market.collateralToken === ZERO_ADDRESS ? undefined : market.collateralToken;
+    const base = {
+      protocol: MORPHO_BLUE_PROTOCOL,
+      transactionHash: log.transactionHash,
+      blockNumber: BigInt(log.blockNumber),
+      logIndex: Number(BigInt(log.logIndex)),
+      token: market.loanToken,
+      marketName: getMarketName(network, market),
+    };
+
+    switch (topic0) {
+      // Supply / Repay: (id, caller, onBehalf) indexed; data: assets, shares
+      case TOPICS.supply:
+      case TOPICS.repay:
+        return {
+          ...base,
+          lendingEvent: topic0 === TOPICS.supply ? 'deposits' : 'repayments',
+          walletAddress: wordToAddress(topic3),
+          amount: wordToBigInt(readWord(log.data, 0)),
+        };
+      // Withdraw / Borrow: (id, onBehalf, receiver) indexed; data: caller, assets, shares
+      case TOPICS.withdraw:
+      case TOPICS.borrow:
+        return {
+          ...base,
+          lendingEvent: topic0 === TOPICS.withdraw ? 'withdrawals' : 'loans',
+          walletAddress: wordToAddress(topic2),
+          amount: wordToBigInt(readWord(log.data, 1)),
+          ...(topic0 === TOPICS.borrow ? { collateralToken } : {}),
+        };
+      // SupplyCollateral: (id, caller, onBehalf) indexed; data: assets (of the collateral token)
+      case TOPICS.supplyCollateral: {
+        if (!collateralToken) return null;
+        const amount = wordToBigInt(readWord(log.data, 0));
+        return {
+          ...base,
+          lendingEvent: 'deposits',
+          walletAddress: wordToAddress(topic3),
+          token: collateralToken,
+          amount,
+          collateralToken,
+          collateralAmount: amount,
+        };
+      }
+      // Liquidate: (id, caller, borrower) indexed;
+      // data: repaidAssets, repaidShares, seizedAssets, badDebtAssets, badDebtShares
+      case TOPICS.liquidate:
+        return {
+          ...base,
+          lendingEvent: 'liquidations',
+          walletAddress: wordToAddress(topic3),
+          amount: wordToBigInt(readWord(log.data, 0)),
+          collateralToken,
+          collateralAmount: wordToBigInt(readWord(log.data, 2)),
+        };
+      default:
+        return null;
+    }
+  };
+
+  return {
+    protocol: MORPHO_BLUE_PROTOCOL,
+    addresses: [address],
+    topics: EVENT_TOPICS,
+    decodeLogs: async (logs, signal) => {
+      const target = address.toLowerCase();
+      const decoded = await Promise.all(
+        logs
+          .filter((log) => !log.removed && log.address.toLowerCase() === target)
+          .map((log) => decodeLog(log, signal))
+      );
+      return decoded.filter((event): event is OnchainLendingEvent => event !== null);
+    },
+  };
+}
@@ -0,0 +1,245 @@
+import { createServer } from 'node:http';
+import type { IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AlliumApiError, createAlliumPoller, fetchLendingEvents } from './allium';
+import type { AlliumConfig } from './allium';
+import type { RawLendingEvent } from '../data/lendingData';
+import { getBackoffMs } from './retry';
+
+// Retry without waiting; the backoff schedule itself is not under test
+vi.mock('./retry', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./retry')>()),
+  getBackoffMs: vi.fn(() => 0),
+}));
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+interface ReceivedRequest {
+  url: string;
+  headers: IncomingHttpHeaders;
+  body: { parameters: { since?: string }; run_config: { limit: number } };
+}
+
+// A stand-in for the Allium API that answers with queued responses, in order
+let server: Server;
+let baseUrl: string;
+let responses: MockResponse[] = [];
+let requests: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      requests.push({ url: req.url ?? '', headers: req.headers, body: JSON.parse(body) });
+      const response = responses.shift() ?? { status: 500, body: { error: 'No response queued' } };
+      res.writeHead(response.status, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body ?? {}));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  responses = [];
+  requests = [];
+  vi.mocked(getBackoffMs).mockClear();
+});
+
+const config = (overrides: Partial<AlliumConfig> = {}): AlliumConfig => ({
+  apiKey: 'test-key',
+  queryId: 'query-1',
+  baseUrl,
+  maxRetries: 2,
+  rowLimit: 10,
+  ...overrides,
+});
+
+const row = (hash: string, timestamp: string, overrides: Partial<RawLendingEvent> = {}): RawLendingEvent => ({
+  chain: 'ethereum',
+  protocol: 'morpho_blue',
+  lending_event: 'deposits',
+  token_symbol: 'USDC',
+  usd_amount: 1000,
+  transaction_hash: hash,
+  block_timestamp: timestamp,
+  ...overrides,
+});
+
+const ok = (rows: RawLendingEvent[]): MockResponse => ({ status: 200, body: { data: rows } });
+
+const A = row('0xaa', '2026-02-25T16:00:00');
+const B = row('0xbb', '2026-02-25T16:01:00');
+const C = row('0xcc', '2026-02-25T16:02:00');
+
+describe('fetchLendingEvents', () => {
+  it('runs the saved query with the API key and row limit', async () => {
+    responses = [ok([A])];
+
+    const page = await fetchLendingEvents(config(), null);
+
+    expect(page).toEqual({ events: [A], full: false });
+    expect(requests).toEqual([
+      expect.objectContaining({
+        url: '/api/v1/explorer/queries/query-1/run',
+        headers: expect.objectContaining({ 'x-api-key': 'test-key' }),
+        body: { parameters: {}, run_config: { limit: 10 } },
+      }),
+    ]);
+  });
+
+  it('passes the cursor as the since parameter', async () => {
+    responses = [ok([])];
+
+    await fetchLendingEvents(config(), A.block_timestamp);
+
+    expect(requests[0].body.parameters).toEqual({ since: A.block_timestamp });
+  });
+
+  it('drops rows without a hash or timestamp and keeps log indexes', async () => {
+    responses = [{ status: 200, body: { data: [{ ...A, log_index: 7 }, { ...B, transaction_hash: null }, { chain: 'base' }] } }];
+
+    const { events } = await fetchLendingEvents(config(), null);
+
+    expect(events).toEqual([{ ...A, log_index: 7 }]);
+  });
+
+  it('retries server errors with backoff', async () => {
+    responses = [{ status: 500 }, { status: 503 }, ok([A])];
+
+    const { events } = await fetchLendingEvents(config(), null);
+
+    expect(events).toEqual([A]);
+    expect(requests).toHaveLength(3);
+    expect(vi.mocked(getBackoffMs).mock.calls).toEqual([[0], [1]]);
+  });
+
+  it('waits for Retry-After instead of backing off on 429', async () => {
+    responses = [{ status: 429, headers: { 'Retry-After': '0' } }, ok([A])];
+
+    const { events } = await fetchLendingEvents(config(), null);
+
+    expect(events).toEqual([A]);
+    expect(requests).toHaveLength(2);
+    expect(getBackoffMs).not.toHaveBeenCalled();
+  });
+
+  it('does not retry client errors', async () => {
+    responses = [{ status: 400 }, ok([A])];
+
+    const error = await fetchLendingEvents(config(), null).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(AlliumApiError);
+    expect(error).toMatchObject({ status: 400, retryable: false });
+    expect(requests).toHaveLength(1);
+  });
+
+  it('gives up once retries are exhausted', async () => {
+    responses = [{ status: 500 }, { status: 500 }, { status: 500 }, ok([A])];
+
+    await expect(fetchLendingEvents(config(), null)).rejects.toMatchObject({
+      name: 'AlliumApiError',
+      status: 500,
+      retryable: true,
+    });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('rejects a response without a data array', async () => {
+    responses = [{ status: 200, body: { rows: [] } }];
+
+    await expect(fetchLendingEvents(config(), null)).rejects.toMatchObject({ retryable: false });
+  });
+});
+
+describe('createAlliumPoller', () => {
+  const createPoller = (overrides: Partial<AlliumConfig> = {}) => {
+    const onEvents = vi.fn<(events: RawLendingEvent[]) => void>();
+    const onError = vi.fn<(message: string | null) => void>();
+    const poller = createAlliumPoller({ config: config(overrides), intervalMs: 60_000, onEvents, onError });
+    return { poller, onEvents, onError };
+  };
+
+  it('polls from the newest timestamp delivered and skips rows already delivered', async () => {
+    const { poller, onEvents, onError } = createPoller();
+    responses = [ok([B, A]), ok([B, C])];
+
+    await poller.pollNow();
+    await poller.pollNow();
+
+    expect(requests.map((request) => request.body.parameters)).toEqual([{}, { since: B.block_timestamp }]);
+    expect(onEvents.mock.calls).toEqual([[[A, B]], [[C]]]);
+    expect(onError).toHaveBeenLastCalledWith(null);
+  });
+
+  it('does not call back when nothing is new', async () => {
+    const { poller, onEvents } = createPoller();
+    responses = [ok([A]), ok([A])];
+
+    await poller.pollNow();
+    await poller.pollNow();
+
+    expect(onEvents).toHaveBeenCalledTimes(1);
+    expect(requests[1].body.parameters).toEqual({ since: A.block_timestamp });
+  });
+
+  it('keeps distinct events of one transaction', async () => {
+    const { poller, onEvents } = createPoller();
+    const byAmount = [row('0xaa', A.block_timestamp, { usd_amount: 10 }), row('0xaa', A.block_timestamp, { usd_amount: 20 })];
+    const byLogIndex = [
+      row('0xbb', B.block_timestamp, { log_index: 1 }),
+      row('0xbb', B.block_timestamp, { log_index: 2 }),
+    ];
+    // The second poll runs from the newest timestamp, so only the rows at it come back
+    responses = [ok([...byAmount, ...byLogIndex]), ok(byLogIndex)];
+
+    await poller.pollNow();
+    await poller.pollNow();
+
+    expect(onEvents.mock.calls).toEqual([[[...byAmount, ...byLogIndex]]]);
+  });
+
+  it('reads the following pages while they come back full', async () => {
+    const { poller, onEvents } = createPoller({ rowLimit: 2 });
+    responses = [ok([A, B]), ok([B, C]), ok([C])];
+
+    await poller.pollNow();
+
+    expect(requests.map((request) => request.body.parameters)).toEqual([
+      {},
+      { since: B.block_timestamp },
+      { since: C.block_timestamp },
+    ]);
+    expect(onEvents.mock.calls).toEqual([[[A, B]], [[C]]]);
+  });
+
+  it('stops paging when a full page has nothing new', async () => {
+    const { poller } = createPoller({ rowLimit: 2 });
+    const sameTime = [row('0xaa', A.block_timestamp), row('0xbb', A.block_timestamp)];
+    responses = [ok(sameTime), ok(sameTime), ok([C])];
+
+    await poller.pollNow();
+
+    expect(requests).toHaveLength(2);
+  });
+
+  it('reports failed polls and clears the error once a poll succeeds', async () => {
+    const { poller, onEvents, onError } = createPoller();
+    responses = [{ status: 403 }, ok([A])];
+
+    await poller.pollNow();
+    expect(onError).toHaveBeenLastCalledWith('Allium request failed with status 403');
+
+    await poller.pollNow();
+    expect(onError).toHaveBeenLastCalledWith(null);
+    expect(onEvents).toHaveBeenCalledWith([A]);
+  });
+});
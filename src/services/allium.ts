@@ -0,0 +1,255 @@
+/**
+ * Allium API client
+ *
+ * Polls an Allium Explorer saved query for new lending events and hands them
+ * back as RawLendingEvent rows (same shape as the CSV export in lendingData.ts).
+ * Handles retries with exponential backoff and honours 429 Retry-After headers.
+ *
+ * The saved query is expected to return rows from `since` oldest first, up to
+ * the row limit; a full page is followed by another from its newest timestamp.
+ *
+ * The base URL is configurable so the client can be pointed at a local mock
+ * server, e.g. VITE_ALLIUM_API_URL=http://localhost:8787
+ */
+
+import type { RawLendingEvent } from '../data/lendingData';
+import { getBackoffMs, sleep } from './retry';
+
+const DEFAULT_BASE_URL = 'https://api.allium.so';
+const DEFAULT_MAX_RETRIES = 4;
+const DEFAULT_ROW_LIMIT = 500;
+// Pages read in one poll; the rest follow on the next poll from the advanced cursor
+const MAX_PAGES_PER_POLL = 20;
+
+export interface AlliumConfig {
+  apiKey: string;
+  queryId: string;
+  baseUrl: string;
+  maxRetries: number;
+  rowLimit: number;
+}
+
+/** One query result */
+export interface AlliumPage {
+  events: RawLendingEvent[];
+  /** The query returned as many rows as the row limit, so more may follow */
+  full: boolean;
+}
+
+/** Error raised for failed Allium requests (after retries are exhausted) */
+export class AlliumApiError extends Error {
+  readonly status: number | null;
+  readonly retryable: boolean;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, status: number | null, retryable: boolean, retryAfterMs: number | null = null) {
+    super(message);
+    this.name = 'AlliumApiError';
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** Read Allium settings from the environment. Returns null when no API key is configured. */
+export function getAlliumConfig(): AlliumConfig | null {
+  const apiKey = import.meta.env.VITE_ALLIUM_API_KEY;
+  const queryId = import.meta.env.VITE_ALLIUM_QUERY_ID;
+  if (!apiKey || apiKey === 'your-api-key-here') return null;
+  if (!queryId || queryId === 'your-query-id-here') return null;
+
+  return {
+    apiKey,
+    queryId,
+    baseUrl: (import.meta.env.VITE_ALLIUM_API_URL || DEFAULT_BASE_URL).replace(/\/+$/, ''),
+    maxRetries: DEFAULT_MAX_RETRIES,
+    rowLimit: DEFAULT_ROW_LIMIT,
+  };
+}
+
+// Parse a Retry-After header (either delta-seconds or an HTTP date)
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  return null;
+}
+
+// Coerce a row from the API into a RawLendingEvent, or null if required fields are missing
+function toRawLendingEvent(row: Record<string, unknown>): RawLendingEvent | null {
+  const hash = row.transaction_hash;
+  const timestamp = row.block_timestamp;
+  if (typeof hash !== 'string' || typeof timestamp !== 'string') return null;
+  const logIndex = Number(row.log_index ?? NaN);
+
+  return {
+    chain: String(row.chain ?? ''),
+    protocol: String(row.protocol ?? ''),
+    lending_event: String(row.lending_event ?? ''),
+    token_symbol: String(row.token_symbol ?? ''),
+    usd_amount: Number(row.usd_amount ?? 0),
+    transaction_hash: hash,
+    block_timestamp: timestamp,
+    ...(Number.isInteger(logIndex) ? { log_index: logIndex } : {}),
+  };
+}
+
+async function runQuery(
+  config: AlliumConfig,
+  since: string | null,
+  signal?: AbortSignal
+): Promise<AlliumPage> {
+  let response: Response;
+  try {
+    response = await fetch(`${config.baseUrl}/api/v1/explorer/queries/${config.queryId}/run`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-API-KEY': config.apiKey,
+      },
+      body: JSON.stringify({
+        parameters: since ? { since } : {},
+        run_config: { limit: config.rowLimit },
+      }),
+      signal,
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    throw new AlliumApiError(`Network error: ${(err as Error).message}`, null, true);
+  }
+
+  if (!response.ok) {
+    const retryable = response.status === 429 || response.status >= 500;
+    const message = response.status === 429
+      ? 'Allium rate limit exceeded'
+      : `Allium request failed with status ${response.status}`;
+    throw new AlliumApiError(message, response.status, retryable, parseRetryAfter(response.headers.get('Retry-After')));
+  }
+
+  const body = await response.json() as { data?: Record<string, unknown>[] };
+  if (!Array.isArray(body.data)) {
+    throw new AlliumApiError('Unexpected Allium response: missing data array', response.status, false);
+  }
+
+  return {
+    events: body.data.map(toRawLendingEvent).filter((row): row is RawLendingEvent => row !== null),
+    full: body.data.length >= config.rowLimit,
+  };
+}
+
+/**
+ * Fetch a page of lending events from `since` (an ISO block timestamp), retrying
+ * transient failures. Throws AlliumApiError once retries are exhausted.
+ */
+export async function fetchLendingEvents(
+  config: AlliumConfig,
+  since: string | null,
+  signal?: AbortSignal
+): Promise<AlliumPage> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await runQuery(config, since, signal);
+    } catch (err) {
+      if (!(err instanceof AlliumApiError) || !err.retryable || attempt >= config.maxRetries) {
+        throw err;
+      }
+      await sleep(err.retryAfterMs ?? getBackoffMs(attempt), signal);
+    }
+  }
+}
+
+export interface AlliumPollerOptions {
+  config: AlliumConfig;
+  intervalMs: number;
+  /** Called with new events, oldest first */
+  onEvents: (events: RawLendingEvent[]) => void;
+  /** Called with a message when a poll fails, and with null when a poll succeeds */
+  onError: (message: string | null) => void;
+}
+
+export interface AlliumPoller {
+  start: () => void;
+  stop: () => void;
+  /** Poll immediately, resetting the interval timer */
+  pollNow: () => Promise<void>;
+}
+
+// Rows of one transaction differ by log index when the query has it, else by kind, token and amount
+function getRowKey(row: RawLendingEvent): string {
+  return [row.transaction_hash, row.log_index ?? '', row.lending_event, row.token_symbol, row.usd_amount].join(':');
+}
+
+/**
+ * Create a poller that queries Allium on an interval, de-duplicating rows it
+ * has already delivered and tracking the newest block timestamp seen. A poll
+ * keeps reading pages while they come back full.
+ */
+export function createAlliumPoller({ config, intervalMs, onEvents, onError }: AlliumPollerOptions): AlliumPoller {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let running = false;
+  let since: string | null = null;
+  // Delivered rows at or after `since` (older ones cannot come back), with their block timestamps
+  const seen = new Map<string, string>();
+
+  const schedule = () => {
+    if (!running) return;
+    timer = setTimeout(() => { void poll(); }, intervalMs);
+  };
+
+  const poll = async () => {
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      for (let page = 0; page < MAX_PAGES_PER_POLL; page++) {
+        const { events, full } = await fetchLendingEvents(config, since, current.signal);
+        const fresh = events
+          .filter((row) => {
+            const key = getRowKey(row);
+            if (seen.has(key)) return false;
+            seen.set(key, row.block_timestamp);
+            return true;
+          })
+          .sort((a, b) => a.block_timestamp.localeCompare(b.block_timestamp));
+
+        if (fresh.length > 0) {
+          const cursor = fresh[fresh.length - 1].block_timestamp;
+          since = cursor;
+          seen.forEach((timestamp, key) => {
+            if (timestamp.localeCompare(cursor) < 0) seen.delete(key);
+          });
+          onEvents(fresh);
+        }
+        // A full page of rows already seen cannot move the cursor on
+        if (!full || fresh.length === 0) break;
+      }
+      onError(null);
+    } catch (err) {
+      if (current.signal.aborted) return;
+      onError(err instanceof Error ? err.message : String(err));
+    }
+
+    if (controller === current) schedule();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      void poll();
+    },
+    stop: () => {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+      controller = null;
+    },
+    pollNow: () => poll(),
+  };
+}
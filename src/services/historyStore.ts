@@ -0,0 +1,232 @@
+/**
+ * Transaction history store
+ *
+ * Keeps every transaction that reached the table in IndexedDB, per source, so a
+ * reload restores the recent history and older pages can be loaded on demand.
+ * Entries are numbered in the order they were stored; pages are read newest
+ * first by that number. Replays store the events they have played as well, so
+ * charts can read a time range of them back by block timestamp.
+ *
+ * History is kept for a configurable time and capped at a number of rows
+ * (across sources); older entries are pruned when the database opens and
+ * periodically while storing:
+ *
+ *   VITE_HISTORY_RETENTION_HOURS=24
+ *   VITE_HISTORY_MAX_ROWS=100000
+ *
+ * Without IndexedDB (private mode, old browsers) storing does nothing and
+ * pages come back empty.
+ */
+
+import type { Transaction } from '../types/transaction';
+import type { TransactionSourceId } from '../types/source';
+import { logWarning } from '../utils/logger';
+
+const DB_NAME = 'lending-viz-history';
+const DB_VERSION = 2;
+const STORE_NAME = 'transactions';
+// Prune after this many stored entries
+const PRUNE_EVERY_ADDS = 1000;
+
+export interface HistoryConfig {
+  retentionMs: number;
+  maxRows: number;
+}
+
+export interface HistoryEntry {
+  /** Storage order, increasing */
+  seq: number;
+  transaction: Transaction;
+}
+
+export interface HistoryStore {
+  /** Store a transaction; resolves to its sequence number, or null if it was already stored or storage is unavailable */
+  add: (sourceId: TransactionSourceId, transaction: Transaction) => Promise<number | null>;
+  /** Up to `limit` entries stored before `beforeSeq` (or the newest, when null), newest first */
+  loadPage: (sourceId: TransactionSourceId, beforeSeq: number | null, limit: number) => Promise<HistoryEntry[]>;
+  /** Stored transactions with timestamps in (`from`, `to`], oldest first */
+  loadRange: (sourceId: TransactionSourceId, from: Date, to: Date) => Promise<Transaction[]>;
+  /** Delete entries past the retention window or row cap. Resolves to the number deleted. */
+  prune: () => Promise<number>;
+}
+
+interface StoredRecord {
+  seq?: number;
+  /** sourceId:transactionId, unique */
+  key: string;
+  sourceId: TransactionSourceId;
+  storedAt: number;
+  transaction: Transaction;
+}
+
+export function getHistoryConfig(): HistoryConfig {
+  const retentionHours = parseFloat(import.meta.env.VITE_HISTORY_RETENTION_HOURS || '24');
+  const maxRows = parseInt(import.meta.env.VITE_HISTORY_MAX_ROWS || '100000', 10);
+  return {
+    retentionMs: (retentionHours > 0 ? retentionHours : 24) * 60 * 60 * 1000,
+    maxRows: maxRows > 0 ? maxRows : 100_000,
+  };
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const store = event.oldVersion < 1
+        ? request.result.createObjectStore(STORE_NAME, { keyPath: 'seq', autoIncrement: true })
+        : request.transaction!.objectStore(STORE_NAME);
+      if (event.oldVersion < 1) {
+        store.createIndex('key', 'key', { unique: true });
+        store.createIndex('source', ['sourceId', 'seq']);
+        store.createIndex('storedAt', 'storedAt');
+      }
+      if (event.oldVersion < 2) {
+        store.createIndex('sourceTime', ['sourceId', 'transaction.timestamp']);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Delete up to `limit` records from a cursor. Resolves to the number deleted.
+function deleteFromCursor(cursorRequest: IDBRequest<IDBCursorWithValue | null>, limit: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let deleted = 0;
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || deleted >= limit) {
+        resolve(deleted);
+        return;
+      }
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+}
+
+export function createHistoryStore({ retentionMs, maxRows }: HistoryConfig): HistoryStore {
+  let database: Promise<IDBDatabase | null> | null = null;
+  let addsSincePrune = 0;
+
+  const prune = async (): Promise<number> => {
+    const db = await getDatabase();
+    if (!db) return 0;
+
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    let deleted = 0;
+
+    // Past the retention window
+    const expired = IDBKeyRange.upperBound(Date.now() - retentionMs, true);
+    deleted += await deleteFromCursor(store.index('storedAt').openCursor(expired), Infinity);
+
+    // Over the row cap: oldest first
+    const excess = (await requestToPromise(store.count())) - maxRows;
+    if (excess > 0) deleted += await deleteFromCursor(store.openCursor(), excess);
+
+    await transactionDone(tx);
+    return deleted;
+  };
+
+  const getDatabase = (): Promise<IDBDatabase | null> => {
+    if (!database) {
+      database = typeof indexedDB === 'undefined'
+        ? Promise.resolve(null)
+        : openDatabase().catch((err) => {
+          logWarning('History', 'IndexedDB unavailable, history will not persist', err);
+          return null;
+        });
+      void database.then((db) => {
+        if (db) prune().catch((err) => logWarning('History', 'Pruning failed', err));
+      });
+    }
+    return database;
+  };
+
+  return {
+    add: async (sourceId, transaction) => {
+      const db = await getDatabase();
+      if (!db) return null;
+
+      const record: StoredRecord = {
+        key: `${sourceId}:${transaction.id}`,
+        sourceId,
+        storedAt: Date.now(),
+        transaction,
+      };
+      try {
+        const tx = db.transaction(STORE_NAME, 'readwrite');
+        const seq = await requestToPromise(tx.objectStore(STORE_NAME).add(record));
+        await transactionDone(tx);
+        if (++addsSincePrune >= PRUNE_EVERY_ADDS) {
+          addsSincePrune = 0;
+          prune().catch((err) => logWarning('History', 'Pruning failed', err));
+        }
+        return seq as number;
+      } catch (err) {
+        // Already stored (e.g. re-delivered after a reload)
+        if (err instanceof DOMException && err.name === 'ConstraintError') return null;
+        logWarning('History', 'Failed to store transaction', err);
+        return null;
+      }
+    },
+
+    loadPage: async (sourceId, beforeSeq, limit) => {
+      const db = await getDatabase();
+      if (!db) return [];
+
+      const range = IDBKeyRange.bound([sourceId, -Infinity], [sourceId, beforeSeq ?? Infinity], false, true);
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const cursorRequest = tx.objectStore(STORE_NAME).index('source').openCursor(range, 'prev');
+      const entries: HistoryEntry[] = [];
+
+      await new Promise<void>((resolve, reject) => {
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || entries.length >= limit) {
+            resolve();
+            return;
+          }
+          const record = cursor.value as StoredRecord;
+          entries.push({ seq: record.seq!, transaction: record.transaction });
+          cursor.continue();
+        };
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+      });
+      return entries;
+    },
+
+    loadRange: async (sourceId, from, to) => {
+      const db = await getDatabase();
+      if (!db) return [];
+
+      const range = IDBKeyRange.bound([sourceId, from], [sourceId, to], true, false);
+      const tx = db.transaction(STORE_NAME, 'readonly');
+      const records = await requestToPromise(tx.objectStore(STORE_NAME).index('sourceTime').getAll(range));
+      return (records as StoredRecord[]).map((record) => record.transaction);
+    },
+
+    prune,
+  };
+}
+
+/** Shared history store, configured from the environment */
+export const historyStore = createHistoryStore(getHistoryConfig());
@@ -0,0 +1,160 @@
+/**
+ * Log poller: follows one network's chain head with eth_getLogs
+ *
+ * Each poll reads the blocks after the last processed block, up to
+ * `confirmations` behind the head, in spans of at most `blockRange` (and at
+ * most MAX_RANGES_PER_POLL spans, so a cursor far behind catches up over several
+ * polls), and hands the decoded lending events to `onEvents`. The last
+ * processed block is saved per network in localStorage, so a reload picks up
+ * where the previous session stopped. A saved block ahead of the chain head
+ * (e.g. a restarted anvil node) is discarded.
+ *
+ * Events are handed over once and never taken back. Logs eth_getLogs flags as
+ * `removed` are skipped by the adapters, but an event read from a block that a
+ * reorg drops later stays delivered; `confirmations` keeps short reorgs out.
+ */
+
+import type { Network } from '../types/transaction';
+import type { OnchainLendingEvent, ProtocolAdapter } from '../types/protocol';
+import type { RpcClient } from './rpc';
+import { logWarning } from '../utils/logger';
+
+const CURSOR_STORAGE_PREFIX = 'lending-viz:last-block:';
+// Without a saved cursor or configured start block, begin this far behind the head
+const DEFAULT_LOOKBACK_BLOCKS = 100n;
+// eth_getLogs spans read per poll
+const MAX_RANGES_PER_POLL = 20;
+
+export interface LogPollerOptions {
+  network: Network;
+  client: RpcClient;
+  adapters: ProtocolAdapter[];
+  /** First block to read when nothing is saved; null starts DEFAULT_LOOKBACK_BLOCKS behind the head */
+  startBlock: bigint | null;
+  blockRange: bigint;
+  /** Blocks to stay behind the head */
+  confirmations: bigint;
+  intervalMs: number;
+  /** Called with the events of each processed span, oldest first */
+  onEvents: (events: OnchainLendingEvent[], timestamps: Map<bigint, Date>) => void;
+  /** Called with a message when a poll fails, and with null when a poll succeeds */
+  onError: (message: string | null) => void;
+}
+
+export interface LogPoller {
+  start: () => void;
+  stop: () => void;
+  /** Poll immediately, resetting the interval timer */
+  pollNow: () => Promise<void>;
+  /** Last block whose logs were processed */
+  getLastProcessedBlock: () => bigint | null;
+}
+
+function loadLastBlock(network: Network): bigint | null {
+  try {
+    const saved = localStorage.getItem(`${CURSOR_STORAGE_PREFIX}${network}`);
+    return saved && /^\d+$/.test(saved) ? BigInt(saved) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveLastBlock(network: Network, block: bigint): void {
+  try {
+    localStorage.setItem(`${CURSOR_STORAGE_PREFIX}${network}`, block.toString());
+  } catch {
+    // Storage unavailable (private mode, quota): progress is kept in memory only
+  }
+}
+
+export function createLogPoller({
+  network,
+  client,
+  adapters,
+  startBlock,
+  blockRange,
+  confirmations,
+  intervalMs,
+  onEvents,
+  onError,
+}: LogPollerOptions): LogPoller {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let controller: AbortController | null = null;
+  let running = false;
+  let lastBlock = loadLastBlock(network);
+
+  const addresses = adapters.flatMap((adapter) => adapter.addresses);
+  const topics = adapters.flatMap((adapter) => adapter.topics);
+
+  const schedule = () => {
+    if (!running) return;
+    timer = setTimeout(() => { void poll(); }, intervalMs);
+  };
+
+  const processRange = async (fromBlock: bigint, toBlock: bigint, signal: AbortSignal) => {
+    const logs = await client.getLogs({ address: addresses, topics: [topics], fromBlock, toBlock }, signal);
+    const decoded = await Promise.all(adapters.map((adapter) => adapter.decodeLogs(logs, signal)));
+    const events = decoded
+      .flat()
+      .sort((a, b) => (a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1));
+
+    const blocks = [...new Set(events.map((event) => event.blockNumber))];
+    const timestamps = new Map<bigint, Date>();
+    await Promise.all(blocks.map(async (block) => {
+      timestamps.set(block, await client.getBlockTimestamp(block, signal));
+    }));
+
+    if (events.length > 0) onEvents(events, timestamps);
+    lastBlock = toBlock;
+    saveLastBlock(network, toBlock);
+  };
+
+  const poll = async () => {
+    if (timer) clearTimeout(timer);
+    controller?.abort();
+    const current = new AbortController();
+    controller = current;
+
+    try {
+      const latest = await client.getBlockNumber(current.signal);
+      const head = latest > confirmations ? latest - confirmations : 0n;
+      if (lastBlock !== null && lastBlock > latest) {
+        logWarning('RPC', `${network} saved block ${lastBlock} is ahead of the head ${latest}; starting over`);
+        lastBlock = null;
+      }
+      if (lastBlock === null) {
+        const first = startBlock ?? (head > DEFAULT_LOOKBACK_BLOCKS ? head - DEFAULT_LOOKBACK_BLOCKS : 0n);
+        lastBlock = first > 0n ? first - 1n : -1n;
+      }
+
+      for (let ranges = 0; ranges < MAX_RANGES_PER_POLL && lastBlock < head && !current.signal.aborted; ranges++) {
+        const fromBlock = lastBlock + 1n;
+        const toBlock = fromBlock + blockRange - 1n < head ? fromBlock + blockRange - 1n : head;
+        await processRange(fromBlock, toBlock, current.signal);
+      }
+      onError(null);
+    } catch (err) {
+      if (current.signal.aborted) return;
+      onError(err instanceof Error ? err.message : String(err));
+    }
+
+    if (controller === current) schedule();
+  };
+
+  return {
+    start: () => {
+      if (running) return;
+      running = true;
+      void poll();
+    },
+    stop: () => {
+      running = false;
+      if (timer) clearTimeout(timer);
+      timer = null;
+      controller?.abort();
+      controller = null;
+    },
+    pollNow: () => poll(),
+    getLastProcessedBlock: () => (lastBlock !== null && lastBlock >= 0n ? lastBlock : null),
+  };
+}
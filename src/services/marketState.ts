@@ -0,0 +1,31 @@
+/**
+ * Market state source
+ *
+ * Loads total supply and total borrow per market from a JSON endpoint, e.g. a
+ * snapshot exported from an indexer or a protocol's reserve data, served next
+ * to the app:
+ *
+ *   VITE_MARKET_STATE_URL=/markets.json
+ *
+ * See parseMarketBaseline (data/marketState.ts) for the format. Totals without
+ * an `asOf` time are taken as current when fetched. Without a URL the table
+ * reconstructs market state from the event flows alone.
+ */
+
+import type { MarketBaseline } from '../data/marketState';
+import { parseMarketBaseline } from '../data/marketState';
+
+/** Market state URL from the environment, or null when none is configured */
+export function getMarketStateUrl(): string | null {
+  return import.meta.env.VITE_MARKET_STATE_URL || null;
+}
+
+export async function fetchMarketBaseline(url: string, signal?: AbortSignal): Promise<MarketBaseline> {
+  const fetchedAt = new Date();
+  const response = await fetch(url, { signal, headers: { Accept: 'application/json' } });
+  if (!response.ok) {
+    throw new Error(`Market state source returned ${response.status}`);
+  }
+  const baseline = parseMarketBaseline(await response.json());
+  return { ...baseline, asOf: baseline.asOf ?? fetchedAt };
+}
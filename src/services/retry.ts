@@ -0,0 +1,32 @@
+/**
+ * Retry helpers shared by the remote API clients
+ */
+
+const BASE_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+
+// Exponential backoff with jitter, capped at MAX_BACKOFF_MS
+export function getBackoffMs(attempt: number): number {
+  const exponential = BASE_BACKOFF_MS * 2 ** attempt;
+  const jitter = Math.random() * BASE_BACKOFF_MS;
+  return Math.min(exponential + jitter, MAX_BACKOFF_MS);
+}
+
+/** Wait for `ms`, rejecting with the signal's reason if it aborts first */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,238 @@
+/**
+ * Ethereum JSON-RPC client
+ *
+ * Covers the few calls the onchain source needs (eth_blockNumber, eth_getLogs,
+ * eth_getBlockByNumber, eth_call) with the same retry behaviour as the Allium
+ * client. Endpoints are configured per network with VITE_RPC_URLS, keyed by
+ * network name, alias or chain id:
+ *
+ *   VITE_RPC_URLS={"Ethereum":"http://127.0.0.1:8545"}
+ *
+ * Start blocks are set the same way, since block heights differ by orders of
+ * magnitude between networks:
+ *
+ *   VITE_RPC_START_BLOCKS={"Ethereum":21000000,"Base":25000000}
+ *
+ * Any node works, including a local anvil fork (`anvil --fork-url <mainnet rpc>`).
+ */
+
+import type { Network } from '../types/transaction';
+import { resolveNetwork } from '../data/chainRegistry';
+import { getBackoffMs, sleep } from './retry';
+import { logWarning } from '../utils/logger';
+
+const DEFAULT_MAX_RETRIES = 4;
+// Many hosted nodes reject eth_getLogs spans above 1-10k blocks
+const DEFAULT_BLOCK_RANGE = 1000n;
+// Block timestamps are cached per client; older entries are evicted first
+const MAX_CACHED_BLOCKS = 2000;
+// JSON-RPC error codes worth retrying (limit exceeded / resource unavailable)
+const RETRYABLE_RPC_CODES = new Set([-32005, -32002]);
+
+export interface RpcEndpoint {
+  network: Network;
+  url: string;
+}
+
+export interface RpcConfig {
+  endpoints: RpcEndpoint[];
+  /** First block to read per network when it has no saved cursor; networks left out start near the head */
+  startBlocks: Map<Network, bigint>;
+  /** Maximum number of blocks per eth_getLogs request */
+  blockRange: bigint;
+  /** Blocks to stay behind the head, so short reorgs settle before their logs are read */
+  confirmations: bigint;
+  maxRetries: number;
+}
+
+/** A log as returned by eth_getLogs */
+export interface RpcLog {
+  address: string;
+  topics: string[];
+  data: string;
+  blockNumber: string;
+  transactionHash: string;
+  logIndex: string;
+  /** Set when the log was dropped by a reorg */
+  removed?: boolean;
+}
+
+export interface LogFilter {
+  address: string[];
+  /** Topic filters by position; an array matches any of its values */
+  topics: Array<string | string[] | null>;
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/** Error raised for failed RPC requests (after retries are exhausted) */
+export class RpcError extends Error {
+  /** JSON-RPC error code, when the node answered with one */
+  readonly code: number | null;
+  readonly status: number | null;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: number | null, status: number | null, retryable: boolean) {
+    super(message);
+    this.name = 'RpcError';
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+function parseBlockNumber(value: string | undefined): bigint | null {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  return BigInt(value.trim());
+}
+
+// A JSON object keyed by network name, alias or chain id; entries `parseValue` rejects are skipped
+function parseNetworkMap<T>(
+  json: string | undefined,
+  variable: string,
+  parseValue: (value: unknown) => T | null
+): Map<Network, T> {
+  const entries = new Map<Network, T>();
+  if (!json) return entries;
+
+  try {
+    const parsed: unknown = JSON.parse(json);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error('expected an object');
+    }
+
+    Object.entries(parsed).forEach(([key, raw]) => {
+      const network = resolveNetwork(key)?.name;
+      const value = parseValue(raw);
+      if (!network || value === null) {
+        logWarning('RPC', `Ignoring ${variable} entry for ${key}: ${JSON.stringify(raw)}`);
+        return;
+      }
+      entries.set(network, value);
+    });
+  } catch (err) {
+    logWarning('RPC', `${variable} is not a valid JSON object`, err);
+  }
+  return entries;
+}
+
+function parseEndpoints(json: string | undefined): RpcEndpoint[] {
+  const urls = parseNetworkMap(json, 'VITE_RPC_URLS', (url) => (typeof url === 'string' && url.length > 0 ? url : null));
+  return [...urls].map(([network, url]) => ({ network, url }));
+}
+
+function parseStartBlocks(json: string | undefined): Map<Network, bigint> {
+  return parseNetworkMap(json, 'VITE_RPC_START_BLOCKS', (block) =>
+    typeof block === 'number' || typeof block === 'string' ? parseBlockNumber(String(block)) : null
+  );
+}
+
+/** Read RPC settings from the environment. Returns null when no endpoint is configured. */
+export function getRpcConfig(): RpcConfig | null {
+  const endpoints = parseEndpoints(import.meta.env.VITE_RPC_URLS);
+  if (endpoints.length === 0) return null;
+
+  const blockRange = parseBlockNumber(import.meta.env.VITE_RPC_BLOCK_RANGE);
+  return {
+    endpoints,
+    startBlocks: parseStartBlocks(import.meta.env.VITE_RPC_START_BLOCKS),
+    blockRange: blockRange && blockRange > 0n ? blockRange : DEFAULT_BLOCK_RANGE,
+    confirmations: parseBlockNumber(import.meta.env.VITE_RPC_CONFIRMATIONS) ?? 0n,
+    maxRetries: DEFAULT_MAX_RETRIES,
+  };
+}
+
+export function toHexQuantity(value: bigint): string {
+  return `0x${value.toString(16)}`;
+}
+
+export interface RpcClient {
+  url: string;
+  getBlockNumber: (signal?: AbortSignal) => Promise<bigint>;
+  getLogs: (filter: LogFilter, signal?: AbortSignal) => Promise<RpcLog[]>;
+  /** Timestamp of a block (cached) */
+  getBlockTimestamp: (blockNumber: bigint, signal?: AbortSignal) => Promise<Date>;
+  /** eth_call against the latest block, returning the raw result */
+  call: (to: string, data: string, signal?: AbortSignal) => Promise<string>;
+}
+
+export function createRpcClient(url: string, maxRetries = DEFAULT_MAX_RETRIES): RpcClient {
+  const blockTimestamps = new Map<bigint, Date>();
+  let requestId = 0;
+
+  const send = async <T>(method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jsonrpc: '2.0', id: ++requestId, method, params }),
+        signal,
+      });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      throw new RpcError(`Network error: ${(err as Error).message}`, null, null, true);
+    }
+
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw new RpcError(`${method} failed with status ${response.status}`, null, response.status, retryable);
+    }
+
+    const body = await response.json() as { result?: T; error?: { code: number; message: string } };
+    if (body.error) {
+      const { code, message } = body.error;
+      throw new RpcError(`${method}: ${message}`, code, response.status, RETRYABLE_RPC_CODES.has(code));
+    }
+    if (body.result === undefined) {
+      throw new RpcError(`Unexpected ${method} response: missing result`, null, response.status, false);
+    }
+    return body.result;
+  };
+
+  const request = async <T>(method: string, params: unknown[], signal?: AbortSignal): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send<T>(method, params, signal);
+      } catch (err) {
+        if (!(err instanceof RpcError) || !err.retryable || attempt >= maxRetries) {
+          throw err;
+        }
+        await sleep(getBackoffMs(attempt), signal);
+      }
+    }
+  };
+
+  return {
+    url,
+    getBlockNumber: async (signal) => BigInt(await request<string>('eth_blockNumber', [], signal)),
+    getLogs: (filter, signal) =>
+      request<RpcLog[]>('eth_getLogs', [{
+        address: filter.address,
+        topics: filter.topics,
+        fromBlock: toHexQuantity(filter.fromBlock),
+        toBlock: toHexQuantity(filter.toBlock),
+      }], signal),
+    getBlockTimestamp: async (blockNumber, signal) => {
+      const cached = blockTimestamps.get(blockNumber);
+      if (cached) return cached;
+
+      const block = await request<{ timestamp: string } | null>(
+        'eth_getBlockByNumber',
+        [toHexQuantity(blockNumber), false],
+        signal
+      );
+      if (!block) {
+        throw new RpcError(`Block ${blockNumber} not found`, null, null, true);
+      }
+
+      const timestamp = new Date(Number(BigInt(block.timestamp)) * 1000);
+      blockTimestamps.set(blockNumber, timestamp);
+      if (blockTimestamps.size > MAX_CACHED_BLOCKS) {
+        blockTimestamps.delete(blockTimestamps.keys().next().value as bigint);
+      }
+      return timestamp;
+    },
+    call: (to, data, signal) => request<string>('eth_call', [{ to, data }, 'latest'], signal),
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Remote source: lending events polled from the Allium API
+ */
+
+import type { TransactionSource } from '../types/source';
+import { transformToTransaction } from '../data/lendingData';
+import { validateLendingEvents } from '../data/validation';
+import { createAlliumPoller } from '../services/allium';
+import type { AlliumConfig, AlliumPoller } from '../services/allium';
+import { createSourceController } from './sourceController';
+
+export function createAlliumSource(config: AlliumConfig, pollIntervalMs: number): TransactionSource {
+  const { emit, setStatus, recordQuality, api } = createSourceController();
+  let poller: AlliumPoller | null = null;
+  // Keeps transaction ids unique across polls
+  let eventCount = 0;
+
+  return {
+    id: 'allium',
+    label: 'Allium Live',
+    kind: 'remote',
+    finite: false,
+    reportsWallets: false,
+    ...api,
+    start: () => {
+      if (poller) return;
+      setStatus('connecting');
+      poller = createAlliumPoller({
+        config,
+        intervalMs: pollIntervalMs,
+        onEvents: (events) => {
+          const { valid, report } = validateLendingEvents(events);
+          recordQuality(report);
+          emit(valid.map((event) => transformToTransaction(event, eventCount++)));
+        },
+        onError: (message) => {
+          setStatus(message ? 'error' : 'streaming', message);
+        },
+      });
+      poller.start();
+    },
+    stop: () => {
+      poller?.stop();
+      poller = null;
+      setStatus('idle');
+    },
+    refresh: async () => {
+      await poller?.pollNow();
+    },
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * File source: replays a lending export imported at runtime (see lendingImport.ts)
+ */
+
+import type { FileTransactionSource } from '../types/source';
+import { transformToTransaction } from '../data/lendingData';
+import { validateLendingEvents } from '../data/validation';
+import type { ImportedDataset } from '../data/lendingImport';
+import { createSourceController } from './sourceController';
+
+export function createFileSource(dataset: ImportedDataset | null): FileTransactionSource {
+  const { emit, setStatus, recordQuality, api } = createSourceController();
+  const { valid, report } = validateLendingEvents(dataset?.events ?? []);
+  recordQuality(report);
+  // Oldest first, as subscribers expect
+  const transactions = valid
+    .map((event, index) => transformToTransaction(event, index))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return {
+    id: 'file',
+    label: 'File Upload',
+    kind: 'file',
+    finite: true,
+    reportsWallets: false,
+    ...api,
+    getFileName: () => dataset?.fileName ?? null,
+    start: () => {
+      if (transactions.length === 0) return;
+      setStatus('streaming');
+      emit(transactions);
+      setStatus('complete');
+    },
+    stop: () => setStatus('idle'),
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Mock source: randomly generated transactions at random intervals
+ */
+
+import type { TransactionSource } from '../types/source';
+import { generateTransaction, generateInitialTransactions } from '../data/mockTransactions';
+import { createSourceController } from './sourceController';
+
+export interface MockSourceOptions {
+  /** Number of back-dated transactions to emit immediately on start */
+  initialCount?: number;
+  minIntervalMs?: number;
+  maxIntervalMs?: number;
+}
+
+export function createMockSource({
+  initialCount = 0,
+  minIntervalMs = 2000,
+  maxIntervalMs = 8000,
+}: MockSourceOptions = {}): TransactionSource {
+  const { emit, setStatus, api } = createSourceController();
+  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  const scheduleNext = () => {
+    const nextInterval = Math.random() * (maxIntervalMs - minIntervalMs) + minIntervalMs;
+    timeoutId = setTimeout(() => {
+      emit([generateTransaction()]);
+      scheduleNext();
+    }, nextInterval);
+  };
+
+  return {
+    id: 'mock',
+    label: 'Random Mock',
+    kind: 'mock',
+    finite: false,
+    reportsWallets: false,
+    ...api,
+    start: () => {
+      if (timeoutId) return;
+      setStatus('streaming');
+      if (initialCount > 0) {
+        emit(generateInitialTransactions(initialCount));
+      }
+      scheduleNext();
+    },
+    stop: () => {
+      if (timeoutId) clearTimeout(timeoutId);
+      timeoutId = null;
+      setStatus('idle');
+    },
+  };
+}
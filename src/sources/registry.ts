@@ -0,0 +1,84 @@
+/**
+ * Transaction source registry
+ *
+ * Lists the available data sources and builds them by id. The default source
+ * comes from VITE_DATA_SOURCE, falling back to Allium or an RPC endpoint when
+ * one is configured and to the bundled CSV snapshot otherwise.
+ */
+
+import type { FileTransactionSource, TransactionSource, TransactionSourceId } from '../types/source';
+import type { ImportedDataset } from '../data/lendingImport';
+import { getAlliumConfig } from '../services/allium';
+import { getRpcConfig } from '../services/rpc';
+import { createStaticSource } from './staticSource';
+import { createMockSource } from './mockSource';
+import { createFileSource } from './fileSource';
+import { createAlliumSource } from './alliumSource';
+import { createRpcSource } from './rpcSource';
+
+const POLL_INTERVAL_MS = parseInt(import.meta.env.VITE_POLL_INTERVAL_MS || '300000', 10); // 5 minutes
+const RPC_POLL_INTERVAL_MS = parseInt(import.meta.env.VITE_RPC_POLL_INTERVAL_MS || '12000', 10); // ~1 Ethereum block
+
+const alliumConfig = getAlliumConfig();
+const rpcConfig = getRpcConfig();
+
+export interface SourceOption {
+  id: TransactionSourceId;
+  label: string;
+  /** Whether the source can be used with the current configuration */
+  available: boolean;
+}
+
+export const SOURCE_OPTIONS: SourceOption[] = [
+  { id: 'static', label: 'CSV Snapshot', available: true },
+  { id: 'mock', label: 'Random Mock', available: true },
+  { id: 'file', label: 'File Upload', available: true },
+  { id: 'allium', label: 'Allium Live', available: alliumConfig !== null },
+  { id: 'rpc', label: 'Onchain (RPC)', available: rpcConfig !== null },
+];
+
+/** Whether a value names a source that is available in this build */
+export function isSourceId(value: string | undefined): value is TransactionSourceId {
+  return SOURCE_OPTIONS.some((option) => option.id === value && option.available);
+}
+
+export function getDefaultSourceId(): TransactionSourceId {
+  const configured = import.meta.env.VITE_DATA_SOURCE;
+  if (isSourceId(configured)) return configured;
+  if (alliumConfig) return 'allium';
+  return rpcConfig ? 'rpc' : 'static';
+}
+
+export interface CreateSourceOptions {
+  /** Imported export replayed by the file source */
+  dataset?: ImportedDataset | null;
+}
+
+export function createTransactionSource(
+  id: TransactionSourceId,
+  { dataset = null }: CreateSourceOptions = {}
+): TransactionSource {
+  switch (id) {
+    case 'mock':
+      return createMockSource();
+    case 'file':
+      return createFileSource(dataset);
+    case 'allium':
+      if (!alliumConfig) {
+        throw new Error('Allium source requires VITE_ALLIUM_API_KEY and VITE_ALLIUM_QUERY_ID');
+      }
+      return createAlliumSource(alliumConfig, POLL_INTERVAL_MS);
+    case 'rpc':
+      if (!rpcConfig) {
+        throw new Error('RPC source requires VITE_RPC_URLS');
+      }
+      return createRpcSource(rpcConfig, RPC_POLL_INTERVAL_MS);
+    case 'static':
+    default:
+      return createStaticSource();
+  }
+}
+
+export function isFileSource(source: TransactionSource): source is FileTransactionSource {
+  return source.kind === 'file';
+}
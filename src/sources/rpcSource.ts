@@ -0,0 +1,160 @@
+/**
+ * Remote source: lending events decoded from onchain logs over JSON-RPC
+ *
+ * One log poller per configured network, reading every protocol adapter
+ * deployed there (Morpho Blue, Aave v3, Compound v3). Decoded events carry exact token
+ * quantities and the acting wallet; USD values come from the price service.
+ * Events are checked by the same validation as indexer rows, so tokens missing
+ * from the registry are quarantined rather than guessed at.
+ */
+
+import type { Network, Transaction } from '../types/transaction';
+import type { TransactionSource } from '../types/source';
+import type { OnchainLendingEvent } from '../types/protocol';
+import type { RawLendingEvent } from '../data/lendingData';
+import { getAsset, getAssetByAddress } from '../data/chainRegistry';
+import { validateLendingEvent } from '../data/validation';
+import type { QuarantinedEvent } from '../data/validation';
+import { valueInUsd } from '../pricing/valuation';
+import { tokenAmountToNumber } from '../utils/tokenAmount';
+import { createRpcClient } from '../services/rpc';
+import type { RpcConfig } from '../services/rpc';
+import { createLogPoller } from '../services/logPoller';
+import type { LogPoller } from '../services/logPoller';
+import { createProtocolAdapters } from '../protocols/adapters';
+import { createSourceController } from './sourceController';
+import { logWarning } from '../utils/logger';
+
+// Quantity in whole tokens, or null when the token is not in the registry
+function toQuantity(network: Network, token: string, amount: bigint): number | null {
+  const asset = getAssetByAddress(network, token);
+  return asset ? tokenAmountToNumber({ raw: amount.toString(), decimals: asset.decimals }) : null;
+}
+
+// The indexer-shaped row used for validation and the quality report
+function toRawLendingEvent(network: Network, event: OnchainLendingEvent, timestamp: Date): RawLendingEvent {
+  const asset = getAssetByAddress(network, event.token);
+  const quantity = toQuantity(network, event.token, event.amount);
+  return {
+    chain: network,
+    protocol: event.protocol,
+    lending_event: event.lendingEvent,
+    token_symbol: asset?.symbol ?? event.token,
+    usd_amount: asset && quantity !== null ? valueInUsd(quantity, asset.symbol) ?? 0 : 0,
+    transaction_hash: event.transactionHash,
+    block_timestamp: timestamp.toISOString(),
+  };
+}
+
+function toTransaction(network: Network, event: OnchainLendingEvent, timestamp: Date):
+  | { ok: true; transaction: Transaction }
+  | { ok: false; quarantined: QuarantinedEvent } {
+  const raw = toRawLendingEvent(network, event, timestamp);
+  const result = validateLendingEvent(raw);
+  if (!result.ok) return { ok: false, quarantined: { raw, issues: result.issues } };
+
+  const { action, asset } = result.event;
+  const collateralAsset = event.collateralToken ? getAssetByAddress(network, event.collateralToken)?.symbol : undefined;
+  const collateralAmount = event.collateralToken && event.collateralAmount !== undefined
+    ? toQuantity(network, event.collateralToken, event.collateralAmount)
+    : null;
+
+  return {
+    ok: true,
+    transaction: {
+      id: `tx-${event.transactionHash.slice(2, 18)}-${event.logIndex}`,
+      action,
+      asset,
+      amountUsd: raw.usd_amount,
+      tokenAmount: { raw: event.amount.toString(), decimals: getAsset(asset)?.decimals ?? 18 },
+      walletAddress: event.walletAddress,
+      network,
+      timestamp: result.event.timestamp,
+      ...(event.apy !== undefined ? { apy: event.apy } : {}),
+      marketName: event.marketName,
+      ...(collateralAsset ? { collateralAsset } : {}),
+      ...(collateralAsset && collateralAmount !== null ? { collateralAmount } : {}),
+      transactionHash: event.transactionHash,
+      logIndex: event.logIndex,
+      protocol: event.protocol,
+      dataSource: 'rpc',
+    },
+  };
+}
+
+export function createRpcSource(config: RpcConfig, pollIntervalMs: number): TransactionSource {
+  const { emit, setStatus, recordQuality, api } = createSourceController();
+  let pollers: LogPoller[] = [];
+  // Latest error per network; the source is in error while any network is failing
+  const errors = new Map<Network, string>();
+
+  const reportErrors = () => {
+    const message = [...errors.entries()].map(([network, error]) => `${network}: ${error}`).join('; ');
+    setStatus(message ? 'error' : 'streaming', message || null);
+  };
+
+  return {
+    id: 'rpc',
+    label: 'Onchain (RPC)',
+    kind: 'remote',
+    finite: false,
+    reportsWallets: true,
+    ...api,
+    start: () => {
+      if (pollers.length > 0) return;
+      setStatus('connecting');
+
+      pollers = config.endpoints.flatMap((endpoint) => {
+        const client = createRpcClient(endpoint.url, config.maxRetries);
+        const adapters = createProtocolAdapters(client, endpoint.network);
+        if (adapters.length === 0) {
+          logWarning('RPC', `No protocol deployments known on ${endpoint.network}; configure their addresses`);
+          return [];
+        }
+
+        return [createLogPoller({
+          network: endpoint.network,
+          client,
+          adapters,
+          startBlock: config.startBlocks.get(endpoint.network) ?? null,
+          blockRange: config.blockRange,
+          confirmations: config.confirmations,
+          intervalMs: pollIntervalMs,
+          onEvents: (events, timestamps) => {
+            const accepted: Transaction[] = [];
+            const quarantined: QuarantinedEvent[] = [];
+            events.forEach((event) => {
+              const timestamp = timestamps.get(event.blockNumber);
+              if (!timestamp) return;
+              const result = toTransaction(endpoint.network, event, timestamp);
+              if (result.ok) accepted.push(result.transaction);
+              else quarantined.push(result.quarantined);
+            });
+            recordQuality({ checked: accepted.length + quarantined.length, accepted: accepted.length, quarantined });
+            emit(accepted);
+          },
+          onError: (message) => {
+            if (message) errors.set(endpoint.network, message);
+            else errors.delete(endpoint.network);
+            reportErrors();
+          },
+        })];
+      });
+
+      if (pollers.length === 0) {
+        setStatus('error', 'No configured network has a known protocol deployment');
+        return;
+      }
+      pollers.forEach((poller) => poller.start());
+    },
+    stop: () => {
+      pollers.forEach((poller) => poller.stop());
+      pollers = [];
+      errors.clear();
+      setStatus('idle');
+    },
+    refresh: async () => {
+      await Promise.all(pollers.map((poller) => poller.pollNow()));
+    },
+  };
+}
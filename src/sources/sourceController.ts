@@ -0,0 +1,67 @@
+/**
+ * Shared listener/status bookkeeping for TransactionSource adapters.
+ */
+
+import type { Transaction } from '../types/transaction';
+import type { TransactionListener, TransactionSource, TransactionSourceStatus } from '../types/source';
+import { EMPTY_QUALITY_REPORT, mergeQualityReports } from '../data/validation';
+import { bundleTransactions } from '../data/bundles';
+import type { DataQualityReport } from '../data/validation';
+
+/** The read/subscribe half of a source, spread into each adapter */
+export type SourceControllerApi = Pick<
+  TransactionSource,
+  'subscribe' | 'onStatusChange' | 'getStatus' | 'getError' | 'getQualityReport'
+>;
+
+export interface SourceController {
+  /** Deliver a batch of transactions to every subscriber, bundling events of the same onchain transaction */
+  emit: (transactions: Transaction[]) => void;
+  /** Update status (and error message) and notify status listeners */
+  setStatus: (status: TransactionSourceStatus, error?: string | null) => void;
+  /** Add a validation report to the running total and notify status listeners */
+  recordQuality: (report: DataQualityReport) => void;
+  api: SourceControllerApi;
+}
+
+export function createSourceController(): SourceController {
+  const listeners = new Set<TransactionListener>();
+  const statusListeners = new Set<() => void>();
+  let status: TransactionSourceStatus = 'idle';
+  let error: string | null = null;
+  let qualityReport = EMPTY_QUALITY_REPORT;
+
+  const notify = () => statusListeners.forEach((listener) => listener());
+
+  return {
+    emit: (transactions) => {
+      if (transactions.length === 0) return;
+      const bundled = bundleTransactions(transactions);
+      listeners.forEach((listener) => listener(bundled));
+    },
+    setStatus: (nextStatus, nextError = null) => {
+      if (nextStatus === status && nextError === error) return;
+      status = nextStatus;
+      error = nextError;
+      notify();
+    },
+    recordQuality: (report) => {
+      if (report.checked === 0) return;
+      qualityReport = mergeQualityReports(qualityReport, report);
+      notify();
+    },
+    api: {
+      subscribe: (listener) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+      },
+      onStatusChange: (listener) => {
+        statusListeners.add(listener);
+        return () => { statusListeners.delete(listener); };
+      },
+      getStatus: () => status,
+      getError: () => error,
+      getQualityReport: () => qualityReport,
+    },
+  };
+}
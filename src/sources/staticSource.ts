@@ -0,0 +1,28 @@
+/**
+ * Static source: the CSV snapshot bundled in lendingData.ts
+ */
+
+import type { TransactionSource } from '../types/source';
+import { lendingTransactions, lendingDataQuality } from '../data/lendingData';
+import { createSourceController } from './sourceController';
+
+export function createStaticSource(): TransactionSource {
+  const { emit, setStatus, recordQuality, api } = createSourceController();
+  recordQuality(lendingDataQuality);
+
+  return {
+    id: 'static',
+    label: 'CSV Snapshot',
+    kind: 'static',
+    finite: true,
+    reportsWallets: false,
+    ...api,
+    start: () => {
+      setStatus('streaming');
+      // The snapshot is kept newest first; subscribers expect oldest first
+      emit([...lendingTransactions].reverse());
+      setStatus('complete');
+    },
+    stop: () => setStatus('idle'),
+  };
+}
@@ -0,0 +1,30 @@
+/**
+ * Builders for eth_getLogs results in decoder tests
+ */
+
+import type { RpcLog } from '../services/rpc';
+import { encodeWord } from '../utils/abi';
+
+export const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+/** An address (or bytes32) as an indexed topic */
+export function topic(value: string): string {
+  return `0x${encodeWord(value.toLowerCase())}`;
+}
+
+/** ABI-encoded data of static words (uint256 values or addresses) */
+export function encodeData(...values: Array<string | bigint>): string {
+  return `0x${values.map((value) => encodeWord(typeof value === 'string' ? value.toLowerCase() : value)).join('')}`;
+}
+
+export function makeLog(address: string, topics: string[], data: string, logIndex = 0, overrides: Partial<RpcLog> = {}): RpcLog {
+  return {
+    address,
+    topics,
+    data,
+    blockNumber: '0x10',
+    transactionHash: TX_HASH,
+    logIndex: `0x${logIndex.toString(16)}`,
+    ...overrides,
+  };
+}
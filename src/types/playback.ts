@@ -0,0 +1,9 @@
+export type PlaybackMode = 'drip' | 'replay';
+
+export type ReplaySpeed = 1 | 10 | 60;
+
+/** Multiplier for how fast the drip feed launches and animates transactions */
+export type FeedSpeed = 0.5 | 1 | 2 | 4;
+
+/** What replay does after the last event: stop, or start over from the first event */
+export type ReplayEndBehavior = 'stop' | 'loop';
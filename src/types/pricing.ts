@@ -0,0 +1,18 @@
+/** USD price per whole token, keyed by asset symbol */
+export type PriceTable = Record<string, number>;
+
+/** Where USD prices come from (a static file, a local stand-in oracle, an API) */
+export interface PriceSource {
+  id: string;
+  label: string;
+  fetchPrices: (signal?: AbortSignal) => Promise<PriceTable>;
+}
+
+export interface PriceSnapshot {
+  prices: PriceTable;
+  /** Label of the source that produced the prices */
+  sourceLabel: string;
+  /** When the prices were last fetched, null while only bundled prices are known */
+  updatedAt: Date | null;
+  error: string | null;
+}
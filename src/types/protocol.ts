@@ -0,0 +1,36 @@
+import type { RpcLog } from '../services/rpc';
+
+/** A lending event decoded from a protocol log, before pricing and validation */
+export interface OnchainLendingEvent {
+  /** Protocol id, also the value of Transaction.protocol (e.g. 'morpho_blue') */
+  protocol: string;
+  /** Event name in the indexer vocabulary: deposits, withdrawals, loans, repayments or liquidations */
+  lendingEvent: string;
+  transactionHash: string;
+  blockNumber: bigint;
+  logIndex: number;
+  /** Account whose position changed (the borrower for liquidations) */
+  walletAddress: string;
+  /** Token contract of `amount` */
+  token: string;
+  /** Quantity of `token` in base units */
+  amount: bigint;
+  /** Collateral token of the market, when it has one */
+  collateralToken?: string;
+  /** Collateral moved by the event in base units (supplied or seized) */
+  collateralAmount?: bigint;
+  marketName?: string;
+  /** Rate reported by the event (e.g. Aave's borrow rate), as an APY percentage */
+  apy?: number;
+}
+
+/** Decodes one protocol's lending events from raw logs */
+export interface ProtocolAdapter {
+  protocol: string;
+  /** Contracts that emit the protocol's events */
+  addresses: string[];
+  /** topic0 of every event the adapter decodes */
+  topics: string[];
+  /** Decode logs, skipping any the adapter does not recognise */
+  decodeLogs: (logs: RpcLog[], signal?: AbortSignal) => Promise<OnchainLendingEvent[]>;
+}
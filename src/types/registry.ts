@@ -0,0 +1,52 @@
+export type AssetCategory = 'stablecoin' | 'native' | 'wrapped' | 'liquid-staking' | 'governance' | 'other';
+
+/** Explorer page URLs with {hash} (tx) or {address} (address, token) placeholders */
+export interface ExplorerTemplates {
+  tx: string;
+  address: string;
+  token: string;
+}
+
+export interface NetworkInfo {
+  /** Display name, also the value of Transaction.network */
+  name: string;
+  /** EVM chain id */
+  chainId: number;
+  /** Short label for badges */
+  shortName: string;
+  /** Brand color (hex) */
+  color: string;
+  /** Block explorer base URL, without a trailing slash */
+  explorerUrl: string;
+  /** Page URLs for explorers that don't use the Etherscan /tx, /address, /token paths */
+  explorerTemplates?: Partial<ExplorerTemplates>;
+  /** Other identifiers for the chain in data exports (e.g. "ethereum", "arbitrum_one") */
+  aliases?: string[];
+}
+
+export interface AssetInfo {
+  /** Token symbol, also the value of Transaction.asset */
+  symbol: string;
+  name?: string;
+  decimals: number;
+  /** Brand color (hex) */
+  color: string;
+  /** Logo path or URL */
+  logo?: string;
+  category: AssetCategory;
+  /** Token contract address per network name */
+  addresses?: Record<string, string>;
+}
+
+export interface ProtocolInfo {
+  /** Canonical id, also the value of Transaction.protocol (e.g. 'aave_v3') */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Short label for badges */
+  shortName: string;
+  /** Brand color (hex) */
+  color: string;
+  /** Other identifiers for the protocol in data exports (e.g. "aave", "aave-v3") */
+  aliases?: string[];
+}
@@ -0,0 +1,41 @@
+import type { Transaction } from './transaction';
+import type { DataQualityReport } from '../data/validation';
+
+export type TransactionSourceId = 'static' | 'mock' | 'file' | 'allium' | 'rpc';
+
+/** Where a source's transactions come from */
+export type TransactionSourceKind = 'static' | 'mock' | 'file' | 'remote';
+
+export type TransactionSourceStatus = 'idle' | 'connecting' | 'streaming' | 'complete' | 'error';
+
+export type TransactionListener = (transactions: Transaction[]) => void;
+
+export interface TransactionSource {
+  id: TransactionSourceId;
+  label: string;
+  kind: TransactionSourceKind;
+  /** Finite sources deliver a fixed dataset and reach 'complete'; the feed restarts them to loop */
+  finite: boolean;
+  /** Whether entries carry the acting wallet; other sources fill in placeholder addresses */
+  reportsWallets: boolean;
+  /** Begin delivering transactions to subscribers */
+  start: () => void;
+  /** Stop delivering transactions and release timers/requests */
+  stop: () => void;
+  /** Receive batches of new transactions (oldest first). Returns an unsubscribe function. */
+  subscribe: (listener: TransactionListener) => () => void;
+  /** Be notified when status or error changes. Returns an unsubscribe function. */
+  onStatusChange: (listener: () => void) => () => void;
+  getStatus: () => TransactionSourceStatus;
+  getError: () => string | null;
+  /** Validation summary of everything the source has ingested (changes notify status listeners) */
+  getQualityReport: () => DataQualityReport;
+  /** Ask the source to fetch now, if it supports it */
+  refresh?: () => Promise<void>;
+}
+
+export interface FileTransactionSource extends TransactionSource {
+  kind: 'file';
+  /** Name of the imported file, if any */
+  getFileName: () => string | null;
+}
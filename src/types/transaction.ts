@@ -1,27 +1,59 @@
 export type ActionType = 'supply' | 'borrow' | 'repay' | 'withdraw' | 'liquidation';
 
-export type Network = 'Ethereum' | 'Base' | 'Arbitrum' | 'Optimism';
+/** Network name from the chain registry (data/chainRegistry.ts), e.g. 'Ethereum' */
+export type Network = string;
 
-export type Asset = 'USDC' | 'ETH' | 'WBTC' | 'DAI' | 'USDT' | 'WETH' | 'cbETH' | 'stETH' | 'PYUSD';
+/** Asset symbol from the chain registry (data/chainRegistry.ts), e.g. 'USDC' */
+export type Asset = string;
 
-export type DataSource = 'allium' | 'mock';
+export type DataSource = 'allium' | 'rpc' | 'mock';
+
+/** Token quantity in base units (e.g. wei), kept as a decimal string so it survives JSON */
+export interface TokenAmount {
+  raw: string;
+  decimals: number;
+  /** Derived from the USD value and a price rather than read onchain */
+  estimated?: boolean;
+}
+
+/** Several lending events emitted by one onchain transaction */
+export interface TransactionBundle {
+  /** Readable kind of bundle, e.g. "Supply collateral + Borrow" */
+  label: string;
+  /** The individual events, in log order */
+  steps: Transaction[];
+}
 
 export interface Transaction {
   id: string;
   action: ActionType;
   asset: Asset;
-  amount: number;
+  /** Value in USD */
+  amountUsd: number;
+  /** Quantity of `asset`, when known or derived from a price */
+  tokenAmount?: TokenAmount;
   walletAddress: string;
+  /** The source does not report the wallet; walletAddress is a stand-in and must not be linked */
+  walletPlaceholder?: boolean;
   network: Network;
   timestamp: Date;
   apy?: number;
   marketName?: string;
   collateralAsset?: Asset;
+  /** Collateral quantity in whole tokens */
   collateralAmount?: number;
   healthFactor?: number;
   transactionHash?: string;
+  /** Position of the event's log within its transaction, when read onchain */
+  logIndex?: number;
   protocol?: string;
   dataSource?: DataSource;
+  /** Where the event originated as [latitude, longitude], when the source knows it */
+  location?: [number, number];
+  /** Small events folded into this entry when the feed is backlogged */
+  aggregatedFrom?: Transaction[];
+  /** Set when this entry stands for several events of one onchain transaction */
+  bundle?: TransactionBundle;
 }
 
 export interface TransactionCardProps {
@@ -34,8 +66,15 @@ export interface TransactionModalProps {
   transaction: Transaction | null;
   isOpen: boolean;
   onClose: () => void;
+  /** "Now" for relative times (the simulated clock during replay) */
+  referenceTime?: Date | null;
 }
 
 export interface NetworkBadgeProps {
   network: Network;
 }
+
+export interface ProtocolBadgeProps {
+  /** Protocol id or alias (Transaction.protocol) */
+  protocol: string;
+}
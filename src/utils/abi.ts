@@ -0,0 +1,53 @@
+/**
+ * Minimal ABI helpers for decoding event logs and eth_call results
+ *
+ * Only static types are needed here (uint256, address, bytes32), so every
+ * value is a single 32-byte word.
+ */
+
+import { keccak_256 } from '@noble/hashes/sha3';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+
+const WORD_HEX_LENGTH = 64;
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/** keccak256 of a UTF-8 string, as 0x-prefixed hex */
+export function keccakHex(text: string): string {
+  return `0x${bytesToHex(keccak_256(utf8ToBytes(text)))}`;
+}
+
+/** topic0 of an event, e.g. eventTopic('Supply(bytes32,address,address,uint256,uint256)') */
+export function eventTopic(signature: string): string {
+  return keccakHex(signature);
+}
+
+/** 4-byte selector of a function, e.g. functionSelector('idToMarketParams(bytes32)') */
+export function functionSelector(signature: string): string {
+  return keccakHex(signature).slice(0, 10);
+}
+
+/** The index-th 32-byte word of ABI-encoded data, without 0x */
+export function readWord(data: string, index: number): string {
+  const hex = data.startsWith('0x') ? data.slice(2) : data;
+  const word = hex.slice(index * WORD_HEX_LENGTH, (index + 1) * WORD_HEX_LENGTH);
+  if (word.length !== WORD_HEX_LENGTH) {
+    throw new Error(`ABI data too short: missing word ${index}`);
+  }
+  return word;
+}
+
+export function wordToBigInt(word: string): bigint {
+  return BigInt(`0x${word.startsWith('0x') ? word.slice(2) : word}`);
+}
+
+/** Address held in the low 20 bytes of a word or indexed topic (lowercase) */
+export function wordToAddress(word: string): string {
+  return `0x${word.slice(-40).toLowerCase()}`;
+}
+
+/** Encode a bytes32 or uint256 argument for eth_call */
+export function encodeWord(value: string | bigint): string {
+  const hex = typeof value === 'bigint' ? value.toString(16) : value.replace(/^0x/, '');
+  return hex.padStart(WORD_HEX_LENGTH, '0');
+}
@@ -0,0 +1,19 @@
+import { keccakHex } from './abi';
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+export function isAddress(value: string): boolean {
+  return ADDRESS_PATTERN.test(value);
+}
+
+/** EIP-55 mixed-case checksum form of an address; other strings are returned as is */
+export function toChecksumAddress(address: string): string {
+  if (!isAddress(address)) return address;
+
+  const lower = address.slice(2).toLowerCase();
+  const hash = keccakHex(lower).slice(2);
+  const checksummed = [...lower]
+    .map((char, index) => (parseInt(hash[index], 16) >= 8 ? char.toUpperCase() : char))
+    .join('');
+  return `0x${checksummed}`;
+}
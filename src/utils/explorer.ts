@@ -0,0 +1,44 @@
+/**
+ * Block explorer links, built from each network's explorer in the chain registry
+ */
+
+import type { Network } from '../types/transaction';
+import type { ExplorerTemplates } from '../types/registry';
+import { getNetwork } from '../data/chainRegistry';
+
+// Etherscan, Basescan, Arbiscan and Optimistic Etherscan all share these paths
+const ETHERSCAN_PATHS: ExplorerTemplates = {
+  tx: '/tx/{hash}',
+  address: '/address/{address}',
+  token: '/token/{address}',
+};
+
+function getTemplate(network: Network, page: keyof ExplorerTemplates): string | null {
+  const info = getNetwork(network);
+  if (!info) return null;
+  const template = info.explorerTemplates?.[page];
+  if (template) return template;
+  return info.explorerUrl ? `${info.explorerUrl}${ETHERSCAN_PATHS[page]}` : null;
+}
+
+export function getExplorerName(network: Network): string | null {
+  const info = getNetwork(network);
+  if (!info?.explorerUrl) return null;
+  try {
+    return new URL(info.explorerUrl).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+export function getTransactionUrl(network: Network, hash: string): string | null {
+  return getTemplate(network, 'tx')?.replace('{hash}', hash) ?? null;
+}
+
+export function getAddressUrl(network: Network, address: string): string | null {
+  return getTemplate(network, 'address')?.replace('{address}', address) ?? null;
+}
+
+export function getTokenUrl(network: Network, tokenAddress: string): string | null {
+  return getTemplate(network, 'token')?.replace('{address}', tokenAddress) ?? null;
+}
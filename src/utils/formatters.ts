@@ -1,4 +1,6 @@
-import type { Asset } from '../types/transaction';
+import type { Asset, TokenAmount } from '../types/transaction';
+import { isStablecoin } from '../data/chainRegistry';
+import { tokenAmountToNumber } from './tokenAmount';
 
 export function truncateAddress(address: string): string {
   if (address.length <= 10) return address;
@@ -6,9 +8,7 @@ export function truncateAddress(address: string): string {
 }
 
 export function formatAmount(amount: number, asset: Asset): string {
-  const isStablecoin = ['USDC', 'DAI', 'USDT', 'PYUSD'].includes(asset);
-
-  if (isStablecoin) {
+  if (isStablecoin(asset)) {
     return new Intl.NumberFormat('en-US', {
       style: 'decimal',
       minimumFractionDigits: 0,
@@ -30,6 +30,12 @@ export function formatAmount(amount: number, asset: Asset): string {
   }).format(amount);
 }
 
+/** Token quantity with its symbol, prefixed with ≈ when estimated from a price */
+export function formatTokenAmount(amount: TokenAmount, asset: Asset): string {
+  const formatted = `${formatAmount(tokenAmountToNumber(amount), asset)} ${asset}`;
+  return amount.estimated ? `≈ ${formatted}` : formatted;
+}
+
 export function formatUSD(amount: number): string {
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
@@ -39,12 +45,23 @@ export function formatUSD(amount: number): string {
   }).format(amount);
 }
 
+/** Short USD value like $1.2M; `signed` also prefixes positive values with + */
+export function formatCompactUSD(amount: number, signed = false): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    notation: 'compact',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 1,
+    signDisplay: signed ? 'exceptZero' : 'auto',
+  }).format(amount);
+}
+
 export function formatAPY(apy: number): string {
   return `${apy.toFixed(2)}%`;
 }
 
-export function formatRelativeTime(date: Date): string {
-  const now = new Date();
+export function formatRelativeTime(date: Date, now: Date = new Date()): string {
   const diffMs = now.getTime() - date.getTime();
   const diffSeconds = Math.floor(diffMs / 1000);
   const diffMinutes = Math.floor(diffSeconds / 60);
@@ -61,17 +78,15 @@ export function formatRelativeTime(date: Date): string {
   return date.toLocaleDateString();
 }
 
-export function getAssetColor(asset: Asset): string {
-  const colors: Record<Asset, string> = {
-    'USDC': '#2775CA',
-    'ETH': '#627EEA',
-    'WBTC': '#F7931A',
-    'DAI': '#F5AC37',
-    'USDT': '#26A17B',
-    'WETH': '#627EEA',
-    'cbETH': '#0052FF',
-    'stETH': '#00A3FF',
-    'PYUSD': '#0033A0',
-  };
-  return colors[asset] || '#6B7280';
+// Simulated replay clock, shown in UTC like block timestamps
+export function formatClock(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: false,
+    timeZone: 'UTC',
+  }).format(date) + ' UTC';
 }
@@ -1,5 +1,6 @@
 import type { Transaction, ActionType } from '../types/transaction';
-import { truncateAddress, formatAmount, formatAPY } from './formatters';
+import { truncateAddress, formatAmount, formatAPY, formatTokenAmount, formatUSD } from './formatters';
+import { getProtocolName } from '../data/protocolRegistry';
 
 const ACTION_VERBS: Record<ActionType, { past: string; present: string }> = {
   supply: { past: 'supplied', present: 'supplying' },
@@ -9,25 +10,52 @@ const ACTION_VERBS: Record<ActionType, { past: string; present: string }> = {
   liquidation: { past: 'liquidated', present: 'liquidating' },
 };
 
+// "26.412 ETH ($79,236)", or "$79,236 of ETH" when the token quantity is unknown
+function describeAmount(tx: Transaction): string {
+  const usd = formatUSD(tx.amountUsd);
+  return tx.tokenAmount ? `${formatTokenAmount(tx.tokenAmount, tx.asset)} (${usd})` : `${usd} of ${tx.asset}`;
+}
+
+// "supplied 1.5 WBTC ($98,000) as collateral"
+function describeStep(step: Transaction): string {
+  const description = `${ACTION_VERBS[step.action].past} ${describeAmount(step)}`;
+  return step.action === 'supply' && step.collateralAsset === step.asset ? `${description} as collateral` : description;
+}
+
 export function getShortSummary(tx: Transaction): string {
   const address = truncateAddress(tx.walletAddress);
-  const amount = formatAmount(tx.amount, tx.asset);
   const verb = ACTION_VERBS[tx.action].past;
 
-  if (tx.action === 'liquidation' && tx.collateralAsset) {
-    return `${address} ${verb} ${amount} ${tx.collateralAsset}`;
+  if (tx.action === 'liquidation' && tx.collateralAsset && tx.collateralAmount) {
+    return `${address} ${verb} ${formatAmount(tx.collateralAmount, tx.collateralAsset)} ${tx.collateralAsset}`;
   }
 
-  return `${address} ${verb} ${amount} ${tx.asset}`;
+  return `${address} ${verb} ${describeAmount(tx)}`;
 }
 
 export function getDetailedSummary(tx: Transaction): string[] {
-  const amount = formatAmount(tx.amount, tx.asset);
+  const amount = describeAmount(tx);
+  const protocol = tx.protocol ? getProtocolName(tx.protocol) : 'the lending protocol';
   const summaries: string[] = [];
 
+  if (tx.aggregatedFrom) {
+    const verb = ACTION_VERBS[tx.action].past;
+    return [
+      `Across ${tx.aggregatedFrom.length} small transactions, users ${verb} a combined ${amount} on ${tx.network}.`,
+      'These small events arrived in a burst and were grouped so the feed could catch up.',
+    ];
+  }
+
+  if (tx.bundle) {
+    return [
+      `In a single transaction on ${protocol}, this user ${tx.bundle.steps.map(describeStep).join(', then ')}.`,
+      `The ${tx.bundle.steps.length} steps executed together: either all of them happened or none did.`,
+    ];
+  }
+
   switch (tx.action) {
     case 'supply':
-      summaries.push(`This user supplied ${amount} ${tx.asset} to the lending protocol.`);
+      summaries.push(`This user supplied ${amount} to ${protocol}.`);
       if (tx.apy) {
         summaries.push(`They're now earning approximately ${formatAPY(tx.apy)} APY on this position.`);
       }
@@ -37,7 +65,7 @@ export function getDetailedSummary(tx: Transaction): string[] {
       break;
 
     case 'borrow':
-      summaries.push(`This user borrowed ${amount} ${tx.asset} from the lending protocol.`);
+      summaries.push(`This user borrowed ${amount} from ${protocol}.`);
       if (tx.apy) {
         summaries.push(`They're paying approximately ${formatAPY(tx.apy)} APY on this loan.`);
       }
@@ -53,7 +81,7 @@ export function getDetailedSummary(tx: Transaction): string[] {
       break;
 
     case 'repay':
-      summaries.push(`This user repaid ${amount} ${tx.asset} to reduce their the lending protocol debt.`);
+      summaries.push(`This user repaid ${amount} to reduce their ${protocol} debt.`);
       if (tx.healthFactor) {
         summaries.push(`This improved their health factor to ${tx.healthFactor.toFixed(2)}.`);
       }
@@ -61,7 +89,7 @@ export function getDetailedSummary(tx: Transaction): string[] {
       break;
 
     case 'withdraw':
-      summaries.push(`This user withdrew ${amount} ${tx.asset} from their the lending protocol position.`);
+      summaries.push(`This user withdrew ${amount} from their ${protocol} position.`);
       if (tx.healthFactor) {
         summaries.push(`Their health factor is now ${tx.healthFactor.toFixed(2)}.`);
       }
@@ -69,11 +97,11 @@ export function getDetailedSummary(tx: Transaction): string[] {
       break;
 
     case 'liquidation':
-      summaries.push(`A liquidation occurred on this position.`);
+      summaries.push(`A liquidation occurred on this ${protocol} position.`);
       if (tx.collateralAsset && tx.collateralAmount) {
         summaries.push(`${formatAmount(tx.collateralAmount, tx.collateralAsset)} ${tx.collateralAsset} collateral was seized.`);
       }
-      summaries.push(`${amount} ${tx.asset} of debt was repaid in the process.`);
+      summaries.push(`${amount} of debt was repaid in the process.`);
       summaries.push(`The liquidator received a bonus for maintaining protocol health.`);
       break;
   }
@@ -0,0 +1,11 @@
+/**
+ * Warnings about recoverable problems (unreadable settings, storage or network
+ * failures), written to the console in one format: "[Scope] message".
+ */
+
+export type LogScope = 'Clipboard' | 'Globe' | 'History' | 'Markets' | 'Prices' | 'Protocols' | 'Registry' | 'RPC';
+
+export function logWarning(scope: LogScope, message: string, detail?: unknown): void {
+  if (detail === undefined) console.warn(`[${scope}] ${message}`);
+  else console.warn(`[${scope}] ${message}`, detail);
+}
@@ -0,0 +1,40 @@
+import type { TokenAmount } from '../types/transaction';
+
+// Digits kept when converting a float quantity; doubles carry about 15-17 significant digits
+const MAX_FLOAT_FRACTION_DIGITS = 12;
+
+// From here toFixed switches to exponent notation; such doubles are whole numbers anyway
+const MAX_FIXED_QUANTITY = 1e21;
+
+/** Convert a finite quantity in whole tokens to base units */
+export function toTokenAmount(quantity: number, decimals: number, estimated = false): TokenAmount {
+  // Convert the magnitude and apply the sign last, so the fraction follows the sign of the whole part
+  const magnitude = Math.abs(quantity);
+  const [whole, fraction = ''] = magnitude < MAX_FIXED_QUANTITY
+    ? magnitude.toFixed(Math.min(decimals, MAX_FLOAT_FRACTION_DIGITS)).split('.')
+    : [BigInt(Math.trunc(magnitude)).toString()];
+  const units = BigInt(whole) * 10n ** BigInt(decimals) + BigInt(fraction.padEnd(decimals, '0') || '0');
+  const raw = quantity < 0 ? -units : units;
+  return { raw: raw.toString(), decimals, ...(estimated ? { estimated } : {}) };
+}
+
+/** Quantity in whole tokens (as a float, for display and valuation) */
+export function tokenAmountToNumber({ raw, decimals }: TokenAmount): number {
+  const negative = raw.startsWith('-');
+  const digits = (negative ? raw.slice(1) : raw).padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals);
+  return Number(`${negative ? '-' : ''}${whole}.${fraction || '0'}`);
+}
+
+/** Sum amounts of the same token, or undefined if any amount is missing */
+export function sumTokenAmounts(amounts: Array<TokenAmount | undefined>): TokenAmount | undefined {
+  const [first] = amounts;
+  if (!first || amounts.some((amount) => !amount || amount.decimals !== first.decimals)) return undefined;
+  const known = amounts as TokenAmount[];
+  return {
+    raw: known.reduce((sum, amount) => sum + BigInt(amount.raw), 0n).toString(),
+    decimals: first.decimals,
+    ...(known.some((amount) => amount.estimated) ? { estimated: true } : {}),
+  };
+}
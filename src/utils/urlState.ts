@@ -0,0 +1,106 @@
+/**
+ * Shareable view state in the URL query string
+ *
+ * The selected transaction, filters, data source and replay position (where a
+ * paused replay stands) are kept in the address bar so a pasted link reopens
+ * the same view:
+ *
+ *   ?source=static&mode=replay&speed=10&at=2026-02-25T15:40:00Z
+ *     &action=liquidation&network=Base&min=10000&tx=0x51ea…
+ *
+ * Unknown or malformed parameters are ignored; the source id is checked
+ * against the source registry by the caller. Filter lists are
+ * comma-separated, and filters that are not set are left out.
+ */
+
+import type { ActionType } from '../types/transaction';
+import type { PlaybackMode, ReplaySpeed } from '../types/playback';
+import type { TransactionFilters } from '../data/filters';
+import { ACTION_TYPES, EMPTY_FILTERS } from '../data/filters';
+import { REPLAY_SPEEDS } from '../lib/playback';
+
+export interface ViewState {
+  /** Source id as written in the link; check it against the registry before use */
+  sourceId?: string;
+  mode?: PlaybackMode;
+  replaySpeed?: ReplaySpeed;
+  /** Replay position (simulated clock) */
+  replayAt?: Date;
+  filters: TransactionFilters;
+  /** Hash of the transaction open in the modal */
+  txHash?: string;
+}
+
+const TX_HASH_PATTERN = /^0x[0-9a-fA-F]{64}$/;
+
+function parseList(params: URLSearchParams, name: string): string[] {
+  const value = params.get(name);
+  return value ? value.split(',').map((item) => item.trim()).filter(Boolean) : [];
+}
+
+function parseNumber(params: URLSearchParams, name: string): number | null {
+  const value = params.get(name);
+  if (value === null || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0 ? number : null;
+}
+
+export function parseViewState(search: string): ViewState {
+  const params = new URLSearchParams(search);
+  const state: ViewState = {
+    filters: {
+      ...EMPTY_FILTERS,
+      actions: parseList(params, 'action').filter((action): action is ActionType =>
+        (ACTION_TYPES as string[]).includes(action)
+      ),
+      assets: parseList(params, 'asset'),
+      networks: parseList(params, 'network'),
+      protocols: parseList(params, 'protocol'),
+      minUsd: parseNumber(params, 'min'),
+      maxUsd: parseNumber(params, 'max'),
+      search: params.get('q') ?? '',
+    },
+  };
+
+  const source = params.get('source');
+  if (source) state.sourceId = source;
+
+  const mode = params.get('mode');
+  if (mode === 'replay' || mode === 'drip') state.mode = mode;
+
+  const speed = Number(params.get('speed'));
+  if ((REPLAY_SPEEDS as number[]).includes(speed)) state.replaySpeed = speed as ReplaySpeed;
+
+  const at = params.get('at');
+  if (at && !Number.isNaN(Date.parse(at))) state.replayAt = new Date(at);
+
+  const tx = params.get('tx');
+  if (tx && TX_HASH_PATTERN.test(tx)) state.txHash = tx.toLowerCase();
+
+  return state;
+}
+
+/** Query string for a view ('' when nothing is set) */
+export function formatViewState(state: ViewState): string {
+  const params = new URLSearchParams();
+  const { filters } = state;
+
+  if (state.sourceId && state.sourceId !== 'file') params.set('source', state.sourceId);
+  if (state.mode) params.set('mode', state.mode);
+  if (state.replaySpeed) params.set('speed', String(state.replaySpeed));
+  // Whole seconds keep the link short
+  if (state.replayAt) params.set('at', `${state.replayAt.toISOString().slice(0, 19)}Z`);
+
+  if (filters.actions.length > 0) params.set('action', filters.actions.join(','));
+  if (filters.assets.length > 0) params.set('asset', filters.assets.join(','));
+  if (filters.networks.length > 0) params.set('network', filters.networks.join(','));
+  if (filters.protocols.length > 0) params.set('protocol', filters.protocols.join(','));
+  if (filters.minUsd !== null) params.set('min', String(filters.minUsd));
+  if (filters.maxUsd !== null) params.set('max', String(filters.maxUsd));
+  if (filters.search.trim()) params.set('q', filters.search.trim());
+
+  if (state.txHash) params.set('tx', state.txHash);
+
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
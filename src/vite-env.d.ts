@@ -2,8 +2,30 @@
 
 interface ImportMetaEnv {
   readonly VITE_ALLIUM_API_KEY: string | undefined;
+  readonly VITE_ALLIUM_QUERY_ID: string | undefined;
+  readonly VITE_ALLIUM_API_URL: string | undefined;
   readonly VITE_POLL_INTERVAL_MS: string | undefined;
   readonly VITE_DRIP_INTERVAL_MS: string | undefined;
+  readonly VITE_DATA_SOURCE: string | undefined;
+  readonly VITE_NETWORK_REGIONS: string | undefined;
+  readonly VITE_EXTRA_NETWORKS: string | undefined;
+  readonly VITE_EXTRA_ASSETS: string | undefined;
+  readonly VITE_EXTRA_PROTOCOLS: string | undefined;
+  readonly VITE_EXPLORER_TEMPLATES: string | undefined;
+  readonly VITE_PRICE_SOURCE_URL: string | undefined;
+  readonly VITE_PRICE_SOURCE_LABEL: string | undefined;
+  readonly VITE_PRICE_REFRESH_MS: string | undefined;
+  readonly VITE_RPC_URLS: string | undefined;
+  readonly VITE_RPC_START_BLOCKS: string | undefined;
+  readonly VITE_RPC_BLOCK_RANGE: string | undefined;
+  readonly VITE_RPC_CONFIRMATIONS: string | undefined;
+  readonly VITE_RPC_POLL_INTERVAL_MS: string | undefined;
+  readonly VITE_MORPHO_BLUE_ADDRESSES: string | undefined;
+  readonly VITE_AAVE_V3_POOLS: string | undefined;
+  readonly VITE_COMPOUND_V3_MARKETS: string | undefined;
+  readonly VITE_HISTORY_RETENTION_HOURS: string | undefined;
+  readonly VITE_HISTORY_MAX_ROWS: string | undefined;
+  readonly VITE_MARKET_STATE_URL: string | undefined;
 }
 
 interface ImportMeta {